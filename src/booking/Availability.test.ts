@@ -0,0 +1,227 @@
+import { describe, expect, test } from "bun:test"
+import { FastCheck as fc } from "effect"
+import {
+  addDays,
+  bookableSlots,
+  localDate,
+  localTime,
+  weekdayOf,
+  zonedInstant,
+  type Booking,
+  type DayAvailability,
+  type Interval,
+  type WeeklyWindow
+} from "./Availability.js"
+
+const MINUTE = 60 * 1000
+
+// Zones with and without daylight saving, on both hemispheres
+const TIME_ZONES = ["UTC", "America/Sao_Paulo", "America/New_York", "Europe/Lisbon", "Australia/Sydney"]
+
+const clock = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+const instant = (iso: string): number => new Date(iso).getTime()
+
+const overlaps = (a: { start: number, end: number }, b: { start: number, end: number }): boolean =>
+  a.start < b.end && b.start < a.end
+
+// Whether windows back to back, like 09:00-12:00 and 12:00-18:00, cover the whole range
+const covered = (range: { start: number, end: number }, windows: ReadonlyArray<{ start: number, end: number }>): boolean => {
+  let reached = range.start
+  for (const window of [...windows].sort((a, b) => a.start - b.start)) {
+    if (window.start <= reached && window.end > reached) reached = window.end
+  }
+  return reached >= range.end
+}
+
+// Between 06:00 and 23:00, clear of the hours daylight saving skips or repeats
+const weeklyWindow = (weekday: number): fc.Arbitrary<WeeklyWindow> =>
+  fc.tuple(fc.integer({ min: 24, max: 91 }), fc.integer({ min: 1, max: 40 })).map(([start, length]) => ({
+    weekday,
+    startTime: clock(start * 15),
+    endTime: clock(Math.min(start + length, 92) * 15)
+  }))
+
+// Anywhere from two hours before the day to two hours after it
+const intervalAround = (day: string, timeZone: string): fc.Arbitrary<Interval> =>
+  fc.tuple(fc.integer({ min: -24, max: 312 }), fc.integer({ min: 1, max: 36 })).map(([start, length]) => ({
+    startAt: new Date(zonedInstant(day, start * 5, timeZone)).toISOString(),
+    endAt: new Date(zonedInstant(day, (start + length) * 5, timeZone)).toISOString()
+  }))
+
+const availability: fc.Arbitrary<DayAvailability> = fc
+  .record({
+    day: fc.integer({ min: 0, max: 729 }).map((offset) => addDays("2026-01-01", offset)),
+    timeZone: fc.constantFrom(...TIME_ZONES),
+    service: fc.record({
+      durationMinutes: fc.constantFrom(15, 30, 45, 60, 90),
+      bufferMinutes: fc.constantFrom(0, 5, 10, 15)
+    }),
+    limits: fc.record({
+      leadMinutes: fc.integer({ min: 0, max: 240 }),
+      maxAdvanceDays: fc.integer({ min: 0, max: 60 })
+    }),
+    // Hours before the start of the day
+    nowOffset: fc.integer({ min: -20, max: 72 })
+  })
+  .chain(({ day, timeZone, service, limits, nowOffset }) => {
+    const weekday = weekdayOf(day)
+    return fc.record({
+      day: fc.constant(day),
+      timeZone: fc.constant(timeZone),
+      now: fc.constant(new Date(zonedInstant(day, 0, timeZone) - nowOffset * 60 * MINUTE).toISOString()),
+      service: fc.constant(service),
+      limits: fc.constant(limits),
+      // Windows of other weekdays must not leak into this one
+      hours: fc.tuple(
+        fc.array(weeklyWindow(weekday), { minLength: 1, maxLength: 2 }),
+        fc.array(weeklyWindow((weekday + 1) % 7), { maxLength: 1 })
+      ).map(([today, tomorrow]) => [...today, ...tomorrow]),
+      breaks: fc.array(weeklyWindow(weekday), { maxLength: 2 }),
+      holidays: fc.constant([]),
+      closures: fc.array(intervalAround(day, timeZone), { maxLength: 2 }),
+      bookings: fc.array(
+        fc.tuple(intervalAround(day, timeZone), fc.constantFrom(0, 10, 30)).map(([interval, bufferMinutes]): Booking => ({ ...interval, bufferMinutes })),
+        { maxLength: 5 }
+      )
+    })
+  })
+
+const property = (check: (input: DayAvailability, slots: Interval[]) => void) => () =>
+  fc.assert(fc.property(availability, (input) => check(input, bookableSlots(input))), { numRuns: 300 })
+
+describe("bookableSlots", () => {
+  test("never overlap a booking or either buffer", property((input, slots) => {
+    for (const slot of slots) {
+      const blocked = { start: instant(slot.startAt), end: instant(slot.endAt) + input.service.bufferMinutes * MINUTE }
+      for (const booking of input.bookings) {
+        expect(overlaps(blocked, { start: instant(booking.startAt), end: instant(booking.endAt) + booking.bufferMinutes * MINUTE })).toBe(false)
+      }
+    }
+  }))
+
+  test("never overlap a closure", property((input, slots) => {
+    for (const slot of slots) {
+      for (const closure of input.closures) {
+        expect(overlaps(
+          { start: instant(slot.startAt), end: instant(slot.endAt) },
+          { start: instant(closure.startAt), end: instant(closure.endAt) }
+        )).toBe(false)
+      }
+    }
+  }))
+
+  test("fall within the opening hours and outside the breaks on the wall clock", property((input, slots) => {
+    const weekday = weekdayOf(input.day)
+    for (const slot of slots) {
+      expect(localDate(slot.startAt, input.timeZone)).toBe(input.day)
+      const local = { start: minutesOf(localTime(slot.startAt, input.timeZone)), end: minutesOf(localTime(slot.endAt, input.timeZone)) }
+
+      const open = input.hours
+        .filter((window) => window.weekday === weekday)
+        .map((window) => ({ start: minutesOf(window.startTime), end: minutesOf(window.endTime) }))
+      expect(covered(local, open)).toBe(true)
+
+      for (const pause of input.breaks) {
+        expect(overlaps(local, { start: minutesOf(pause.startTime), end: minutesOf(pause.endTime) })).toBe(false)
+      }
+    }
+  }))
+
+  test("last exactly the service duration", property((input, slots) => {
+    for (const slot of slots) {
+      expect(instant(slot.endAt) - instant(slot.startAt)).toBe(input.service.durationMinutes * MINUTE)
+    }
+  }))
+
+  test("respect the lead time and how far ahead bookings open", property((input, slots) => {
+    const now = instant(input.now)
+    for (const slot of slots) {
+      expect(instant(slot.startAt)).toBeGreaterThanOrEqual(now + input.limits.leadMinutes * MINUTE)
+      expect(instant(slot.startAt)).toBeLessThanOrEqual(now + input.limits.maxAdvanceDays * 24 * 60 * MINUTE)
+    }
+  }))
+
+  test("are ordered and leave the service buffer between each other", property((input, slots) => {
+    for (const [previous, next] of slots.slice(1).map((slot, index) => [slots[index]!, slot] as const)) {
+      expect(instant(next.startAt)).toBeGreaterThanOrEqual(instant(previous.endAt) + input.service.bufferMinutes * MINUTE)
+    }
+  }))
+
+  test("are only ever taken away by bookings", property((input, slots) => {
+    const free = bookableSlots({ ...input, bookings: [] }).map((slot) => slot.startAt)
+    for (const slot of slots) {
+      expect(free).toContain(slot.startAt)
+    }
+  }))
+
+  test("are never offered on a holiday", property((input) => {
+    expect(bookableSlots({ ...input, holidays: [input.day] })).toEqual([])
+  }))
+
+  test("keep the buffer across a closure shorter than it", () => {
+    const slots = bookableSlots({
+      day: "2027-02-02",
+      timeZone: "UTC",
+      now: "2027-02-01T00:00:00.000Z",
+      service: { durationMinutes: 90, bufferMinutes: 10 },
+      hours: [{ weekday: weekdayOf("2027-02-02"), startTime: "09:00", endTime: "14:00" }],
+      breaks: [],
+      holidays: [],
+      closures: [{ startAt: "2027-02-02T10:30:00.000Z", endAt: "2027-02-02T10:35:00.000Z" }],
+      bookings: [],
+      limits: { leadMinutes: 0, maxAdvanceDays: 60 }
+    })
+    expect(slots.map((slot) => localTime(slot.startAt, "UTC"))).toEqual(["09:00", "10:40", "12:20"])
+  })
+})
+
+describe("daylight saving", () => {
+  const nineToFive = (day: string, timeZone: string): DayAvailability => ({
+    day,
+    timeZone,
+    now: new Date(zonedInstant(addDays(day, -1), 0, timeZone)).toISOString(),
+    service: { durationMinutes: 60, bufferMinutes: 0 },
+    hours: [{ weekday: weekdayOf(day), startTime: "09:00", endTime: "17:00" }],
+    breaks: [{ weekday: weekdayOf(day), startTime: "12:00", endTime: "13:00" }],
+    holidays: [],
+    closures: [],
+    bookings: [],
+    limits: { leadMinutes: 0, maxAdvanceDays: 60 }
+  })
+
+  const wallClock = (input: DayAvailability) =>
+    bookableSlots(input).map((slot) => localTime(slot.startAt, input.timeZone))
+
+  const HOURS = ["09:00", "10:00", "11:00", "13:00", "14:00", "15:00", "16:00"]
+
+  // New York springs forward on March 8th 2026 and falls back on November 1st
+  test.each(["2026-03-07", "2026-03-08", "2026-03-09", "2026-10-31", "2026-11-01", "2026-11-02"])(
+    "keeps the opening hours on %s in New York",
+    (day) => {
+      expect(wallClock(nineToFive(day, "America/New_York"))).toEqual(HOURS)
+    }
+  )
+
+  test("moves the instants with the offset", () => {
+    expect(bookableSlots(nineToFive("2026-03-07", "America/New_York"))[0]!.startAt).toBe("2026-03-07T14:00:00.000Z")
+    expect(bookableSlots(nineToFive("2026-03-08", "America/New_York"))[0]!.startAt).toBe("2026-03-08T13:00:00.000Z")
+  })
+
+  // Sydney falls back on April 5th 2026, in the southern autumn
+  test("keeps the opening hours on the southern hemisphere", () => {
+    expect(wallClock(nineToFive("2026-04-05", "Australia/Sydney"))).toEqual(HOURS)
+  })
+
+  test("counts a booking across the change in real time", () => {
+    const input = nineToFive("2026-03-08", "America/New_York")
+    const bookings = [{ startAt: "2026-03-08T14:00:00.000Z", endAt: "2026-03-08T15:00:00.000Z", bufferMinutes: 0 }]
+    expect(wallClock({ ...input, bookings })).toEqual(HOURS.filter((hour) => hour !== "10:00"))
+  })
+})
@@ -0,0 +1,222 @@
+import { Config } from "effect"
+
+// Bookable slots of one professional on one day, computed from plain data so the
+// rules can be checked without a database. Instants are UTC ISO strings like
+// everything stored; days and times of day are wall clock values of the business
+// time zone ("2026-03-03", "09:00"), so opening hours survive daylight saving changes.
+
+export interface WeeklyWindow {
+  readonly weekday: number
+  readonly startTime: string
+  readonly endTime: string
+}
+
+export interface Interval {
+  readonly startAt: string
+  readonly endAt: string
+}
+
+// An active appointment, blocking its time plus the cleanup buffer of its service
+export interface Booking extends Interval {
+  readonly bufferMinutes: number
+}
+
+export interface BookingLimits {
+  // How long before its start a slot stops being offered
+  readonly leadMinutes: number
+  // How far ahead slots are offered
+  readonly maxAdvanceDays: number
+}
+
+export interface DayAvailability {
+  readonly day: string
+  readonly timeZone: string
+  readonly now: string
+  readonly service: { readonly durationMinutes: number, readonly bufferMinutes: number }
+  // Weekly opening hours and breaks of the professional
+  readonly hours: ReadonlyArray<WeeklyWindow>
+  readonly breaks: ReadonlyArray<WeeklyWindow>
+  // Days the whole business is closed
+  readonly holidays: ReadonlyArray<string>
+  // One-off closures of the professional or the whole business
+  readonly closures: ReadonlyArray<Interval>
+  readonly bookings: ReadonlyArray<Booking>
+  readonly limits: BookingLimits
+}
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+// Time zone and booking limits of the business, BUSINESS_TIMEZONE is an IANA name
+// like America/Sao_Paulo. UTC keeps the opening hours of databases set up before it.
+export const BookingPolicy = Config.all({
+  timeZone: Config.string("BUSINESS_TIMEZONE").pipe(
+    Config.withDefault("UTC"),
+    Config.validate({ message: "Expected an IANA time zone like America/Sao_Paulo", validation: (zone) => isValidTimeZone(zone) })
+  ),
+  leadMinutes: Config.integer("BOOKING_LEAD_MINUTES").pipe(Config.withDefault(60)),
+  maxAdvanceDays: Config.integer("BOOKING_MAX_ADVANCE_DAYS").pipe(Config.withDefault(60))
+})
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const formatterOf = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterOf(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall clock of the zone at an instant, as if it were UTC
+const wallClock = (instant: number, timeZone: string): number => {
+  const parts = formatterOf(timeZone).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value ?? 0)
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"))
+}
+
+const offsetAt = (instant: number, timeZone: string): number =>
+  wallClock(instant, timeZone) - Math.floor(instant / 1000) * 1000
+
+// The instant a wall clock time of the zone refers to. A time skipped by a daylight
+// saving jump comes out an hour early, which opening hours never fall on in practice.
+export const zonedInstant = (day: string, minuteOfDay: number, timeZone: string): number => {
+  const wall = Date.parse(`${day}T00:00:00.000Z`) + minuteOfDay * MINUTE
+  const guess = wall - offsetAt(wall, timeZone)
+  return wall - offsetAt(guess, timeZone)
+}
+
+export const localDate = (iso: string, timeZone: string): string =>
+  new Date(wallClock(new Date(iso).getTime(), timeZone)).toISOString().substring(0, 10)
+
+export const localTime = (iso: string, timeZone: string): string =>
+  new Date(wallClock(new Date(iso).getTime(), timeZone)).toISOString().substring(11, 16)
+
+export const addDays = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00.000Z`) + days * DAY).toISOString().substring(0, 10)
+
+export const weekdayOf = (day: string): number => new Date(`${day}T00:00:00.000Z`).getUTCDay()
+
+// Start and end of a day of the zone, which is not always 24 hours long
+export const dayBounds = (day: string, timeZone: string): Interval => ({
+  startAt: new Date(zonedInstant(day, 0, timeZone)).toISOString(),
+  endAt: new Date(zonedInstant(addDays(day, 1), 0, timeZone)).toISOString()
+})
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+interface Range {
+  readonly start: number
+  readonly end: number
+}
+
+const windowsOn = (windows: ReadonlyArray<WeeklyWindow>, day: string, timeZone: string): Range[] =>
+  windows
+    .filter((window) => window.weekday === weekdayOf(day))
+    .map((window) => ({
+      start: zonedInstant(day, minutesOf(window.startTime), timeZone),
+      end: zonedInstant(day, minutesOf(window.endTime), timeZone)
+    }))
+    .filter((range) => range.start < range.end)
+
+// Overlapping or touching ranges joined, so windows entered twice do not offer a slot twice
+const merge = (ranges: ReadonlyArray<Range>): Range[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Range[]>((merged, range) => {
+      const last = merged.at(-1)
+      return last && range.start <= last.end
+        ? [...merged.slice(0, -1), { start: last.start, end: Math.max(last.end, range.end) }]
+        : [...merged, range]
+    }, [])
+
+// Parts of the ranges not covered by any of the cuts
+const subtract = (ranges: ReadonlyArray<Range>, cuts: ReadonlyArray<Range>): Range[] =>
+  cuts.reduce<Range[]>(
+    (remaining, cut) =>
+      remaining.flatMap((range) =>
+        cut.end <= range.start || cut.start >= range.end
+          ? [range]
+          : [
+              { start: range.start, end: cut.start },
+              { start: cut.end, end: range.end }
+            ].filter((part) => part.start < part.end)
+      ),
+    [...ranges]
+  )
+
+// Slots are laid out back to back from the start of each open stretch, one service
+// duration plus buffer apart, and dropped when they collide with a booking. Laying
+// them out from the opening hours rather than around bookings keeps an offered slot
+// valid until it is actually taken.
+export const bookableSlots = (input: DayAvailability): Interval[] => {
+  if (input.holidays.includes(input.day)) {
+    return []
+  }
+
+  const duration = input.service.durationMinutes * MINUTE
+  const buffer = input.service.bufferMinutes * MINUTE
+  if (duration <= 0) {
+    return []
+  }
+
+  const now = new Date(input.now).getTime()
+  const earliest = now + input.limits.leadMinutes * MINUTE
+  const latest = now + input.limits.maxAdvanceDays * DAY
+
+  const open = subtract(
+    merge(windowsOn(input.hours, input.day, input.timeZone)),
+    [
+      ...windowsOn(input.breaks, input.day, input.timeZone),
+      ...input.closures.map((closure) => ({ start: new Date(closure.startAt).getTime(), end: new Date(closure.endAt).getTime() }))
+    ]
+  )
+
+  const busy = input.bookings.map((booking) => ({
+    start: new Date(booking.startAt).getTime(),
+    end: new Date(booking.endAt).getTime() + booking.bufferMinutes * MINUTE
+  }))
+
+  const slots: Range[] = []
+  let free = -Infinity
+
+  // A stretch right after a short closure starts no sooner than the buffer after the
+  // last slot, taking that slot must not take away the next one
+  for (const range of open) {
+    for (let start = Math.max(range.start, free); start + duration <= range.end; start += duration + buffer) {
+      free = start + duration + buffer
+      if (start < earliest || start > latest) continue
+
+      const end = start + duration
+      if (busy.some((booking) => booking.start < end + buffer && booking.end > start)) continue
+
+      slots.push({ start, end })
+    }
+  }
+
+  return slots
+    .sort((a, b) => a.start - b.start)
+    .map((slot) => ({ startAt: new Date(slot.start).toISOString(), endAt: new Date(slot.end).toISOString() }))
+}
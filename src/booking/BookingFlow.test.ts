@@ -0,0 +1,395 @@
+import { describe, expect, test } from "bun:test"
+import { Schema } from "effect"
+import {
+  ConversationState,
+  FlowAction,
+  FlowEvent,
+  initialState,
+  transition,
+  type AppointmentOption,
+  type SlotOption
+} from "./BookingFlow.js"
+
+const TIME_ZONE = "America/Sao_Paulo"
+
+// Wednesday, 10:00 in São Paulo
+const NOW = "2026-03-04T13:00:00.000Z"
+
+const SERVICES = [
+  { id: "cut", name: "Corte", priceCents: 5000, durationMinutes: 30 },
+  { id: "beard", name: "Barba", priceCents: 3000, durationMinutes: 20 }
+]
+
+// Thursday the 5th, São Paulo is three hours behind UTC
+const slotAt = (time: string, professionalId = "ana"): SlotOption =>
+  ({ professionalId, startAt: `2026-03-05T${String(Number(time.substring(0, 2)) + 3).padStart(2, "0")}:${time.substring(3)}:00.000Z` })
+
+const THURSDAY_SLOTS = [slotAt("09:00"), slotAt("14:00"), slotAt("15:00", "bruno"), slotAt("16:00")]
+
+const HAIRCUT: AppointmentOption = { id: "appointment-1", service: { id: "cut", name: "Corte" }, professionalId: "ana", startAt: "2026-03-06T17:00:00.000Z" }
+const SHAVE: AppointmentOption = { id: "appointment-2", service: { id: "beard", name: "Barba" }, professionalId: "bruno", startAt: "2026-03-09T12:00:00.000Z" }
+
+// Replays a dialogue turn by turn, keeping the state the ConversationEngine would save
+const dialogue = (start: ConversationState = initialState) => {
+  let state = start
+  const receive = (event: FlowEvent): ReadonlyArray<FlowAction> => {
+    const next = transition(state, event, TIME_ZONE)
+    state = next.state
+    return next.actions
+  }
+  return {
+    get state() {
+      return state
+    },
+    receive,
+    say: (text: string, now = NOW) => receive(FlowEvent.Text({ text, now }))
+  }
+}
+
+// Replies by template name, every other action by its tag
+const summary = (actions: ReadonlyArray<FlowAction>): string[] =>
+  actions.map((action) => action._tag === "Reply" ? action.message.template : action._tag)
+
+const variablesOf = (actions: ReadonlyArray<FlowAction>) => {
+  const [first] = actions
+  return first?._tag === "Reply" ? first.message.variables : undefined
+}
+
+// A chat that picked the haircut and is asked for a day
+const choosingDay = () => {
+  const chat = dialogue()
+  chat.say("oi")
+  chat.receive(FlowEvent.ServicesLoaded({ services: SERVICES, customerName: null }))
+  chat.say("1")
+  return chat
+}
+
+// A chat offered Thursday's times
+const choosingTime = () => {
+  const chat = choosingDay()
+  chat.say("2")
+  chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS }))
+  return chat
+}
+
+const confirming = () => {
+  const chat = choosingTime()
+  chat.say("3")
+  return chat
+}
+
+describe("booking", () => {
+  test("walks from the greeting to a booked appointment", () => {
+    const chat = dialogue()
+
+    expect(summary(chat.say("Olá, bom dia"))).toEqual(["LoadServices"])
+    expect(chat.state._tag).toBe("Idle")
+
+    const services = chat.receive(FlowEvent.ServicesLoaded({ services: SERVICES, customerName: "Maria Souza" }))
+    expect(summary(services)).toEqual(["booking.choose_service"])
+    expect(variablesOf(services)).toEqual(expect.objectContaining({ "customer.first_name": "Maria" }))
+    expect(chat.state._tag).toBe("ChoosingService")
+
+    const days = chat.say("1")
+    expect(summary(days)).toEqual(["booking.choose_day"])
+    expect(variablesOf(days)).toEqual(expect.objectContaining({
+      days: ["2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07", "2026-03-08", "2026-03-09", "2026-03-10"]
+    }))
+
+    expect(chat.say("2")).toEqual([FlowAction.LoadSlots({ serviceId: "cut", day: "2026-03-05", professionalId: null })])
+
+    const times = chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS }))
+    expect(summary(times)).toEqual(["booking.choose_time"])
+    expect(chat.state._tag).toBe("ChoosingTime")
+
+    expect(summary(chat.say("3)"))).toEqual(["booking.confirm"])
+    expect(chat.state).toEqual(expect.objectContaining({ _tag: "Confirming", slot: slotAt("15:00", "bruno") }))
+
+    expect(chat.say("sim")).toEqual([FlowAction.Book({ serviceId: "cut", professionalId: "bruno", startAt: slotAt("15:00").startAt })])
+
+    expect(summary(chat.receive(FlowEvent.Booked({ appointmentId: "appointment-9", startAt: slotAt("15:00").startAt })))).toEqual([
+      "booking.booked",
+      "SendInvite"
+    ])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("picks a service by its name", () => {
+    const chat = dialogue()
+    chat.say("oi")
+    chat.receive(FlowEvent.ServicesLoaded({ services: SERVICES, customerName: null }))
+
+    expect(summary(chat.say(" barba "))).toEqual(["booking.choose_day"])
+    expect(chat.state).toEqual(expect.objectContaining({ _tag: "ChoosingDay", service: { id: "beard", name: "Barba" } }))
+  })
+
+  test("offers days on the calendar of the business", () => {
+    const chat = dialogue()
+    chat.say("oi")
+    chat.receive(FlowEvent.ServicesLoaded({ services: SERVICES, customerName: null }))
+
+    // Already Thursday in UTC, still Wednesday in São Paulo
+    chat.say("1", "2026-03-05T01:00:00.000Z")
+    expect(chat.state).toEqual(expect.objectContaining({ days: expect.arrayContaining(["2026-03-04"]) }))
+  })
+
+  test("goes back to the days when the customer does not confirm", () => {
+    const chat = confirming()
+    expect(summary(chat.say("não"))).toEqual(["booking.choose_day"])
+    expect(chat.state._tag).toBe("ChoosingDay")
+  })
+
+  test("offers the days again when the slot was taken meanwhile", () => {
+    const chat = confirming()
+    chat.say("1")
+
+    expect(summary(chat.receive(FlowEvent.BookingFailed({ reason: "slot_taken", now: NOW })))).toEqual(["booking.slot_taken", "booking.choose_day"])
+    expect(chat.state._tag).toBe("ChoosingDay")
+  })
+
+  test("tells the customer when there is nothing to book", () => {
+    const chat = dialogue()
+    chat.say("oi")
+
+    expect(summary(chat.receive(FlowEvent.ServicesLoaded({ services: [], customerName: null })))).toEqual(["booking.no_services"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("keeps asking for a day when the chosen one is full", () => {
+    const chat = choosingDay()
+    chat.say("2")
+
+    expect(summary(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: [] })))).toEqual(["booking.no_slots"])
+    expect(chat.state._tag).toBe("ChoosingDay")
+  })
+
+  test("ignores slots that arrive after the customer moved on", () => {
+    const chat = choosingDay()
+    chat.say("2")
+    chat.say("sair")
+
+    expect(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS }))).toEqual([])
+    expect(chat.state).toEqual(initialState)
+  })
+})
+
+describe("written days and times", () => {
+  test("narrow the times to the period asked for", () => {
+    const chat = choosingDay()
+
+    expect(chat.say("amanhã de tarde")).toEqual([FlowAction.LoadSlots({ serviceId: "cut", day: "2026-03-05", professionalId: null })])
+    const times = chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS }))
+
+    expect(summary(times)).toEqual(["booking.choose_time"])
+    expect(chat.state).toEqual(expect.objectContaining({ _tag: "ChoosingTime", slots: [slotAt("14:00"), slotAt("15:00", "bruno"), slotAt("16:00")] }))
+  })
+
+  test("go straight to the confirmation for a free exact time", () => {
+    const chat = choosingDay()
+    chat.say("amanhã às 15h")
+
+    expect(summary(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS })))).toEqual(["booking.confirm"])
+    expect(chat.state).toEqual(expect.objectContaining({ _tag: "Confirming", slot: slotAt("15:00", "bruno") }))
+  })
+
+  test("settle an hour read two ways by the slots that are free", () => {
+    const chat = choosingDay()
+    chat.say("amanhã às 4")
+
+    expect(summary(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS })))).toEqual(["booking.confirm"])
+    expect(chat.state).toEqual(expect.objectContaining({ slot: slotAt("16:00") }))
+  })
+
+  test("offer the whole day when the time asked for is taken", () => {
+    const chat = choosingDay()
+    chat.say("amanhã às 11h")
+
+    expect(summary(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS })))).toEqual([
+      "booking.preferred_unavailable",
+      "booking.choose_time"
+    ])
+    expect(chat.state).toEqual(expect.objectContaining({ _tag: "ChoosingTime", slots: THURSDAY_SLOTS }))
+  })
+
+  test("look a written time up among all the slots of the day", () => {
+    const chat = choosingTime()
+
+    expect(chat.say("tem às 16h?")).toEqual([FlowAction.LoadSlots({ serviceId: "cut", day: "2026-03-05", professionalId: null })])
+    expect(summary(chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: THURSDAY_SLOTS })))).toEqual(["booking.confirm"])
+  })
+
+  test("ask which day when the text names more than one", () => {
+    const chat = choosingDay()
+
+    // Said on a Wednesday, today or next week
+    const actions = chat.say("quarta")
+    expect(summary(actions)).toEqual(["dates.which_day"])
+    expect(variablesOf(actions)).toEqual({ days: ["2026-03-04", "2026-03-11"] })
+    expect(chat.state._tag).toBe("ChoosingDay")
+  })
+
+  test("ask for a day when only a week was given", () => {
+    const chat = choosingDay()
+    expect(summary(chat.say("semana que vem"))).toEqual(["dates.ask_day"])
+  })
+})
+
+describe("cancel words", () => {
+  const steps = { choosingDay, choosingTime, confirming }
+
+  for (const word of ["0", "cancelar", "Cancel", "sair", "voltar"]) {
+    for (const [step, start] of Object.entries(steps)) {
+      test(`"${word}" while ${step} drops the booking`, () => {
+        const chat = start()
+        expect(summary(chat.say(word))).toEqual(["flow.cancelled"])
+        expect(chat.state).toEqual(initialState)
+      })
+    }
+  }
+
+  test("leave the appointment unchanged while rescheduling", () => {
+    const chat = dialogue()
+    chat.receive(FlowEvent.Command({ command: "reschedule" }))
+    chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "reschedule", appointments: [HAIRCUT], now: NOW }))
+
+    expect(summary(chat.say("sair"))).toEqual(["flow.unchanged"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("start a booking when nothing is in progress", () => {
+    expect(summary(dialogue().say("voltar"))).toEqual(["LoadServices"])
+  })
+})
+
+describe("invalid input", () => {
+  test("asks again for a service", () => {
+    const chat = dialogue()
+    chat.say("oi")
+    chat.receive(FlowEvent.ServicesLoaded({ services: SERVICES, customerName: null }))
+
+    const actions = chat.say("9")
+    expect(summary(actions)).toEqual(["flow.invalid_option"])
+    expect(variablesOf(actions)).toEqual({ count: 2 })
+    expect(chat.state._tag).toBe("ChoosingService")
+  })
+
+  test("asks again for a day", () => {
+    const chat = choosingDay()
+
+    const actions = chat.say("qualquer um")
+    expect(summary(actions)).toEqual(["flow.invalid_option"])
+    expect(variablesOf(actions)).toEqual({ count: 7 })
+    expect(chat.state._tag).toBe("ChoosingDay")
+  })
+
+  test("asks again for a time", () => {
+    const chat = choosingTime()
+
+    const actions = chat.say("5")
+    expect(summary(actions)).toEqual(["flow.invalid_option"])
+    expect(variablesOf(actions)).toEqual({ count: THURSDAY_SLOTS.length })
+    expect(chat.state._tag).toBe("ChoosingTime")
+  })
+
+  test("asks again for a yes or no", () => {
+    const chat = confirming()
+    expect(summary(chat.say("talvez"))).toEqual(["booking.confirm_invalid"])
+    expect(chat.state._tag).toBe("Confirming")
+  })
+
+  test("points at the menu entries", () => {
+    const chat = dialogue()
+    expect(summary(chat.receive(FlowEvent.Command({ command: "menu" })))).toEqual(["menu"])
+
+    const actions = chat.say("oi")
+    expect(summary(actions)).toEqual(["menu.invalid_option"])
+    expect(variablesOf(actions)).toEqual({ count: 4 })
+    expect(chat.state._tag).toBe("Menu")
+  })
+})
+
+describe("existing appointments", () => {
+  test("are listed", () => {
+    const chat = dialogue()
+
+    expect(chat.receive(FlowEvent.Command({ command: "list" }))).toEqual([FlowAction.LoadAppointments({ purpose: "list" })])
+    expect(summary(chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "list", appointments: [HAIRCUT, SHAVE], now: NOW })))).toEqual(["appointments.list"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("are cancelled after picking one and confirming", () => {
+    const chat = dialogue()
+    chat.receive(FlowEvent.Command({ command: "cancel" }))
+
+    expect(summary(chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "cancel", appointments: [HAIRCUT, SHAVE], now: NOW })))).toEqual(["cancellation.choose"])
+    expect(summary(chat.say("2"))).toEqual(["cancellation.confirm"])
+    expect(chat.say("sim")).toEqual([FlowAction.CancelAppointment({ appointmentId: SHAVE.id })])
+    expect(summary(chat.receive(FlowEvent.AppointmentCancelled({ startAt: SHAVE.startAt })))).toEqual(["appointment.cancelled"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("are kept when the customer changes their mind", () => {
+    const chat = dialogue()
+    chat.receive(FlowEvent.Command({ command: "cancel" }))
+    chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "cancel", appointments: [HAIRCUT], now: NOW }))
+
+    expect(summary(chat.say("não"))).toEqual(["cancellation.kept"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("are moved with the same professional", () => {
+    const chat = dialogue()
+    chat.receive(FlowEvent.Command({ command: "reschedule" }))
+
+    // A single appointment is picked without asking
+    expect(summary(chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "reschedule", appointments: [HAIRCUT], now: NOW })))).toEqual(["reschedule.choose_day"])
+    expect(chat.say("2")).toEqual([FlowAction.LoadSlots({ serviceId: "cut", day: "2026-03-05", professionalId: "ana" })])
+
+    chat.receive(FlowEvent.SlotsLoaded({ day: "2026-03-05", slots: [slotAt("09:00"), slotAt("14:00")] }))
+    expect(summary(chat.say("2"))).toEqual(["reschedule.confirm"])
+    expect(chat.say("sim")).toEqual([FlowAction.RescheduleAppointment({ appointmentId: HAIRCUT.id, startAt: slotAt("14:00").startAt })])
+
+    expect(summary(chat.receive(FlowEvent.Rescheduled({ appointmentId: HAIRCUT.id, startAt: slotAt("14:00").startAt })))).toEqual([
+      "reschedule.done",
+      "SendInvite"
+    ])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("say so when there are none", () => {
+    const chat = dialogue()
+    chat.receive(FlowEvent.Command({ command: "cancel" }))
+
+    expect(summary(chat.receive(FlowEvent.AppointmentsLoaded({ purpose: "cancel", appointments: [], now: NOW })))).toEqual(["appointments.none"])
+  })
+})
+
+describe("reminder replies", () => {
+  const awaiting: ConversationState = { _tag: "AwaitingReminderReply", appointmentId: HAIRCUT.id }
+
+  test("1 confirms the appointment", () => {
+    const chat = dialogue(awaiting)
+    expect(chat.say("1")).toEqual([FlowAction.ConfirmAppointment({ appointmentId: HAIRCUT.id })])
+    expect(summary(chat.receive(FlowEvent.AppointmentConfirmed({ startAt: HAIRCUT.startAt })))).toEqual(["appointment.confirmed"])
+    expect(chat.state).toEqual(initialState)
+  })
+
+  test("2 cancels it", () => {
+    expect(dialogue(awaiting).say("2")).toEqual([FlowAction.CancelAppointment({ appointmentId: HAIRCUT.id })])
+  })
+
+  test("anything else starts over", () => {
+    expect(summary(dialogue(awaiting).say("quero marcar outro"))).toEqual(["LoadServices"])
+  })
+})
+
+test("a saved dialogue resumes where it stopped", () => {
+  const chat = choosingTime()
+
+  // What the ConversationRepository stores and reads back after a restart
+  const saved = JSON.parse(JSON.stringify(Schema.encodeSync(ConversationState)(chat.state)))
+  const resumed = dialogue(Schema.decodeUnknownSync(ConversationState)(saved))
+
+  expect(resumed.state).toEqual(chat.state)
+  expect(summary(resumed.say("1"))).toEqual(["booking.confirm"])
+})
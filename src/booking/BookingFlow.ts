@@ -0,0 +1,467 @@
+import { Data, Schema } from "effect"
+import { MENU_COMMANDS, type Command } from "./Commands.js"
+import { addDays, localDate, type Interval } from "./Availability.js"
+import { parseDate, type ParsedDate } from "./DateParser.js"
+import { templateMessage, type TemplateMessage, type TemplateName, type TemplateVariables } from "./Templates.js"
+
+// Options offered to the customer are kept in the state so that a numeric
+// reply always refers to the list the customer actually saw
+const ServiceOption = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String
+})
+
+const SlotOption = Schema.Struct({
+  professionalId: Schema.String,
+  startAt: Schema.String
+})
+
+const AppointmentOption = Schema.Struct({
+  id: Schema.String,
+  service: ServiceOption,
+  professionalId: Schema.String,
+  startAt: Schema.String
+})
+
+// Appointment being moved by a reschedule, null when booking a new one.
+// States saved before rescheduling existed decode as a new booking.
+const Rescheduling = Schema.optionalWith(Schema.NullOr(AppointmentOption), { default: () => null })
+
+// Times the customer wrote ("amanhã às 15h"), which narrow the slots offered for the
+// day. An exact time has an empty range. States saved before them decode without any.
+const Preferred = Schema.optionalWith(
+  Schema.Array(Schema.Struct({ startAt: Schema.String, endAt: Schema.String })),
+  { default: () => [] }
+)
+
+export type ServiceOption = Schema.Schema.Type<typeof ServiceOption>
+export type SlotOption = Schema.Schema.Type<typeof SlotOption>
+export type AppointmentOption = Schema.Schema.Type<typeof AppointmentOption>
+
+export const AppointmentPurpose = Schema.Literal("cancel", "reschedule")
+
+export type AppointmentPurpose = Schema.Schema.Type<typeof AppointmentPurpose>
+
+// Why a booking or a reschedule did not go through
+export type BookingFailure = "slot_taken" | "service_unavailable"
+
+export interface ServiceOffer extends ServiceOption {
+  readonly priceCents: number
+  readonly durationMinutes: number
+}
+
+// Persisted conversation states, one per chat
+export const ConversationState = Schema.Union(
+  Schema.TaggedStruct("Idle", {}),
+  Schema.TaggedStruct("Menu", {}),
+  Schema.TaggedStruct("ChoosingService", {
+    services: Schema.Array(ServiceOption)
+  }),
+  Schema.TaggedStruct("ChoosingDay", {
+    service: ServiceOption,
+    days: Schema.Array(Schema.String),
+    rescheduling: Rescheduling,
+    preferred: Preferred
+  }),
+  Schema.TaggedStruct("ChoosingTime", {
+    service: ServiceOption,
+    day: Schema.String,
+    slots: Schema.Array(SlotOption),
+    rescheduling: Rescheduling
+  }),
+  Schema.TaggedStruct("Confirming", {
+    service: ServiceOption,
+    slot: SlotOption,
+    rescheduling: Rescheduling
+  }),
+  Schema.TaggedStruct("ChoosingAppointment", {
+    purpose: AppointmentPurpose,
+    appointments: Schema.Array(AppointmentOption)
+  }),
+  Schema.TaggedStruct("ConfirmingCancellation", {
+    appointment: AppointmentOption
+  }),
+  Schema.TaggedStruct("AwaitingReminderReply", {
+    appointmentId: Schema.String
+  })
+)
+
+export type ConversationState = Schema.Schema.Type<typeof ConversationState>
+
+export const initialState: ConversationState = { _tag: "Idle" }
+
+// Inputs to the state machine: customer text plus results of the actions it asked for
+export type FlowEvent = Data.TaggedEnum<{
+  Text: { readonly text: string, readonly now: string }
+  Command: { readonly command: Command }
+  ServicesLoaded: { readonly services: ReadonlyArray<ServiceOffer>, readonly customerName: string | null }
+  SlotsLoaded: { readonly day: string, readonly slots: ReadonlyArray<SlotOption> }
+  Booked: { readonly appointmentId: string, readonly startAt: string }
+  BookingFailed: { readonly reason: BookingFailure, readonly now: string }
+  AppointmentConfirmed: { readonly startAt: string }
+  AppointmentCancelled: { readonly startAt: string }
+  AppointmentMissing: {}
+  AppointmentsLoaded: { readonly purpose: AppointmentPurpose | "list", readonly appointments: ReadonlyArray<AppointmentOption>, readonly now: string }
+  Rescheduled: { readonly appointmentId: string, readonly startAt: string }
+}>
+
+export const FlowEvent = Data.taggedEnum<FlowEvent>()
+
+// Side effects requested by the state machine, executed by the ConversationEngine
+export type FlowAction = Data.TaggedEnum<{
+  // Rendered in the chat's locale by the ConversationEngine
+  Reply: { readonly message: TemplateMessage }
+  LoadServices: {}
+  // Only the given professional's slots when moving an appointment, which keeps its professional
+  LoadSlots: { readonly serviceId: string, readonly day: string, readonly professionalId: string | null }
+  Book: { readonly serviceId: string, readonly professionalId: string, readonly startAt: string }
+  ConfirmAppointment: { readonly appointmentId: string }
+  CancelAppointment: { readonly appointmentId: string }
+  LoadAppointments: { readonly purpose: AppointmentPurpose | "list" }
+  RescheduleAppointment: { readonly appointmentId: string, readonly startAt: string }
+  // Calendar file of the appointment, sent after the confirmation text
+  SendInvite: { readonly appointmentId: string }
+}>
+
+export const FlowAction = Data.taggedEnum<FlowAction>()
+
+export interface Transition {
+  readonly state: ConversationState
+  readonly actions: ReadonlyArray<FlowAction>
+}
+
+const DAYS_OFFERED = 7
+const MAX_SLOTS_OFFERED = 12
+
+const CANCEL_WORDS = ["0", "cancelar", "cancel", "sair", "voltar"]
+const YES_WORDS = ["1", "sim", "s", "yes", "y", "confirmar"]
+const NO_WORDS = ["2", "não", "nao", "n", "no"]
+
+const normalize = (text: string): string => text.trim().toLowerCase()
+
+const stay = (state: ConversationState, ...actions: FlowAction[]): Transition => ({ state, actions })
+
+const reply = <N extends TemplateName>(template: N, variables: TemplateVariables<N>): FlowAction =>
+  FlowAction.Reply({ message: templateMessage(template, variables) })
+
+// Accepts "2", "2." or "2)" as a pick of the second option
+const pickOption = <A>(text: string, options: ReadonlyArray<A>): A | undefined => {
+  const match = normalize(text).match(/^(\d+)[.)]?$/)
+  if (!match) return undefined
+  return options[Number(match[1]) - 1]
+}
+
+// "Maria Souza" is greeted as Maria
+const firstName = (name: string): string => name.trim().split(/\s+/)[0] ?? name
+
+// Days are dates of the business time zone, whose today may differ from UTC's
+const upcomingDays = (now: string, timeZone: string): string[] => {
+  const today = localDate(now, timeZone)
+  return Array.from({ length: DAYS_OFFERED }, (_, offset) => addDays(today, offset))
+}
+
+const describe = (appointment: AppointmentOption) => ({
+  "service.name": appointment.service.name,
+  "appointment.start": appointment.startAt
+})
+
+const askDay = (service: ServiceOption, now: string, rescheduling: AppointmentOption | null, timeZone: string): Transition => {
+  const days = upcomingDays(now, timeZone)
+  return stay(
+    { _tag: "ChoosingDay", service, days, rescheduling, preferred: [] },
+    rescheduling
+      ? reply("reschedule.choose_day", { ...describe(rescheduling), days })
+      : reply("booking.choose_day", { "service.name": service.name, days })
+  )
+}
+
+const confirmSlot = (service: ServiceOption, slot: SlotOption, rescheduling: AppointmentOption | null): Transition =>
+  stay(
+    { _tag: "Confirming", service, slot, rescheduling },
+    rescheduling
+      ? reply("reschedule.confirm", { ...describe(rescheduling), "slot.start": slot.startAt })
+      : reply("booking.confirm", { "service.name": service.name, "slot.start": slot.startAt })
+  )
+
+const isPreferred = (slot: SlotOption, preferred: Interval): boolean =>
+  preferred.startAt === preferred.endAt
+    ? slot.startAt === preferred.startAt
+    : slot.startAt >= preferred.startAt && slot.startAt < preferred.endAt
+
+// Slots of the day that fit the times the customer wrote. A single exact time goes
+// straight to the confirmation, an hour read several ways asks which one was meant.
+const offerTimes = (
+  service: ServiceOption,
+  day: string,
+  available: ReadonlyArray<SlotOption>,
+  rescheduling: AppointmentOption | null,
+  preferred: ReadonlyArray<Interval>
+): Transition => {
+  const wanted = available.filter((slot) => preferred.some((range) => isPreferred(slot, range)))
+  const exact = preferred.every((range) => range.startAt === range.endAt)
+
+  if (exact && wanted.length === 1) {
+    return confirmSlot(service, wanted[0]!, rescheduling)
+  }
+
+  const slots = (wanted.length > 0 ? wanted : available).slice(0, MAX_SLOTS_OFFERED)
+  const state: ConversationState = { _tag: "ChoosingTime", service, day, slots, rescheduling }
+  const times = slots.map((slot) => slot.startAt)
+
+  if (exact && wanted.length > 1) {
+    return stay(state, reply("dates.which_time", { day, times }))
+  }
+  return preferred.length > 0 && wanted.length === 0
+    ? stay(state, reply("booking.preferred_unavailable", {}), reply("booking.choose_time", { day, times }))
+    : stay(state, reply("booking.choose_time", { day, times }))
+}
+
+// Loads the day the customer wrote, keeping the times they asked for that day
+const loadWrittenDay = (
+  service: ServiceOption,
+  parsed: ParsedDate,
+  now: string,
+  rescheduling: AppointmentOption | null,
+  timeZone: string
+): Transition => {
+  const day = localDate(parsed.candidates[0]!.startAt, timeZone)
+  const preferred = parsed.candidates
+    .filter((candidate) => candidate.precision !== "day" && localDate(candidate.startAt, timeZone) === day)
+    .map(({ startAt, endAt }) => ({ startAt, endAt }))
+
+  return stay(
+    { _tag: "ChoosingDay", service, days: upcomingDays(now, timeZone), rescheduling, preferred },
+    FlowAction.LoadSlots({ serviceId: service.id, day, professionalId: rescheduling?.professionalId ?? null })
+  )
+}
+
+const chooseAppointment = (purpose: AppointmentPurpose, appointment: AppointmentOption, now: string, timeZone: string): Transition =>
+  purpose === "reschedule"
+    ? askDay(appointment.service, now, appointment, timeZone)
+    : stay(
+        { _tag: "ConfirmingCancellation", appointment },
+        reply("cancellation.confirm", describe(appointment))
+      )
+
+const whichDay = (days: ReadonlyArray<string>): FlowAction =>
+  days.length > 0 ? reply("dates.which_day", { days }) : reply("dates.ask_day", {})
+
+const onCommand = (command: Command): Transition => {
+  switch (command) {
+    case "menu":
+      return stay({ _tag: "Menu" }, reply("menu", {}))
+    case "book":
+      return stay(initialState, FlowAction.LoadServices())
+    case "list":
+    case "cancel":
+    case "reschedule":
+      return stay(initialState, FlowAction.LoadAppointments({ purpose: command }))
+  }
+}
+
+const onText = (state: ConversationState, text: string, now: string, timeZone: string): Transition => {
+  // Answer to a "reply 1 to confirm, 2 to cancel" reminder, anything else starts over
+  if (state._tag === "AwaitingReminderReply") {
+    const answer = normalize(text)
+    if (answer === "1") {
+      return stay(state, FlowAction.ConfirmAppointment({ appointmentId: state.appointmentId }))
+    }
+    if (answer === "2") {
+      return stay(state, FlowAction.CancelAppointment({ appointmentId: state.appointmentId }))
+    }
+    return onText(initialState, text, now, timeZone)
+  }
+
+  if (state._tag !== "Idle" && CANCEL_WORDS.includes(normalize(text))) {
+    // Backing out of the menu or of a change leaves the appointments as they are
+    const newBooking = state._tag === "ChoosingService" || ("rescheduling" in state && state.rescheduling === null)
+    return stay(initialState, newBooking ? reply("flow.cancelled", {}) : reply("flow.unchanged", {}))
+  }
+
+  switch (state._tag) {
+    case "Idle":
+      return stay(state, FlowAction.LoadServices())
+
+    case "ChoosingService": {
+      const service = pickOption(text, state.services) ??
+        state.services.find((option) => normalize(option.name) === normalize(text))
+      if (!service) {
+        return stay(state, reply("flow.invalid_option", { count: state.services.length }))
+      }
+      return askDay(service, now, null, timeZone)
+    }
+
+    case "ChoosingDay": {
+      const day = pickOption(text, state.days)
+      if (day) {
+        return stay({ ...state, preferred: [] }, FlowAction.LoadSlots({
+          serviceId: state.service.id,
+          day,
+          professionalId: state.rescheduling?.professionalId ?? null
+        }))
+      }
+      // Or a written day, "sexta de tarde", whose times narrow the slots once loaded
+      const parsed = parseDate(text, { now, timeZone })
+      if (!parsed) {
+        return stay(state, reply("flow.invalid_option", { count: state.days.length }))
+      }
+      if (parsed.clarification?._tag === "WhichDay") {
+        return stay(state, whichDay(parsed.clarification.days))
+      }
+      return loadWrittenDay(state.service, parsed, now, state.rescheduling, timeZone)
+    }
+
+    case "ChoosingTime": {
+      const slot = pickOption(text, state.slots)
+      if (slot) {
+        return confirmSlot(state.service, slot, state.rescheduling)
+      }
+      // A written time is looked up among all the slots of the day, not only the ones listed
+      const parsed = parseDate(text, { now, timeZone, day: state.day })
+      if (!parsed) {
+        return stay(state, reply("flow.invalid_option", { count: state.slots.length }))
+      }
+      if (parsed.clarification?._tag === "WhichDay") {
+        return stay(state, whichDay(parsed.clarification.days))
+      }
+      return loadWrittenDay(state.service, parsed, now, state.rescheduling, timeZone)
+    }
+
+    case "Confirming": {
+      const answer = normalize(text)
+      if (YES_WORDS.includes(answer) && state.rescheduling) {
+        return stay(state, FlowAction.RescheduleAppointment({
+          appointmentId: state.rescheduling.id,
+          startAt: state.slot.startAt
+        }))
+      }
+      if (YES_WORDS.includes(answer)) {
+        return stay(state, FlowAction.Book({
+          serviceId: state.service.id,
+          professionalId: state.slot.professionalId,
+          startAt: state.slot.startAt
+        }))
+      }
+      if (NO_WORDS.includes(answer)) {
+        return askDay(state.service, now, state.rescheduling, timeZone)
+      }
+      return stay(state, reply("booking.confirm_invalid", {}))
+    }
+
+    case "Menu":
+      return stay(state, reply("menu.invalid_option", { count: MENU_COMMANDS.length }))
+
+    case "ChoosingAppointment": {
+      const appointment = pickOption(text, state.appointments)
+      if (!appointment) {
+        return stay(state, reply("flow.invalid_option", { count: state.appointments.length }))
+      }
+      return chooseAppointment(state.purpose, appointment, now, timeZone)
+    }
+
+    case "ConfirmingCancellation": {
+      const answer = normalize(text)
+      if (YES_WORDS.includes(answer)) {
+        return stay(state, FlowAction.CancelAppointment({ appointmentId: state.appointment.id }))
+      }
+      if (NO_WORDS.includes(answer)) {
+        return stay(initialState, reply("cancellation.kept", describe(state.appointment)))
+      }
+      return stay(state, reply("cancellation.confirm_invalid", {}))
+    }
+  }
+}
+
+// Pure transition function of the booking dialogue: given the current state and
+// an event it returns the next state and the actions to run, so whole dialogues
+// can be replayed without WhatsApp. Days are offered on the calendar of the time zone.
+export const transition = (state: ConversationState, event: FlowEvent, timeZone: string): Transition => {
+  switch (event._tag) {
+    case "Text":
+      return onText(state, event.text, event.now, timeZone)
+
+    case "Command":
+      return onCommand(event.command)
+
+    case "ServicesLoaded": {
+      const customer = {
+        "customer.name": event.customerName,
+        "customer.first_name": event.customerName ? firstName(event.customerName) : null
+      }
+      if (event.services.length === 0) {
+        return stay(initialState, reply("booking.no_services", customer))
+      }
+      return stay(
+        { _tag: "ChoosingService", services: event.services.map((service) => ({ id: service.id, name: service.name })) },
+        reply("booking.choose_service", {
+          ...customer,
+          services: event.services.map((service) => ({
+            "service.name": service.name,
+            "service.price": service.priceCents,
+            "service.duration_minutes": service.durationMinutes
+          }))
+        })
+      )
+    }
+
+    case "SlotsLoaded": {
+      if (state._tag !== "ChoosingDay") return stay(state)
+
+      if (event.slots.length === 0) {
+        return stay({ ...state, preferred: [] }, reply("booking.no_slots", { day: event.day }))
+      }
+      return offerTimes(state.service, event.day, event.slots, state.rescheduling, state.preferred)
+    }
+
+    case "Booked":
+      return stay(
+        initialState,
+        reply("booking.booked", { "appointment.start": event.startAt }),
+        FlowAction.SendInvite({ appointmentId: event.appointmentId })
+      )
+
+    case "BookingFailed": {
+      if (state._tag !== "Confirming") return stay(initialState)
+
+      const next = askDay(state.service, event.now, state.rescheduling, timeZone)
+      const failure = event.reason === "slot_taken" ? reply("booking.slot_taken", {}) : reply("booking.service_unavailable", {})
+      return stay(next.state, failure, ...next.actions)
+    }
+
+    case "AppointmentConfirmed":
+      return stay(initialState, reply("appointment.confirmed", { "appointment.start": event.startAt }))
+
+    case "AppointmentCancelled":
+      return stay(initialState, reply("appointment.cancelled", { "appointment.start": event.startAt }))
+
+    case "AppointmentMissing":
+      return stay(initialState, reply("appointment.missing", {}))
+
+    case "AppointmentsLoaded": {
+      const [only] = event.appointments
+      if (!only) {
+        return stay(initialState, reply("appointments.none", {}))
+      }
+      const appointments = event.appointments.map(describe)
+      if (event.purpose === "list") {
+        return stay(initialState, reply("appointments.list", { appointments }))
+      }
+      if (event.appointments.length === 1) {
+        return chooseAppointment(event.purpose, only, event.now, timeZone)
+      }
+      return stay(
+        { _tag: "ChoosingAppointment", purpose: event.purpose, appointments: event.appointments },
+        event.purpose === "cancel"
+          ? reply("cancellation.choose", { appointments })
+          : reply("reschedule.choose", { appointments })
+      )
+    }
+
+    case "Rescheduled":
+      return stay(
+        initialState,
+        reply("reschedule.done", { "appointment.start": event.startAt }),
+        FlowAction.SendInvite({ appointmentId: event.appointmentId })
+      )
+  }
+}
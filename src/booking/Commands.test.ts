@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import { FlowEvent, initialState, transition, type ConversationState } from "./BookingFlow.js"
+import { parseCommand, parseOptOut } from "./Commands.js"
+
+const NOW = "2026-03-04T13:00:00.000Z"
+
+const AT_REST: ReadonlyArray<ConversationState> = [
+  initialState,
+  { _tag: "Menu" },
+  { _tag: "AwaitingReminderReply", appointmentId: "appointment-1" }
+]
+
+const CHOOSING_DAY: ConversationState = {
+  _tag: "ChoosingDay",
+  service: { id: "cut", name: "Corte" },
+  days: ["2026-03-04", "2026-03-05"],
+  rescheduling: null,
+  preferred: []
+}
+
+const IN_DIALOGUE: ReadonlyArray<ConversationState> = [
+  { _tag: "ChoosingService", services: [{ id: "cut", name: "Corte" }] },
+  CHOOSING_DAY,
+  { _tag: "Confirming", service: { id: "cut", name: "Corte" }, slot: { professionalId: "ana", startAt: "2026-03-05T18:00:00.000Z" }, rescheduling: null }
+]
+
+describe("parseOptOut", () => {
+  test("opts out at rest", () => {
+    for (const state of AT_REST) {
+      expect(parseOptOut("SAIR", state)).toBe("opt_out")
+      expect(parseOptOut("stop", state)).toBe("opt_out")
+    }
+  })
+
+  test("leaves \"sair\" to a dialogue in progress", () => {
+    for (const state of IN_DIALOGUE) {
+      expect(parseOptOut("sair", state)).toBeNull()
+    }
+  })
+
+  test("opts out with words no dialogue uses anywhere", () => {
+    for (const state of IN_DIALOGUE) {
+      expect(parseOptOut("parar", state)).toBe("opt_out")
+      expect(parseOptOut("descadastrar", state)).toBe("opt_out")
+    }
+  })
+
+  test("opts back in anywhere", () => {
+    for (const state of [...AT_REST, ...IN_DIALOGUE]) {
+      expect(parseOptOut("Voltar", state)).toBe("opt_in")
+    }
+  })
+
+  test("ignores the words inside a sentence", () => {
+    expect(parseOptOut("vou sair do trabalho às 18h", initialState)).toBeNull()
+  })
+
+  test("\"sair\" in the middle of a booking cancels it instead of opting out", () => {
+    expect(parseOptOut("sair", CHOOSING_DAY)).toBeNull()
+
+    const next = transition(CHOOSING_DAY, FlowEvent.Text({ text: "sair", now: NOW }), "UTC")
+    expect(next.state).toEqual(initialState)
+    expect(next.actions.map((action) => action._tag === "Reply" ? action.message.template : action._tag)).toEqual(["flow.cancelled"])
+  })
+})
+
+describe("parseCommand", () => {
+  test("numbers pick a menu entry right after the menu", () => {
+    expect(parseCommand("3", { _tag: "Menu" })).toBe("cancel")
+    expect(parseCommand("3", initialState)).toBeNull()
+  })
+
+  test("phrases are read without accents or punctuation", () => {
+    expect(parseCommand("Quando é meu horário?", initialState)).toBe("list")
+  })
+
+  test("\"cancelar\" backs out of a dialogue rather than cancelling an appointment", () => {
+    expect(parseCommand("cancelar", initialState)).toBe("cancel")
+    expect(parseCommand("cancelar", CHOOSING_DAY)).toBeNull()
+    expect(parseCommand("menu", CHOOSING_DAY)).toBe("menu")
+  })
+})
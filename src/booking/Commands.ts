@@ -0,0 +1,78 @@
+import type { ConversationState } from "./BookingFlow.js"
+
+// What a customer can ask for without going through the booking dialogue
+export type Command = "menu" | "book" | "list" | "cancel" | "reschedule"
+
+// Accents and punctuation are dropped before matching, "Quando é meu horário?" reads as "quando e meu horario"
+const COMMAND_PHRASES: Record<Command, ReadonlyArray<string>> = {
+  menu: ["menu", "ajuda", "opcoes", "help", "options"],
+  book: ["agendar", "marcar", "novo agendamento", "marcar horario", "book", "new appointment"],
+  list: [
+    "meus agendamentos", "meus horarios", "meu horario", "agendamentos", "quando e meu horario",
+    "my appointments", "appointments", "my bookings", "when is my appointment"
+  ],
+  cancel: ["cancelar", "cancelar agendamento", "cancelar horario", "desmarcar", "cancel", "cancel appointment"],
+  reschedule: [
+    "remarcar", "reagendar", "remarcar agendamento", "mudar horario", "trocar horario",
+    "reschedule", "change appointment"
+  ]
+}
+
+// Menu entries in the order they are numbered, the "menu" template lists them the same way
+export const MENU_COMMANDS: ReadonlyArray<Command> = ["book", "list", "cancel", "reschedule"]
+
+// Commands that also mean "stop" to a dialogue in progress, so they only apply outside one
+const REST_ONLY: ReadonlyArray<Command> = ["book", "cancel"]
+
+const normalize = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+// A chat is at rest when no question of the bot is waiting for an answer
+export const isAtRest = (state: ConversationState): boolean =>
+  state._tag === "Idle" || state._tag === "Menu" || state._tag === "AwaitingReminderReply"
+
+// Asking the bot to stop or to resume messaging the chat
+export type OptOutRequest = "opt_out" | "opt_in"
+
+const OPT_OUT_WORDS = ["sair", "parar", "stop", "descadastrar"]
+const OPT_IN_WORDS = ["voltar", "start"]
+
+// Opt-out words that also back out of a dialogue in progress (see BookingFlow), so they only opt out at rest
+const REST_ONLY_OPT_OUTS = ["sair"]
+
+// Whether a message asks to stop or resume messages. Only an opted out chat gets to
+// opt back in, and its messages never reach the dialogue, so "voltar" is safe anywhere.
+export const parseOptOut = (text: string, state: ConversationState): OptOutRequest | null => {
+  const word = normalize(text)
+
+  if (OPT_IN_WORDS.includes(word)) {
+    return "opt_in"
+  }
+  if (OPT_OUT_WORDS.includes(word)) {
+    return REST_ONLY_OPT_OUTS.includes(word) && !isAtRest(state) ? null : "opt_out"
+  }
+  return null
+}
+
+// The command a message asks for, if any. Numbers pick a menu entry only right after
+// the menu was shown, elsewhere they answer the question the bot asked.
+export const parseCommand = (text: string, state: ConversationState): Command | null => {
+  const phrase = normalize(text)
+
+  if (state._tag === "Menu" && /^\d+$/.test(phrase)) {
+    return MENU_COMMANDS[Number(phrase) - 1] ?? null
+  }
+
+  for (const [command, phrases] of Object.entries(COMMAND_PHRASES) as Array<[Command, ReadonlyArray<string>]>) {
+    if (!phrases.includes(phrase)) continue
+    return REST_ONLY.includes(command) && !isAtRest(state) ? null : command
+  }
+
+  return null
+}
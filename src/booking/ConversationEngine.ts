@@ -0,0 +1,221 @@
+import { Effect, Context, Layer, Option } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { contactName, type Locale, type WhatsAppMessage } from "../database/Schema.js"
+import type { DecodeError } from "../database/Rows.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { emitAppointmentEvent, WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { cancelAppointmentReminders, scheduleAppointmentReminders } from "./Reminders.js"
+import { FlowEvent, transition, type ConversationState, type FlowAction } from "./BookingFlow.js"
+import type { Command } from "./Commands.js"
+import { BookingPolicy, dayBounds } from "./Availability.js"
+import { CALENDAR_MIMETYPE, renderCalendar } from "./ICalendar.js"
+import { templateMessage } from "./Templates.js"
+
+export class ConversationEngine extends Context.Tag("ConversationEngine")<
+  ConversationEngine,
+  {
+    readonly handleMessage: (message: WhatsAppMessage) => Effect.Effect<void, SqlError.SqlError | DecodeError, BookingRepository | ConversationRepository | ContactRepository | TemplateRepository | MessageSender | JobScheduler | WebhookDispatcher | SqliteClient.SqliteClient>
+    readonly handleCommand: (message: WhatsAppMessage, command: Command) => Effect.Effect<void, SqlError.SqlError | DecodeError, BookingRepository | ConversationRepository | ContactRepository | TemplateRepository | MessageSender | JobScheduler | WebhookDispatcher | SqliteClient.SqliteClient>
+  }
+>() {}
+
+// Runs a single action and returns the event it produced, if any
+const runAction = (action: FlowAction, message: WhatsAppMessage, timeZone: string, locale: Locale) =>
+  Effect.gen(function* () {
+    const bookings = yield* BookingRepository
+    const templates = yield* TemplateRepository
+    const sender = yield* MessageSender
+
+    switch (action._tag) {
+      case "Reply": {
+        const text = yield* templates.render(action.message, locale)
+        yield* sender.enqueue(message.sessionId, message.chat_id, { text })
+        return null
+      }
+
+      case "LoadServices": {
+        const contacts = yield* ContactRepository
+        const services = yield* bookings.listServices()
+        const contact = message.contactId !== null ? yield* contacts.getContact(message.contactId) : Option.none()
+
+        return FlowEvent.ServicesLoaded({
+          services: services.map((service) => ({
+            id: service.id,
+            name: service.name,
+            priceCents: service.priceCents,
+            durationMinutes: service.durationMinutes
+          })),
+          customerName: Option.match(contact, { onNone: () => null, onSome: contactName })
+        })
+      }
+
+      case "LoadSlots": {
+        const day = dayBounds(action.day, timeZone)
+        const slots = yield* bookings.listFreeSlots({
+          serviceId: action.serviceId,
+          professionalId: action.professionalId ?? undefined,
+          from: day.startAt,
+          to: day.endAt
+        }).pipe(
+          Effect.catchTag("ServiceNotFound", () => Effect.succeed([]))
+        )
+
+        // Several professionals free at the same time are offered as a single option
+        const seen = new Set<string>()
+        const options = slots
+          .filter((slot) => !seen.has(slot.startAt) && seen.add(slot.startAt))
+          .map((slot) => ({ professionalId: slot.professionalId, startAt: slot.startAt }))
+
+        return FlowEvent.SlotsLoaded({ day: action.day, slots: options })
+      }
+
+      case "Book":
+        return yield* bookings.bookSlot({
+          sessionId: message.sessionId,
+          chat_id: message.chat_id,
+          customerPhone: message.from,
+          professionalId: action.professionalId,
+          serviceId: action.serviceId,
+          startAt: action.startAt
+        }).pipe(
+          Effect.tap(scheduleAppointmentReminders),
+          Effect.tap(emitAppointmentEvent("appointment.created")),
+          Effect.map((appointment) =>
+            FlowEvent.Booked({ appointmentId: appointment.id, startAt: appointment.startAt })
+          ),
+          Effect.catchTags({
+            SlotUnavailable: () =>
+              Effect.succeed(FlowEvent.BookingFailed({ reason: "slot_taken", now: new Date().toISOString() })),
+            ServiceNotFound: () =>
+              Effect.succeed(FlowEvent.BookingFailed({ reason: "service_unavailable", now: new Date().toISOString() }))
+          })
+        )
+
+      case "ConfirmAppointment":
+        return yield* bookings.confirm(action.appointmentId).pipe(
+          Effect.map((appointment) => FlowEvent.AppointmentConfirmed({ startAt: appointment.startAt })),
+          Effect.catchTag("AppointmentNotFound", () => Effect.succeed(FlowEvent.AppointmentMissing()))
+        )
+
+      case "RescheduleAppointment":
+        return yield* bookings.reschedule(action.appointmentId, action.startAt).pipe(
+          Effect.tap(scheduleAppointmentReminders),
+          Effect.tap(emitAppointmentEvent("appointment.rescheduled")),
+          Effect.map((appointment) => FlowEvent.Rescheduled({ appointmentId: appointment.id, startAt: appointment.startAt })),
+          Effect.catchTags({
+            SlotUnavailable: () =>
+              Effect.succeed(FlowEvent.BookingFailed({ reason: "slot_taken", now: new Date().toISOString() })),
+            ServiceNotFound: () =>
+              Effect.succeed(FlowEvent.BookingFailed({ reason: "service_unavailable", now: new Date().toISOString() })),
+            AppointmentNotFound: () => Effect.succeed(FlowEvent.AppointmentMissing())
+          })
+        )
+
+      case "LoadAppointments": {
+        const now = new Date().toISOString()
+        const appointments = yield* bookings.getUpcomingAppointments(message.sessionId, message.from, message.chat_id, now)
+        const services = new Map((yield* bookings.listServices()).map((service) => [service.id, service.name]))
+        const removedService = yield* templates.render(templateMessage("service.removed", {}), locale)
+
+        return FlowEvent.AppointmentsLoaded({
+          purpose: action.purpose,
+          now,
+          appointments: appointments.map((appointment) => ({
+            id: appointment.id,
+            // A service taken off the menu keeps its appointments
+            service: { id: appointment.serviceId, name: services.get(appointment.serviceId) ?? removedService },
+            professionalId: appointment.professionalId,
+            startAt: appointment.startAt
+          }))
+        })
+      }
+
+      case "SendInvite": {
+        const appointment = yield* bookings.getAppointment(action.appointmentId).pipe(
+          Effect.catchTag("AppointmentNotFound", () => Effect.succeed(null))
+        )
+        if (!appointment) return null
+
+        const service = (yield* bookings.listServices()).find((candidate) => candidate.id === appointment.serviceId)
+        const professional = (yield* bookings.listProfessionals()).find((candidate) => candidate.id === appointment.professionalId)
+        const summary = service?.name ?? (yield* templates.render(templateMessage("service.removed", {}), locale))
+        const description = yield* templates.render(
+          templateMessage("invite.description", { "professional.name": professional?.name ?? null }),
+          locale
+        )
+        const caption = yield* templates.render(templateMessage("invite.caption", { "service.name": summary }), locale)
+
+        // A rescheduled appointment keeps its UID with a higher SEQUENCE, so the calendar moves the event
+        yield* sender.enqueue(message.sessionId, message.chat_id, {
+          document: renderCalendar({
+            name: summary,
+            events: [{ appointment, summary, description: description.length > 0 ? description : null }]
+          }, new Date().toISOString()),
+          fileName: "agendamento.ics",
+          mimetype: CALENDAR_MIMETYPE,
+          caption
+        })
+        return null
+      }
+
+      case "CancelAppointment":
+        return yield* bookings.cancel(action.appointmentId).pipe(
+          Effect.tap((appointment) => cancelAppointmentReminders(appointment.id)),
+          Effect.tap(emitAppointmentEvent("appointment.cancelled")),
+          Effect.map((appointment) => FlowEvent.AppointmentCancelled({ startAt: appointment.startAt })),
+          // Gone or cancelled since the customer picked it
+          Effect.catchTag("AppointmentNotFound", () => Effect.succeed(FlowEvent.AppointmentMissing())),
+          Effect.catchTag("AppointmentNotCancellable", () => Effect.succeed(FlowEvent.AppointmentMissing()))
+        )
+    }
+  })
+
+// Feeds an event to the chat's state machine and runs the actions it asks for
+const runConversation = (message: WhatsAppMessage, event: FlowEvent, timeZone: string) =>
+  Effect.gen(function* () {
+    const conversations = yield* ConversationRepository
+    const templates = yield* TemplateRepository
+    const locale = yield* templates.chatLocale(message.sessionId, message.chat_id)
+
+    let state: ConversationState = yield* conversations.loadState(message.sessionId, message.chat_id)
+
+    const initial = transition(state, event, timeZone)
+    state = initial.state
+    const pending = [...initial.actions]
+
+    // Feed the result of every action back into the state machine until it settles
+    while (pending.length > 0) {
+      const action = pending.shift()!
+      const next = yield* runAction(action, message, timeZone, locale)
+
+      if (next) {
+        const result = transition(state, next, timeZone)
+        state = result.state
+        pending.push(...result.actions)
+      }
+    }
+
+    yield* conversations.saveState(message.sessionId, message.chat_id, state)
+    yield* Effect.log(`💬 Conversation ${message.chat_id} is now at ${state._tag}`)
+  })
+
+export const ConversationEngineLive = Layer.effect(
+  ConversationEngine,
+  Effect.gen(function* () {
+    const { timeZone } = yield* BookingPolicy
+
+    return {
+      // Written dates like "amanhã" are relative to when the customer sent them
+      handleMessage: (message) =>
+        runConversation(message, FlowEvent.Text({ text: message.content, now: message.timestamp }), timeZone),
+
+      handleCommand: (message, command) => runConversation(message, FlowEvent.Command({ command }), timeZone)
+    }
+  })
+)
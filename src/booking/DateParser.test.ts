@@ -0,0 +1,247 @@
+import { describe, expect, test } from "bun:test"
+import { parseDate, type DateCandidate, type DateContext } from "./DateParser.js"
+import { localDate, localTime } from "./Availability.js"
+
+const TIME_ZONE = "America/Sao_Paulo"
+
+// Wednesday, 10:00 in São Paulo
+const NOW = "2026-03-04T13:00:00.000Z"
+
+// Candidates as wall clock values of the business time zone: "2026-03-05" for a whole
+// day, "2026-03-05 15:00" for an exact time and "2026-03-05 12:00-18:00" for a period
+const wallClock = (candidate: DateCandidate, timeZone = TIME_ZONE): string => {
+  const day = localDate(candidate.startAt, timeZone)
+  const start = localTime(candidate.startAt, timeZone)
+  switch (candidate.precision) {
+    case "day": return day
+    case "time": return `${day} ${start}`
+    case "period": return `${day} ${start}-${localTime(candidate.endAt, timeZone)}`
+  }
+}
+
+interface Case {
+  readonly text: string
+  // Likeliest first
+  readonly candidates: ReadonlyArray<string>
+  readonly clarification?: "WhichDay" | "WhichTime"
+  readonly context?: Partial<DateContext>
+}
+
+const parse = (text: string, context: Partial<DateContext> = {}) =>
+  parseDate(text, { now: NOW, timeZone: TIME_ZONE, ...context })
+
+const check = (cases: ReadonlyArray<Case>) => {
+  for (const { text, candidates, clarification, context } of cases) {
+    test(text, () => {
+      const parsed = parse(text, context)
+      expect(parsed).not.toBeNull()
+      expect(parsed!.candidates.map((candidate) => wallClock(candidate))).toEqual([...candidates])
+      expect(parsed!.clarification?._tag ?? null).toBe(clarification ?? null)
+    })
+  }
+}
+
+describe("relative days", () => {
+  check([
+    { text: "hoje", candidates: ["2026-03-04"] },
+    { text: "amanhã", candidates: ["2026-03-05"] },
+    { text: "Amanhã!", candidates: ["2026-03-05"] },
+    { text: "depois de amanhã", candidates: ["2026-03-06"] },
+    { text: "daqui a 3 dias", candidates: ["2026-03-07"] },
+    { text: "em uma semana", candidates: ["2026-03-11"] },
+    { text: "today", candidates: ["2026-03-04"] },
+    { text: "tomorrow", candidates: ["2026-03-05"] },
+    { text: "day after tomorrow", candidates: ["2026-03-06"] },
+    { text: "in 10 days", candidates: ["2026-03-14"] }
+  ])
+})
+
+describe("weekdays", () => {
+  check([
+    { text: "segunda", candidates: ["2026-03-09"] },
+    { text: "segunda-feira", candidates: ["2026-03-09"] },
+    { text: "terça", candidates: ["2026-03-10"] },
+    { text: "sexta", candidates: ["2026-03-06"] },
+    { text: "sábado", candidates: ["2026-03-07"] },
+    { text: "domingo", candidates: ["2026-03-08"] },
+    { text: "próxima sexta", candidates: ["2026-03-06"] },
+    { text: "sexta que vem", candidates: ["2026-03-06"] },
+    { text: "next monday", candidates: ["2026-03-09"] },
+    { text: "friday", candidates: ["2026-03-06"] },
+    // Said on a Wednesday, today or a week from now
+    { text: "quarta", candidates: ["2026-03-04", "2026-03-11"], clarification: "WhichDay" },
+    { text: "próxima quarta", candidates: ["2026-03-11"] },
+    { text: "essa quarta", candidates: ["2026-03-04"] },
+    { text: "fim de semana", candidates: ["2026-03-07", "2026-03-08"], clarification: "WhichDay" },
+    { text: "sexta dia 13", candidates: ["2026-03-13"] }
+  ])
+})
+
+describe("calendar dates", () => {
+  check([
+    { text: "dia 12", candidates: ["2026-03-12"] },
+    { text: "dia 4", candidates: ["2026-03-04"] },
+    { text: "12 de março", candidates: ["2026-03-12"] },
+    { text: "12/03", candidates: ["2026-03-12"] },
+    { text: "12/03/2026", candidates: ["2026-03-12"] },
+    { text: "03/04", candidates: ["2026-04-03"] },
+    { text: "march 12", candidates: ["2026-03-12"] },
+    { text: "the 12th", candidates: ["2026-03-12"] },
+    { text: "5 de abril de 2027", candidates: ["2027-04-05"] },
+    // Month first in English, but 03/04 could still be either
+    { text: "on 03/04 please", candidates: ["2026-03-04", "2026-04-03"], clarification: "WhichDay" },
+    { text: "on 05/20", candidates: ["2026-05-20"] }
+  ])
+})
+
+describe("times and periods", () => {
+  check([
+    { text: "amanhã às 15h", candidates: ["2026-03-05 15:00"] },
+    { text: "amanhã 15:30", candidates: ["2026-03-05 15:30"] },
+    { text: "amanhã às 15 horas", candidates: ["2026-03-05 15:00"] },
+    { text: "amanhã às 10 e meia", candidates: ["2026-03-05 10:30", "2026-03-05 22:30"] },
+    { text: "amanhã às 4 da tarde", candidates: ["2026-03-05 16:00"] },
+    { text: "amanhã 9 da noite", candidates: ["2026-03-05 21:00"] },
+    { text: "amanhã meio dia", candidates: ["2026-03-05 12:00"] },
+    { text: "sexta de tarde", candidates: ["2026-03-06 12:00-18:00"] },
+    { text: "sexta à noite", candidates: ["2026-03-06 18:00-00:00"] },
+    { text: "sábado de manhã cedo", candidates: ["2026-03-07 06:00-09:00"] },
+    { text: "dia 12 depois do almoço", candidates: ["2026-03-12 13:00-18:00"] },
+    { text: "amanhã no fim da tarde", candidates: ["2026-03-05 16:00-18:00"] },
+    { text: "amanhã depois das 17h", candidates: ["2026-03-05 17:00-00:00"] },
+    { text: "amanhã antes das 10h", candidates: ["2026-03-05 00:00-10:00"] },
+    { text: "amanhã das 14h às 16h", candidates: ["2026-03-05 14:00-16:00"] },
+    { text: "amanhã entre 2 e 4 da tarde", candidates: ["2026-03-05 14:00-16:00"] },
+    { text: "amanhã entre 8 e 9 da noite", candidates: ["2026-03-05 20:00-21:00"] },
+    { text: "tomorrow morning", candidates: ["2026-03-05 06:00-12:00"] },
+    { text: "next monday at 3pm", candidates: ["2026-03-09 15:00"] },
+    { text: "friday 3:30 p.m.", candidates: ["2026-03-06 15:30"] },
+    { text: "tomorrow between 2 and 4pm", candidates: ["2026-03-05 14:00-16:00"] },
+    { text: "tonight", candidates: ["2026-03-04 18:00-00:00"] }
+  ])
+})
+
+describe("ambiguous times", () => {
+  check([
+    // Nobody books at 3 in the morning, but the customer has to say
+    { text: "amanhã às 3", candidates: ["2026-03-05 15:00", "2026-03-05 03:00"], clarification: "WhichTime" },
+    { text: "sexta às 7", candidates: ["2026-03-06 19:00", "2026-03-06 07:00"], clarification: "WhichTime" },
+    // A period settles it
+    { text: "amanhã às 3 da tarde", candidates: ["2026-03-05 15:00"] },
+    { text: "amanhã às 3 de tarde", candidates: ["2026-03-05 15:00"] },
+    // From 8 on a morning hour is likelier, no question asked
+    { text: "amanhã às 9", candidates: ["2026-03-05 09:00", "2026-03-05 21:00"] }
+  ])
+})
+
+describe("times without a day", () => {
+  check([
+    { text: "às 15h", candidates: ["2026-03-04 15:00"] },
+    // It is 10:00, so 9:00 already passed today
+    { text: "às 9h", candidates: ["2026-03-05 09:00", "2026-03-05 21:00"] },
+    { text: "de tarde", candidates: ["2026-03-04 12:00-18:00"] },
+    { text: "de manhã", candidates: ["2026-03-04 06:00-12:00"] },
+    { text: "cedinho", candidates: ["2026-03-05 06:00-09:00"] },
+    // The day whose times are on offer wins over today and tomorrow
+    { text: "às 9h", candidates: ["2026-03-10 09:00", "2026-03-10 21:00"], context: { day: "2026-03-10" } },
+    { text: "de tarde", candidates: ["2026-03-10 12:00-18:00"], context: { day: "2026-03-10" } }
+  ])
+})
+
+describe("past dates", () => {
+  check([
+    // March 3rd passed yesterday, so it is next year's
+    { text: "3 de março", candidates: ["2027-03-03"] },
+    { text: "03/03", candidates: ["2027-03-03"] },
+    // The 2nd passed this month
+    { text: "dia 2", candidates: ["2026-04-02"] },
+    // An explicit day is kept as written, the booking flow turns it down
+    { text: "hoje às 9h", candidates: ["2026-03-04 09:00", "2026-03-04 21:00"] },
+    { text: "5 de janeiro de 2026", candidates: ["2026-01-05"] }
+  ])
+
+  test("a 31st skips the months without one", () => {
+    const parsed = parse("dia 31", { now: "2026-04-10T13:00:00.000Z" })
+    expect(parsed!.candidates.map((candidate) => wallClock(candidate))).toEqual(["2026-05-31"])
+  })
+
+  test("a day at the end of the year rolls into the next one", () => {
+    const parsed = parse("dia 5", { now: "2026-12-20T13:00:00.000Z" })
+    expect(parsed!.candidates.map((candidate) => wallClock(candidate))).toEqual(["2027-01-05"])
+  })
+})
+
+describe("contradictions", () => {
+  check([
+    { text: "sexta dia 12", candidates: ["2026-03-06", "2026-03-12"], clarification: "WhichDay" },
+    { text: "amanhã ou sexta", candidates: ["2026-03-05", "2026-03-06"], clarification: "WhichDay" }
+  ])
+
+  test("lower the confidence", () => {
+    expect(parse("sexta dia 12")!.confidence).toBeLessThan(0.5)
+  })
+})
+
+describe("weeks", () => {
+  test("ask for a day of the week", () => {
+    const parsed = parse("semana que vem")!
+    expect(parsed.candidates.map((candidate) => wallClock(candidate))).toEqual([
+      "2026-03-09", "2026-03-10", "2026-03-11", "2026-03-12", "2026-03-13", "2026-03-14", "2026-03-15"
+    ])
+    expect(parsed.clarification).toEqual(expect.objectContaining({ _tag: "WhichDay", days: [] }))
+    expect(parsed.confidence).toBeLessThan(0.5)
+  })
+
+  test("are narrowed by a weekday", () => {
+    expect(parse("terça da semana que vem")!.candidates.map((candidate) => wallClock(candidate))).toEqual(["2026-03-10"])
+  })
+})
+
+describe("no date or time", () => {
+  for (const text of ["oi, tudo bem?", "quero marcar um horário", "1", "sim", "ontem", "mais tarde", "31 de fevereiro", "às 25h", ""]) {
+    test(JSON.stringify(text), () => {
+      expect(parse(text)).toBeNull()
+    })
+  }
+})
+
+describe("confidence", () => {
+  test("is full for a day and a time", () => {
+    expect(parse("amanhã às 15h")!.confidence).toBe(1)
+  })
+
+  test("drops when the day is guessed", () => {
+    expect(parse("às 15h")!.confidence).toBeLessThan(1)
+  })
+
+  test("drops further for an ambiguous time", () => {
+    expect(parse("amanhã às 3")!.confidence).toBeLessThan(parse("às 15h")!.confidence)
+  })
+
+  test("offers the ambiguous times to pick from", () => {
+    expect(parse("amanhã às 3")!.clarification).toEqual(expect.objectContaining({
+      _tag: "WhichTime",
+      times: ["2026-03-05T18:00:00.000Z", "2026-03-05T06:00:00.000Z"]
+    }))
+  })
+})
+
+describe("time zones", () => {
+  test("days are read on the business calendar", () => {
+    // 01:00 UTC on the 5th is still the 4th in São Paulo
+    const parsed = parse("amanhã às 15h", { now: "2026-03-05T01:00:00.000Z" })!
+    expect(parsed.candidates[0]!.startAt).toBe("2026-03-05T18:00:00.000Z")
+  })
+
+  test("times keep their wall clock across a daylight saving change", () => {
+    // Lisbon moves to summer time on March 29th
+    const context = { now: "2026-03-28T10:00:00.000Z", timeZone: "Europe/Lisbon" }
+    expect(parse("hoje às 15h", context)!.candidates[0]!.startAt).toBe("2026-03-28T15:00:00.000Z")
+    expect(parse("amanhã às 15h", context)!.candidates[0]!.startAt).toBe("2026-03-29T14:00:00.000Z")
+  })
+
+  test("a whole day lasts as long as it does on the wall clock", () => {
+    const parsed = parse("amanhã", { now: "2026-03-28T10:00:00.000Z", timeZone: "Europe/Lisbon" })!
+    expect(parsed.candidates[0]).toEqual({ startAt: "2026-03-29T00:00:00.000Z", endAt: "2026-03-29T23:00:00.000Z", precision: "day" })
+  })
+})
@@ -0,0 +1,453 @@
+import { Data } from "effect"
+import { addDays, localDate, weekdayOf, zonedInstant, type Interval } from "./Availability.js"
+
+// Reads dates and times out of free text like "amanhã às 15h", "sexta de tarde",
+// "dia 12 depois do almoço" or "next monday at 3pm", without any external service.
+// Expressions are resolved on the calendar of the business time zone, relative to
+// the moment the message was sent.
+
+export interface DateContext {
+  // When the message was sent
+  readonly now: string
+  readonly timeZone: string
+  // Day a bare time or period refers to, like the day whose times are on offer.
+  // Without it a time that already passed today means tomorrow.
+  readonly day?: string
+}
+
+// How much of the range the customer pinned down. A time gives an empty range at that instant.
+export type DatePrecision = "day" | "period" | "time"
+
+export interface DateCandidate extends Interval {
+  readonly precision: DatePrecision
+}
+
+// What to ask the customer when the text can be read several ways
+export type Clarification = Data.TaggedEnum<{
+  // No days when only a week was given
+  WhichDay: { readonly days: ReadonlyArray<string> }
+  WhichTime: { readonly times: ReadonlyArray<string> }
+}>
+
+export const Clarification = Data.taggedEnum<Clarification>()
+
+export interface ParsedDate {
+  // Likeliest reading first
+  readonly candidates: ReadonlyArray<DateCandidate>
+  // From 0 to 1, how sure the reading is
+  readonly confidence: number
+  readonly clarification: Clarification | null
+}
+
+// Minutes of the day, start === end for an exact time
+interface Window {
+  readonly start: number
+  readonly end: number
+}
+
+interface DayExpression {
+  readonly _tag: "Day"
+  readonly days: ReadonlyArray<string>
+  // Weekday the text named, which narrows dates given elsewhere ("sexta dia 13")
+  readonly weekday?: number
+  // Only a whole week was given
+  readonly week?: boolean
+  readonly ambiguous: boolean
+}
+
+interface TimeExpression {
+  readonly _tag: "Time"
+  readonly windows: ReadonlyArray<Window>
+  // Several readings that a period or the customer has to settle, like "às 3"
+  readonly ambiguous: boolean
+}
+
+type Expression = DayExpression | TimeExpression
+
+interface Reading {
+  readonly today: string
+  readonly english: boolean
+}
+
+interface Matcher {
+  readonly pattern: RegExp
+  readonly read: (match: RegExpMatchArray, reading: Reading) => ReadonlyArray<Expression>
+}
+
+const HOUR = 60
+const END_OF_DAY = 24 * HOUR
+
+const WEEKDAYS: Record<string, number> = {
+  domingo: 0, segunda: 1, terca: 2, quarta: 3, quinta: 4, sexta: 5, sabado: 6, seg: 1, sab: 6,
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5
+}
+
+const MONTHS: Record<string, number> = {
+  janeiro: 1, fevereiro: 2, marco: 3, abril: 4, maio: 5, junho: 6, julho: 7, agosto: 8, setembro: 9, outubro: 10, novembro: 11, dezembro: 12,
+  fev: 2, abr: 4, mai: 5, ago: 8, set: 9, out: 10, dez: 12,
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+}
+
+const PERIODS: ReadonlyArray<readonly [RegExp, Window]> = [
+  [/\b(depois do almoco|apos o almoco|after lunch)\b/g, { start: 13 * HOUR, end: 18 * HOUR }],
+  [/\b(antes do almoco|before lunch)\b/g, { start: 6 * HOUR, end: 12 * HOUR }],
+  [/\b(hora do almoco|horario de almoco|horario do almoco|no almoco|lunch ?time|at lunch)\b/g, { start: 12 * HOUR, end: 14 * HOUR }],
+  [/\b(fim da tarde|final da tarde|late afternoon)\b/g, { start: 16 * HOUR, end: 18 * HOUR }],
+  [/\b(comeco da tarde|inicio da tarde|early afternoon)\b/g, { start: 12 * HOUR, end: 15 * HOUR }],
+  [/\b(de manha cedo|manha cedo|cedinho|early morning|first thing)\b/g, { start: 6 * HOUR, end: 9 * HOUR }],
+  [/\b(manha|morning)\b/g, { start: 6 * HOUR, end: 12 * HOUR }],
+  [/\b(tarde|afternoon)\b/g, { start: 12 * HOUR, end: 18 * HOUR }],
+  [/\b(noite|evening|night)\b/g, { start: 18 * HOUR, end: END_OF_DAY }]
+]
+
+const ENGLISH_WORDS = /\b(today|tomorrow|tonight|next|this|week|weekend|morning|afternoon|evening|night|noon|midnight|lunch|after|before|between|at|on|in|am|pm|days?|from|to|the|of|monday|tuesday|wednesday|thursday|friday|saturday|sunday|january|february|march|april|june|july|august|september|october|november|december)\b/g
+const PORTUGUESE_WORDS = /\b(hoje|amanha|proxim[ao]|que vem|semana|manha|tarde|noite|almoco|meio dia|depois|antes|entre|as|dia|dias|de|do|da|das|ate|segunda|terca|quarta|quinta|sexta|sabado|domingo|janeiro|fevereiro|marco|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)\b/g
+
+// "Às 15h, sexta-feira!" reads as "as 15h sexta feira"
+const normalize = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/\b([ap])\.\s?m\b\.?/g, "$1m")
+    .replace(/[^\p{L}\p{N}:/\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+const dayOf = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date.toISOString().substring(0, 10)
+    : null
+}
+
+const fullYear = (year: string): number => year.length === 2 ? 2000 + Number(year) : Number(year)
+
+// A date without a year is the next one to come
+const upcomingDate = (today: string, month: number, day: number, year?: number): string | null => {
+  if (year !== undefined) return dayOf(year, month, day)
+  const current = Number(today.substring(0, 4))
+  const thisYear = dayOf(current, month, day)
+  return thisYear !== null && thisYear >= today ? thisYear : dayOf(current + 1, month, day)
+}
+
+// "dia 12" is the next 12th, this month's unless it passed
+const upcomingDayOfMonth = (today: string, day: number): string | null => {
+  const year = Number(today.substring(0, 4))
+  const month = Number(today.substring(5, 7))
+  // Two months ahead at most, a 31st may skip the next one
+  for (let offset = 0; offset < 3; offset++) {
+    const next = month + offset
+    const candidate = next > 12 ? dayOf(year + 1, next - 12, day) : dayOf(year, next, day)
+    if (candidate !== null && candidate >= today) return candidate
+  }
+  return null
+}
+
+const days = (list: ReadonlyArray<string | null>, extra: Partial<DayExpression> = {}): ReadonlyArray<Expression> => {
+  const found = list.filter((day): day is string => day !== null)
+  return found.length === 0 ? [] : [{ _tag: "Day", days: found, ambiguous: found.length > 1, ...extra }]
+}
+
+const at = (minute: number): Window => ({ start: minute, end: minute })
+
+const TIME = String.raw`(\d{1,2})(?:(?::|h)(\d{2}))?\s*(?:h|hs|hrs|horas?|hours?|o ?clock)?(?:\s+e\s+(meia))?\s*(am|pm)?`
+
+// Hour and minute as written, with every reading of an hour below 12 that has no am/pm
+const readTime = (hours: string, minutes: string | undefined, half: string | undefined, meridiem: string | undefined): TimeExpression | null => {
+  const hour = Number(hours)
+  const minute = half ? 30 : Number(minutes ?? 0)
+  if (hour > 24 || minute > 59 || (meridiem && (hour === 0 || hour > 12))) return null
+
+  if (meridiem) {
+    return { _tag: "Time", windows: [at(((hour % 12) + (meridiem === "pm" ? 12 : 0)) * HOUR + minute)], ambiguous: false }
+  }
+  if (hour === 0 || hour >= 12) {
+    return { _tag: "Time", windows: [at((hour % 24) * HOUR + minute)], ambiguous: false }
+  }
+  // Nobody books at 3 in the morning, but "às 3" could still be either
+  const morning = at(hour * HOUR + minute)
+  const afternoon = at((hour + 12) * HOUR + minute)
+  return hour <= 7
+    ? { _tag: "Time", windows: [afternoon, morning], ambiguous: true }
+    : { _tag: "Time", windows: [morning, afternoon], ambiguous: false }
+}
+
+const timeOf = (match: RegExpMatchArray, offset: number) =>
+  readTime(match[offset]!, match[offset + 1], match[offset + 2], match[offset + 3])
+
+// A time range, "between 2 and 4pm" puts both ends in the afternoon. Every reading of
+// the end is kept, so "entre 8 e 9 da noite" is settled by the period that follows.
+const readRange = (from: TimeExpression | null, to: TimeExpression | null): ReadonlyArray<Expression> => {
+  if (!from || !to) return []
+  const windows = to.windows.flatMap(({ start: end }) => {
+    const starts = from.windows.map((window) => window.start).filter((start) => start < end)
+    return starts.length === 0 ? [] : [{ start: Math.max(...starts), end }]
+  })
+  return windows.length === 0 ? [] : [{ _tag: "Time", windows, ambiguous: to.ambiguous && windows.length > 1 }]
+}
+
+const nextWeekday = (today: string, weekday: number, skipToday: boolean): string => {
+  const delta = (weekday - weekdayOf(today) + 7) % 7
+  return addDays(today, delta === 0 && skipToday ? 7 : delta)
+}
+
+const WEEKDAY_NAMES = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join("|")
+const MONTH_NAMES = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|")
+
+// Applied in order, each one removes what it matched so that later ones do not read it again
+const MATCHERS: ReadonlyArray<Matcher> = [
+  { pattern: /\b(ontem|yesterday|mais tarde|later)\b/g, read: () => [] },
+  { pattern: /\b(depois de amanha|day after tomorrow)\b/g, read: (_, { today }) => days([addDays(today, 2)]) },
+  { pattern: /\b(amanha|tomorrow)\b/g, read: (_, { today }) => days([addDays(today, 1)]) },
+  { pattern: /\b(hoje|today)\b/g, read: (_, { today }) => days([today]) },
+  {
+    pattern: /\btonight\b/g,
+    read: (_, { today }) => [...days([today]), { _tag: "Time", windows: [{ start: 18 * HOUR, end: END_OF_DAY }], ambiguous: false }]
+  },
+  { pattern: /\b(?:daqui a|em|in) (\d{1,2}) (?:dias|days)\b/g, read: (match, { today }) => days([addDays(today, Number(match[1]))]) },
+  { pattern: /\b(?:daqui a|em|in) (?:uma|a|one) (?:semana|week)\b/g, read: (_, { today }) => days([addDays(today, 7)]) },
+  {
+    pattern: /\b(?:(?:no|este|esse|neste|nesse|this) )?(?:fim|final) de semana\b|\b(?:this )?weekend\b/g,
+    read: (_, { today }) => {
+      const saturday = nextWeekday(today, 6, false)
+      return days(weekdayOf(today) === 0 ? [today] : [saturday, addDays(saturday, 1)])
+    }
+  },
+  {
+    pattern: /\b(?:semana que vem|proxima semana|next week)\b/g,
+    read: (_, { today }) => {
+      const monday = nextWeekday(today, 1, true)
+      return days(Array.from({ length: 7 }, (_, offset) => addDays(monday, offset)), { week: true })
+    }
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:(proxim[ao]|next|this|essa|esta|nessa|nesta)\s+)?(${WEEKDAY_NAMES})(?:\s+feira)?(?:\s+(que vem))?\b`, "g"),
+    read: (match, { today }) => {
+      const weekday = WEEKDAYS[match[2]!]!
+      const modifier = match[1] ?? match[3]
+      const next = modifier === "proxima" || modifier === "proximo" || modifier === "next" || modifier === "que vem"
+      const upcoming = nextWeekday(today, weekday, next)
+      // "sexta" said on a Friday is today or next week
+      const bare = modifier === undefined && upcoming === today
+      return days(bare ? [today, addDays(today, 7)] : [upcoming], { weekday })
+    }
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:dia\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(?:de\s+|of\s+)?(${MONTH_NAMES})\b(?:\s+(?:de\s+)?(\d{4}))?`, "g"),
+    read: (match, { today }) =>
+      days([upcomingDate(today, MONTHS[match[2]!]!, Number(match[1]), match[3] ? Number(match[3]) : undefined)])
+  },
+  {
+    pattern: new RegExp(String.raw`\b(${MONTH_NAMES})\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:\s+(\d{4}))?`, "g"),
+    read: (match, { today }) =>
+      days([upcomingDate(today, MONTHS[match[1]!]!, Number(match[2]), match[3] ? Number(match[3]) : undefined)])
+  },
+  {
+    // Day first in Portuguese, month first in English, which leaves 03/04 open
+    pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/g,
+    read: (match, { today, english }) => {
+      const first = Number(match[1])
+      const second = Number(match[2])
+      const year = match[3] ? fullYear(match[3]) : undefined
+      const dayFirst = upcomingDate(today, second, first, year)
+      if (!english) return days([dayFirst])
+      const monthFirst = upcomingDate(today, first, second, year)
+      return days(first === second ? [monthFirst] : [monthFirst, dayFirst])
+    }
+  },
+  {
+    pattern: /\b(?:dia|day|on the|the)\s+(\d{1,2})(?:st|nd|rd|th)?\b|\b(\d{1,2})(?:st|nd|rd|th)\b/g,
+    read: (match, { today }) => days([upcomingDayOfMonth(today, Number(match[1] ?? match[2]))])
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:entre|between|das|from)\s+(?:as\s+)?${TIME}\s+(?:e|and|as|a|ate|to|-)\s+(?:as\s+)?${TIME}`, "g"),
+    read: (match) => {
+      const to = timeOf(match, 5)
+      const meridiem = match[4] ?? match[8]
+      return readRange(readTime(match[1]!, match[2], match[3], meridiem), to)
+    }
+  },
+  {
+    // "9 da noite", the period that follows is read on its own and settles the hour
+    pattern: /\b(\d{1,2})(?::(\d{2}))?(?:\s+e\s+(meia))?(?=\s+(?:da|de|in the|at) (?:manha|tarde|noite|morning|afternoon|evening|night)\b)/g,
+    read: (match) => {
+      const time = readTime(match[1]!, match[2], match[3], undefined)
+      return time ? [time] : []
+    }
+  },
+  ...PERIODS.map(([pattern, window]): Matcher => ({
+    pattern,
+    read: () => [{ _tag: "Time", windows: [window], ambiguous: false }]
+  })),
+  {
+    pattern: /\b(meio dia|noon|midday)\b/g,
+    read: () => [{ _tag: "Time", windows: [at(12 * HOUR)], ambiguous: false }]
+  },
+  {
+    pattern: /\b(meia noite|midnight)\b/g,
+    read: () => [{ _tag: "Time", windows: [at(0)], ambiguous: false }]
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:depois das|depois de|apos as|apos|a partir das|a partir de|after)\s+(?:as\s+)?${TIME}`, "g"),
+    read: (match) => {
+      const time = timeOf(match, 1)?.windows[0]
+      return time ? [{ _tag: "Time", windows: [{ start: time.start, end: END_OF_DAY }], ambiguous: false }] : []
+    }
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:antes das|antes de|ate as|ate|before|by)\s+(?:as\s+)?${TIME}`, "g"),
+    read: (match) => {
+      const time = timeOf(match, 1)?.windows[0]
+      return time && time.start > 0 ? [{ _tag: "Time", windows: [{ start: 0, end: time.start }], ambiguous: false }] : []
+    }
+  },
+  {
+    // A time needs a marker, a bare number answers the question the bot asked
+    pattern: /\b(\d{1,2})(?:(?::|h)(\d{2})|\s*(?:h|hs|hrs|horas?|hours?|o ?clock)\b)(?:\s+e\s+(meia))?\s*(am|pm)?|\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/g,
+    read: (match) => {
+      const time = match[1] !== undefined ? readTime(match[1], match[2], match[3], match[4]) : readTime(match[5]!, match[6], undefined, match[7])
+      return time ? [time] : []
+    }
+  },
+  {
+    pattern: /\b(?:as|a|at|pelas|pras|para as|por volta das|around)\s+(\d{1,2})(?::(\d{2}))?(?:\s+e\s+(meia))?\b/g,
+    read: (match) => {
+      const time = readTime(match[1]!, match[2], match[3], undefined)
+      return time ? [time] : []
+    }
+  }
+]
+
+const combineDays = (a: DayExpression, b: DayExpression): DayExpression | null => {
+  // A weekday narrows a date or week given next to it
+  const narrow = (by: DayExpression, other: DayExpression) => {
+    const found = other.days.filter((day) => weekdayOf(day) === by.weekday)
+    return found.length === 0 ? null : { ...other, days: found, weekday: by.weekday, week: false, ambiguous: found.length > 1 }
+  }
+  if (a.weekday !== undefined && b.weekday === undefined) return narrow(a, b)
+  if (b.weekday !== undefined && a.weekday === undefined) return narrow(b, a)
+
+  const found = a.days.filter((day) => b.days.includes(day))
+  return found.length === 0 ? null : { _tag: "Day", days: found, week: a.week && b.week, ambiguous: found.length > 1 }
+}
+
+const intersect = (a: Window, b: Window): Window | null => {
+  if (a.start === a.end) return a.start >= b.start && (a.start < b.end || b.start === b.end && a.start === b.start) ? a : null
+  if (b.start === b.end) return intersect(b, a)
+  const start = Math.max(a.start, b.start)
+  const end = Math.min(a.end, b.end)
+  return start < end ? { start, end } : null
+}
+
+const combineTimes = (a: TimeExpression, b: TimeExpression): TimeExpression | null => {
+  const windows = a.windows.flatMap((first) =>
+    b.windows.flatMap((second) => {
+      const window = intersect(first, second)
+      return window ? [window] : []
+    })
+  )
+  return windows.length === 0 ? null : { _tag: "Time", windows, ambiguous: (a.ambiguous || b.ambiguous) && windows.length > 1 }
+}
+
+// Folds the expressions of one kind, falling back to every reading when they contradict each other
+const fold = <A extends Expression>(
+  expressions: ReadonlyArray<A>,
+  combine: (a: A, b: A) => A | null,
+  union: (all: ReadonlyArray<A>) => A
+): { readonly value: A | null, readonly conflict: boolean } => {
+  if (expressions.length === 0) return { value: null, conflict: false }
+
+  let value: A = expressions[0]!
+  for (const next of expressions.slice(1)) {
+    const combined = combine(value, next)
+    if (!combined) return { value: union(expressions), conflict: true }
+    value = combined
+  }
+  return { value, conflict: false }
+}
+
+const unique = <A>(values: ReadonlyArray<A>, key: (value: A) => string): A[] =>
+  [...new Map(values.map((value) => [key(value), value] as const)).values()]
+
+const precisionOf = (window: Window | null): DatePrecision =>
+  window === null ? "day" : window.start === window.end ? "time" : "period"
+
+const toCandidate = (day: string, window: Window | null, timeZone: string): DateCandidate => {
+  const start = window ? window.start : 0
+  const startAt = new Date(zonedInstant(day, start, timeZone)).toISOString()
+  const endAt = window === null
+    ? new Date(zonedInstant(addDays(day, 1), 0, timeZone)).toISOString()
+    : window.end === window.start
+      ? startAt
+      : new Date(zonedInstant(day, window.end, timeZone)).toISOString()
+  return { startAt, endAt, precision: precisionOf(window) }
+}
+
+// Null when the text mentions no date or time
+export const parseDate = (text: string, context: DateContext): ParsedDate | null => {
+  let remaining = normalize(text)
+  const reading: Reading = {
+    today: localDate(context.now, context.timeZone),
+    english: (remaining.match(ENGLISH_WORDS)?.length ?? 0) > (remaining.match(PORTUGUESE_WORDS)?.length ?? 0)
+  }
+
+  const expressions: Expression[] = []
+  for (const matcher of MATCHERS) {
+    for (const match of remaining.matchAll(matcher.pattern)) {
+      expressions.push(...matcher.read(match, reading))
+    }
+    remaining = remaining.replace(matcher.pattern, " ")
+  }
+  if (expressions.length === 0) return null
+
+  const dayFold = fold(
+    expressions.filter((expression): expression is DayExpression => expression._tag === "Day"),
+    combineDays,
+    (all) => ({ _tag: "Day", days: unique(all.flatMap((expression) => expression.days), String), ambiguous: true })
+  )
+  const timeFold = fold(
+    expressions.filter((expression): expression is TimeExpression => expression._tag === "Time"),
+    combineTimes,
+    (all) => ({ _tag: "Time", windows: unique(all.flatMap((expression) => expression.windows), (window) => `${window.start}-${window.end}`), ambiguous: true })
+  )
+
+  const windows: ReadonlyArray<Window | null> = timeFold.value?.windows ?? [null]
+  let confidence = 1
+  let candidateDays: ReadonlyArray<string>
+
+  if (dayFold.value) {
+    candidateDays = dayFold.value.days
+  } else if (context.day) {
+    candidateDays = [context.day]
+  } else {
+    // "às 15h" sent after three in the afternoon is about tomorrow
+    const now = new Date(context.now).getTime()
+    const likeliest = windows[0]
+    const passed = likeliest != null && zonedInstant(reading.today, likeliest.end === likeliest.start ? likeliest.start : likeliest.end, context.timeZone) <= now
+    candidateDays = [passed ? addDays(reading.today, 1) : reading.today]
+    confidence *= passed ? 0.8 : 0.9
+  }
+
+  const dayAmbiguous = dayFold.value !== null && (dayFold.value.week === true || dayFold.value.ambiguous)
+  const timeAmbiguous = timeFold.value !== null && timeFold.value.ambiguous && timeFold.value.windows.length > 1
+  const guessed = timeFold.value !== null && !timeAmbiguous && timeFold.value.windows.length > 1
+
+  if (dayFold.conflict || timeFold.conflict) confidence *= 0.3
+  if (dayFold.value?.week) confidence *= 0.4
+  else if (dayAmbiguous) confidence *= 0.5
+  if (timeAmbiguous) confidence *= 0.5
+  if (guessed) confidence *= 0.9
+
+  const candidates = candidateDays.flatMap((day) => windows.map((window) => toCandidate(day, window, context.timeZone)))
+
+  const clarification = dayAmbiguous
+    ? Clarification.WhichDay({ days: dayFold.value?.week ? [] : candidateDays })
+    : timeAmbiguous && windows.every((window) => window !== null && window.start === window.end)
+      ? Clarification.WhichTime({ times: candidates.map((candidate) => candidate.startAt) })
+      : null
+
+  return { candidates, confidence: Math.round(confidence * 100) / 100, clarification }
+}
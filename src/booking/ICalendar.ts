@@ -0,0 +1,100 @@
+import type { Appointment, AppointmentStatus } from "../database/Schema.js"
+
+// RFC 5545 calendars of appointments, used for the professionals' feeds and the
+// invite attached to the customer's confirmation
+
+export interface CalendarEvent {
+  readonly appointment: Appointment
+  readonly summary: string
+  readonly description: string | null
+}
+
+export interface Calendar {
+  readonly name: string
+  readonly events: ReadonlyArray<CalendarEvent>
+}
+
+export const CALENDAR_MIMETYPE = "text/calendar"
+
+const PRODUCT_ID = "-//poc-agendador//Agendamentos//PT"
+
+// How often subscribed calendar apps should fetch the feed again
+const REFRESH_INTERVAL = "PT15M"
+
+// A pending appointment is tentative, a no-show still took its time
+const STATUS: Record<AppointmentStatus, string> = {
+  pending: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  cancelled: "CANCELLED",
+  "no-show": "CONFIRMED"
+}
+
+// The UID never changes, so an updated event replaces the one imported before
+export const eventUid = (appointmentId: string): string => `${appointmentId}@poc-agendador`
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+
+// SQLite's datetime('now') has no zone marker but is UTC
+const toInstant = (value: string): number =>
+  new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`).getTime()
+
+// 20260303T140000Z
+const formatInstant = (value: string): string =>
+  new Date(toInstant(value)).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+const fold = (line: string): string => {
+  const parts: string[] = []
+  let current = ""
+  let size = 0
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ""
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+  parts.push(current)
+
+  return parts.join("\r\n ")
+}
+
+const eventLines = ({ appointment, summary, description }: CalendarEvent, now: string): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${eventUid(appointment.id)}`,
+  `DTSTAMP:${formatInstant(now)}`,
+  `DTSTART:${formatInstant(appointment.startAt)}`,
+  `DTEND:${formatInstant(appointment.endAt)}`,
+  `SEQUENCE:${appointment.sequence}`,
+  `STATUS:${STATUS[appointment.status]}`,
+  `SUMMARY:${escapeText(summary)}`,
+  ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+  `CREATED:${formatInstant(appointment.createdAt)}`,
+  `LAST-MODIFIED:${formatInstant(appointment.updatedAt)}`,
+  "END:VEVENT"
+]
+
+export const renderCalendar = (calendar: Calendar, now: string): string =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `NAME:${escapeText(calendar.name)}`,
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    ...calendar.events.flatMap((event) => eventLines(event, now)),
+    "END:VCALENDAR"
+  ]
+    .map(fold)
+    .join("\r\n") + "\r\n"
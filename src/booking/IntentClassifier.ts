@@ -0,0 +1,268 @@
+import { Config, Context, Data, Effect, Layer, Option, Redacted, Schema } from "effect"
+import type { WhatsAppMessage } from "../database/Schema.js"
+import { BookingPolicy } from "./Availability.js"
+import { parseDate } from "./DateParser.js"
+
+// What a customer wants from a message, read either by local rules or by a language
+// model behind an OpenAI-compatible chat completions endpoint (INTENT_CLASSIFIER).
+
+export const Intent = Schema.Literal("book", "cancel", "reschedule", "ask_price", "ask_address", "human_handoff", "other")
+
+export type Intent = Schema.Schema.Type<typeof Intent>
+
+// Things the customer mentioned along with what they want
+export const IntentEntities = Schema.Struct({
+  // Service as the customer wrote it, like "corte"
+  service: Schema.NullOr(Schema.String),
+  // Day or time they wrote, read on the calendar of the business
+  when: Schema.NullOr(Schema.Struct({
+    startAt: Schema.String,
+    endAt: Schema.String,
+    precision: Schema.Literal("day", "period", "time")
+  }))
+})
+
+export type IntentEntities = Schema.Schema.Type<typeof IntentEntities>
+
+export class ClassifiedIntent extends Schema.Class<ClassifiedIntent>("ClassifiedIntent")({
+  intent: Intent,
+  confidence: Schema.Number.pipe(Schema.between(0, 1)),
+  entities: IntentEntities,
+  // Which classifier answered
+  source: Schema.Literal("rules", "llm")
+}) {}
+
+export class IntentClassificationFailed extends Data.TaggedError("IntentClassificationFailed")<{
+  readonly message: string
+}> {}
+
+export class IntentClassifier extends Context.Tag("IntentClassifier")<
+  IntentClassifier,
+  {
+    // History is the chat's recent messages, oldest first, which may include this one
+    readonly classify: (message: WhatsAppMessage, history: ReadonlyArray<WhatsAppMessage>) => Effect.Effect<ClassifiedIntent, IntentClassificationFailed>
+  }
+>() {}
+
+// Accents and punctuation are dropped before matching, like commands
+const normalize = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+// Checked in this order, the first intent with a matching phrase wins. Asking for a
+// person comes first so that "quero falar com alguém sobre cancelar" reaches one.
+const INTENT_PATTERNS: ReadonlyArray<readonly [Intent, ReadonlyArray<RegExp>]> = [
+  ["human_handoff", [
+    /\b(falar|conversar) com (alguem|uma pessoa|um humano|atendente|a recepcao|o dono|a dona)\b/,
+    /\b(atendente|atendimento humano|pessoa de verdade)\b/,
+    /\b(talk|speak) (to|with) (someone|a person|a human|an agent|staff)\b/,
+    /\b(human|real person|agent|representative)\b/
+  ]],
+  ["cancel", [
+    /\b(cancelar|desmarcar|cancela|desmarca|nao vou (poder )?(ir|comparecer))\b/,
+    /\b(cancel|call off|can t make it|cannot make it)\b/
+  ]],
+  ["reschedule", [
+    /\b(remarcar|reagendar|remarca|mudar|trocar|adiar|antecipar) (o |meu |minha |de )?(horario|agendamento|consulta|dia|hora)\b/,
+    /\b(remarcar|reagendar)\b/,
+    /\b(reschedule|move my (appointment|booking)|change my (appointment|booking|time))\b/
+  ]],
+  ["ask_price", [
+    /\b(quanto (custa|e|fica|sai|cobra)|qual (o )?(preco|valor)|precos|valores|tabela)\b/,
+    /\b(how much|price|prices|cost|costs|rates)\b/
+  ]],
+  ["ask_address", [
+    /\b(endereco|onde (fica|voces ficam|e|esta)|localizacao|como chego|como chegar)\b/,
+    /\b(address|where are you|where is|location|directions)\b/
+  ]],
+  ["book", [
+    /\b(agendar|marcar|agendamento|horario (livre|disponivel)|tem (horario|vaga))\b/,
+    /\b(book|booking|appointment|schedule|available|slot)\b/
+  ]]
+]
+
+// "quanto custa o corte?" mentions corte
+const SERVICE_PATTERNS: ReadonlyArray<RegExp> = [
+  /\b(?:quanto (?:custa|e|fica|sai)|preco d[aeo]s?|valor d[aeo]s?) (?:o |a |um |uma )?(.+)$/,
+  /\b(?:marcar|agendar) (?:um |uma |o |a )?(.+?)(?: (?:para|pra|amanha|hoje|dia|na|no|as|de) .*)?$/,
+  /\b(?:how much (?:is|does|for)|price of|cost of) (?:an? |the )?(.+?)(?: cost)?$/,
+  /\bbook (?:an? |the )?(.+?)(?: (?:for|on|at|tomorrow|today|next) .*)?$/
+]
+
+// Words that are not a service when they follow "marcar" and friends
+const NOT_A_SERVICE = new Set(["horario", "um horario", "agendamento", "consulta", "appointment", "an appointment", "isso", "it"])
+
+const serviceOf = (phrase: string): string | null => {
+  for (const pattern of SERVICE_PATTERNS) {
+    const service = phrase.match(pattern)?.[1]?.trim()
+    if (service && !NOT_A_SERVICE.has(service)) return service
+  }
+  return null
+}
+
+const whenOf = (text: string, now: string, timeZone: string): IntentEntities["when"] => {
+  const candidate = parseDate(text, { now, timeZone })?.candidates[0]
+  return candidate ? { startAt: candidate.startAt, endAt: candidate.endAt, precision: candidate.precision } : null
+}
+
+const matchIntent = (phrase: string): Intent | null =>
+  INTENT_PATTERNS.find(([, patterns]) => patterns.some((pattern) => pattern.test(phrase)))?.[0] ?? null
+
+// Keyword rules that work offline. A message that only gives a date, like "e sexta?",
+// continues what the customer asked for earlier in the chat, or asks for a booking.
+export const classifyByRules = (message: WhatsAppMessage, history: ReadonlyArray<WhatsAppMessage>, timeZone: string): ClassifiedIntent => {
+  const phrase = normalize(message.content)
+  const entities: IntentEntities = {
+    service: serviceOf(phrase),
+    when: whenOf(message.content, message.timestamp, timeZone)
+  }
+
+  const intent = matchIntent(phrase)
+  if (intent) {
+    return new ClassifiedIntent({ intent, confidence: 0.8, entities, source: "rules" })
+  }
+
+  if (entities.when) {
+    const earlier = history
+      .filter((previous) => !previous.isFromMe && previous.id !== message.id)
+      .map((previous) => matchIntent(normalize(previous.content)))
+      .filter((previous) => previous === "book" || previous === "reschedule")
+      .pop()
+    return new ClassifiedIntent({ intent: earlier ?? "book", confidence: earlier ? 0.6 : 0.5, entities, source: "rules" })
+  }
+
+  return new ClassifiedIntent({ intent: "other", confidence: 0.5, entities, source: "rules" })
+}
+
+export const RuleIntentClassifierLive = Layer.effect(
+  IntentClassifier,
+  Effect.gen(function* () {
+    const { timeZone } = yield* BookingPolicy
+
+    return {
+      classify: (message, history) => Effect.succeed(classifyByRules(message, history, timeZone))
+    }
+  })
+)
+
+// Any server speaking the chat completions API: OpenAI, a local Ollama or llama.cpp,
+// or a mock. INTENT_API_URL is the base URL the /chat/completions path is added to.
+const LanguageModel = Config.all({
+  url: Config.string("INTENT_API_URL").pipe(Config.withDefault("https://api.openai.com/v1")),
+  apiKey: Config.option(Config.redacted("INTENT_API_KEY")),
+  model: Config.string("INTENT_MODEL").pipe(Config.withDefault("gpt-4o-mini"))
+})
+
+const REQUEST_TIMEOUT = "15 seconds"
+
+// Earlier messages the model sees besides the one it classifies
+const HISTORY_SIZE = 10
+
+const SYSTEM_PROMPT = `You classify WhatsApp messages sent by customers of a business that books appointments.
+Messages are mostly in Portuguese or English. Answer with a JSON object and nothing else:
+{"intent": one of "book", "cancel", "reschedule", "ask_price", "ask_address", "human_handoff", "other",
+ "confidence": a number from 0 to 1,
+ "service": the service the customer mentions as they wrote it, or null,
+ "when": the words the customer used for a date or time, copied as written, or null}
+"human_handoff" means the customer wants to talk to a person. Use the earlier messages only as context,
+classify the last one.`
+
+// The model only copies the date words, which are read locally like any other text
+const ModelAnswer = Schema.parseJson(Schema.Struct({
+  intent: Intent,
+  confidence: Schema.Number.pipe(Schema.clamp(0, 1)),
+  service: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }),
+  when: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null })
+}))
+
+const ChatCompletion = Schema.Struct({
+  choices: Schema.NonEmptyArray(Schema.Struct({
+    message: Schema.Struct({ content: Schema.String })
+  }))
+})
+
+export const LanguageModelIntentClassifierLive = Layer.effect(
+  IntentClassifier,
+  Effect.gen(function* () {
+    const { timeZone } = yield* BookingPolicy
+    const { url, apiKey, model } = yield* LanguageModel
+    const endpoint = `${url.replace(/\/+$/, "")}/chat/completions`
+
+    return {
+      classify: (message, history) =>
+        Effect.gen(function* () {
+          const earlier = history.filter((previous) => previous.id !== message.id).slice(-HISTORY_SIZE)
+          const body = {
+            model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              ...earlier.map((previous) => ({ role: previous.isFromMe ? "assistant" : "user", content: previous.content })),
+              { role: "user", content: message.content }
+            ]
+          }
+
+          const response = yield* Effect.tryPromise({
+            try: (signal) =>
+              fetch(endpoint, {
+                method: "POST",
+                signal,
+                headers: {
+                  "content-type": "application/json",
+                  ...Option.match(apiKey, {
+                    onNone: () => ({}),
+                    onSome: (key) => ({ authorization: `Bearer ${Redacted.value(key)}` })
+                  })
+                },
+                body: JSON.stringify(body)
+              }),
+            catch: (error) => new IntentClassificationFailed({ message: `Intent request failed: ${error}` })
+          }).pipe(
+            Effect.timeoutFail({
+              duration: REQUEST_TIMEOUT,
+              onTimeout: () => new IntentClassificationFailed({ message: "Intent request timed out" })
+            })
+          )
+
+          if (!response.ok) {
+            return yield* new IntentClassificationFailed({ message: `Intent endpoint answered ${response.status}` })
+          }
+
+          const completion = yield* Effect.tryPromise({
+            try: () => response.json(),
+            catch: () => new IntentClassificationFailed({ message: "Intent endpoint did not answer JSON" })
+          }).pipe(
+            Effect.flatMap(Schema.decodeUnknown(ChatCompletion)),
+            Effect.flatMap((completion) => Schema.decodeUnknown(ModelAnswer)(completion.choices[0].message.content)),
+            Effect.mapError((error) =>
+              error._tag === "IntentClassificationFailed" ? error : new IntentClassificationFailed({ message: `Unexpected intent answer: ${error.message}` })
+            )
+          )
+
+          return new ClassifiedIntent({
+            intent: completion.intent,
+            confidence: completion.confidence,
+            entities: {
+              service: completion.service,
+              when: completion.when ? whenOf(completion.when, message.timestamp, timeZone) : null
+            },
+            source: "llm"
+          })
+        })
+    }
+  })
+)
+
+// INTENT_CLASSIFIER=llm sends messages to the endpoint, rules (the default) keeps them local
+export const IntentClassifierLive = Layer.unwrapEffect(
+  Config.literal("rules", "llm")("INTENT_CLASSIFIER").pipe(
+    Config.withDefault("rules" as const),
+    Effect.map((kind) => kind === "llm" ? LanguageModelIntentClassifierLive : RuleIntentClassifierLive)
+  )
+)
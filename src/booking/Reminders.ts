@@ -0,0 +1,90 @@
+import { Effect, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import type { Appointment } from "../database/Schema.js"
+import { JobScheduler, type JobHandlers } from "../effects/JobScheduler.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { isAtRest } from "./Commands.js"
+import { templateMessage } from "./Templates.js"
+
+export const REMINDER_JOB = "appointment.reminder"
+
+const HOUR = 60 * 60 * 1000
+
+const REMINDER_OFFSETS = {
+  "24h": 24 * HOUR,
+  "1h": HOUR
+} as const
+
+const ReminderPayload = Schema.Struct({
+  appointmentId: Schema.String,
+  startAt: Schema.String,
+  kind: Schema.Literal("24h", "1h")
+})
+
+const reminderKeyPrefix = (appointmentId: string) => `reminder:${appointmentId}:`
+
+// Schedules the 24h and 1h reminders of an appointment, skipping the ones already in the past
+export const scheduleAppointmentReminders = (appointment: Appointment) =>
+  Effect.gen(function* () {
+    const scheduler = yield* JobScheduler
+    const start = new Date(appointment.startAt).getTime()
+
+    // A reschedule replaces the reminders of the previous start time
+    yield* scheduler.cancel(reminderKeyPrefix(appointment.id))
+
+    for (const [kind, offset] of Object.entries(REMINDER_OFFSETS)) {
+      const runAt = start - offset
+      if (runAt <= Date.now()) continue
+
+      yield* scheduler.schedule({
+        jobType: REMINDER_JOB,
+        dedupeKey: `${reminderKeyPrefix(appointment.id)}${appointment.startAt}:${kind}`,
+        payload: { appointmentId: appointment.id, startAt: appointment.startAt, kind },
+        runAt: new Date(runAt).toISOString()
+      })
+    }
+  })
+
+export const cancelAppointmentReminders = (appointmentId: string) =>
+  Effect.flatMap(JobScheduler, (scheduler) => scheduler.cancel(reminderKeyPrefix(appointmentId)))
+
+export const reminderJobHandlers: JobHandlers<BookingRepository | ConversationRepository | TemplateRepository | MessageSender | SqliteClient.SqliteClient> = {
+  [REMINDER_JOB]: (payload) =>
+    Effect.gen(function* () {
+      const bookings = yield* BookingRepository
+      const conversations = yield* ConversationRepository
+      const templates = yield* TemplateRepository
+      const sender = yield* MessageSender
+
+      const reminder = yield* Schema.decodeUnknown(ReminderPayload)(payload)
+      const appointment = yield* bookings.getAppointment(reminder.appointmentId)
+
+      // Cancelled or moved since the reminder was scheduled
+      if (appointment.status === "cancelled" || appointment.status === "no-show" || appointment.startAt !== reminder.startAt) {
+        yield* Effect.log(`⏭️ Skipping stale reminder for appointment ${appointment.id}`)
+        return
+      }
+
+      const service = (yield* bookings.listServices()).find((candidate) => candidate.id === appointment.serviceId)
+      const variables = { "service.name": service?.name ?? null, "appointment.start": appointment.startAt }
+      const locale = yield* templates.chatLocale(appointment.sessionId, appointment.chat_id)
+      const text = yield* templates.render(
+        reminder.kind === "24h" ? templateMessage("reminder.day_before", variables) : templateMessage("reminder.hour_before", variables),
+        locale
+      )
+      yield* sender.enqueue(appointment.sessionId, appointment.chat_id, { text })
+
+      // The next message of this chat is read as the answer to the reminder, unless the
+      // customer is in the middle of a dialogue, which the reminder must not cut short
+      const state = yield* conversations.loadState(appointment.sessionId, appointment.chat_id)
+      if (isAtRest(state)) {
+        yield* conversations.saveState(appointment.sessionId, appointment.chat_id, {
+          _tag: "AwaitingReminderReply",
+          appointmentId: appointment.id
+        })
+      }
+    })
+}
@@ -0,0 +1,698 @@
+import { Either } from "effect"
+import type { Locale } from "../database/Schema.js"
+
+// Texts the bot sends, one body per name and locale. The bodies below are the
+// built-in ones, the admin API replaces them at runtime (see TemplateRepository).
+//
+// {{service.name}} inserts a variable and {{appointment.start | date}} converts it.
+// {{service.name | bold}} wraps it in WhatsApp's *bold*, likewise italic, strike and
+// mono, while formatting written around variables is sent as it is.
+// {{#customer.first_name}}...{{/customer.first_name}} is only kept when the variable
+// is set and {{^...}} only when it is not. Lists come out numbered, one per line,
+// unless {{days | or}} or {{days | and}} joins them into a sentence.
+
+export type ValueKind = "text" | "number" | "money" | "date" | "time" | "datetime"
+
+// A single value, a list of values or a list of items written by another template.
+// money is in cents, date a day like "2026-03-03", time and datetime UTC ISO instants.
+type VariableSpec = ValueKind | { readonly list: ValueKind } | { readonly each: string }
+
+interface TemplateDefinition {
+  readonly variables: Readonly<Record<string, VariableSpec>>
+  // Variables the body cannot leave out, like the options answered with their number
+  readonly required?: ReadonlyArray<string>
+  readonly defaults: Readonly<Record<Locale, string>>
+}
+
+const TEMPLATES = {
+  "menu": {
+    variables: {},
+    // Entries in the order of MENU_COMMANDS
+    defaults: {
+      "pt-BR": "Como posso ajudar?\n\n1. Agendar um horário\n2. Meus agendamentos\n3. Cancelar um agendamento\n4. Remarcar um agendamento\n\n0. Voltar",
+      "en": "How can I help?\n\n1. Book an appointment\n2. My appointments\n3. Cancel an appointment\n4. Reschedule an appointment\n\n0. Back",
+      "es": "¿Cómo puedo ayudar?\n\n1. Reservar una cita\n2. Mis citas\n3. Cancelar una cita\n4. Cambiar una cita\n\n0. Volver"
+    }
+  },
+  "menu.invalid_option": {
+    variables: { "count": "number" },
+    defaults: {
+      "pt-BR": "Não entendi. Responda com um número de 1 a {{count}}, ou 0 para voltar.",
+      "en": "Sorry, I didn't get that. Reply with a number from 1 to {{count}}, or 0 to go back.",
+      "es": "No entendí. Responde con un número del 1 al {{count}}, o 0 para volver."
+    }
+  },
+  "flow.invalid_option": {
+    variables: { "count": "number" },
+    defaults: {
+      "pt-BR": "Não entendi. Responda com um número de 1 a {{count}}.",
+      "en": "Sorry, I didn't get that. Reply with a number from 1 to {{count}}.",
+      "es": "No entendí. Responde con un número del 1 al {{count}}."
+    }
+  },
+  "flow.cancelled": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Tudo bem, agendamento cancelado. É só mandar uma mensagem quando quiser recomeçar.",
+      "en": "All right, booking cancelled. Just send a message whenever you want to start again.",
+      "es": "Está bien, reserva cancelada. Envía un mensaje cuando quieras empezar de nuevo."
+    }
+  },
+  "flow.unchanged": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Tudo bem, nada foi alterado. É só mandar uma mensagem quando precisar.",
+      "en": "All right, nothing was changed. Just send a message whenever you need.",
+      "es": "Está bien, no se cambió nada. Envía un mensaje cuando lo necesites."
+    }
+  },
+  "booking.choose_service": {
+    variables: { "customer.name": "text", "customer.first_name": "text", "services": { each: "service.option" } },
+    required: ["services"],
+    defaults: {
+      "pt-BR": "Olá{{#customer.first_name}}, {{customer.first_name}}{{/customer.first_name}}! 👋 Vamos agendar seu horário. Qual serviço você deseja?\n\n{{services}}\n\n0. Cancelar",
+      "en": "Hi{{#customer.first_name}} {{customer.first_name}}{{/customer.first_name}}! 👋 Let's book your appointment. Which service would you like?\n\n{{services}}\n\n0. Cancel",
+      "es": "¡Hola{{#customer.first_name}}, {{customer.first_name}}{{/customer.first_name}}! 👋 Vamos a reservar tu cita. ¿Qué servicio deseas?\n\n{{services}}\n\n0. Cancelar"
+    }
+  },
+  "service.option": {
+    variables: { "service.name": "text", "service.price": "money", "service.duration_minutes": "number" },
+    defaults: {
+      "pt-BR": "{{service.name}}",
+      "en": "{{service.name}}",
+      "es": "{{service.name}}"
+    }
+  },
+  "booking.no_services": {
+    variables: { "customer.name": "text", "customer.first_name": "text" },
+    defaults: {
+      "pt-BR": "Olá{{#customer.first_name}}, {{customer.first_name}}{{/customer.first_name}}! No momento não há serviços disponíveis para agendamento.",
+      "en": "Hi{{#customer.first_name}} {{customer.first_name}}{{/customer.first_name}}! There are no services available for booking right now.",
+      "es": "¡Hola{{#customer.first_name}}, {{customer.first_name}}{{/customer.first_name}}! En este momento no hay servicios disponibles para reservar."
+    }
+  },
+  "booking.choose_day": {
+    variables: { "service.name": "text", "days": { list: "date" } },
+    required: ["days"],
+    defaults: {
+      "pt-BR": "Ótimo, {{service.name | bold}}! Qual dia você prefere?\n\n{{days}}\n\n0. Cancelar",
+      "en": "Great, {{service.name | bold}}! Which day works best for you?\n\n{{days}}\n\n0. Cancel",
+      "es": "¡Genial, {{service.name | bold}}! ¿Qué día prefieres?\n\n{{days}}\n\n0. Cancelar"
+    }
+  },
+  "booking.no_slots": {
+    variables: { "day": "date" },
+    defaults: {
+      "pt-BR": "Não há horários livres em {{day}}. Escolha outro dia.",
+      "en": "There are no free times on {{day}}. Please pick another day.",
+      "es": "No hay horarios libres el {{day}}. Elige otro día."
+    }
+  },
+  "booking.choose_time": {
+    variables: { "day": "date", "times": { list: "time" } },
+    required: ["times"],
+    defaults: {
+      "pt-BR": "Horários disponíveis em {{day}}:\n\n{{times}}\n\n0. Cancelar",
+      "en": "Available times on {{day}}:\n\n{{times}}\n\n0. Cancel",
+      "es": "Horarios disponibles el {{day}}:\n\n{{times}}\n\n0. Cancelar"
+    }
+  },
+  // Sent before the times of the day when none fits the time the customer wrote
+  "booking.preferred_unavailable": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Não há horários livres no período que você pediu.",
+      "en": "There are no free times when you asked for.",
+      "es": "No hay horarios libres en el período que pediste."
+    }
+  },
+  "dates.which_day": {
+    variables: { "days": { list: "date" } },
+    required: ["days"],
+    defaults: {
+      "pt-BR": "Para qual dia: {{days | or}}?",
+      "en": "Which day: {{days | or}}?",
+      "es": "¿Para qué día: {{days | or}}?"
+    }
+  },
+  // Only a week was given, like "semana que vem"
+  "dates.ask_day": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Qual dia exatamente? Você pode escrever, por exemplo, *segunda* ou *dia 12*.",
+      "en": "Which day exactly? You can write, for example, *monday* or *the 12th*.",
+      "es": "¿Qué día exactamente? Puedes escribir, por ejemplo, *lunes* o *el 12*."
+    }
+  },
+  // The hour fits more than one free time, like "às 7"; the times are numbered in this order
+  "dates.which_time": {
+    variables: { "day": "date", "times": { list: "time" } },
+    required: ["times"],
+    defaults: {
+      "pt-BR": "Em {{day}}, você quis dizer {{times | or}}?\n\n{{times}}\n\n0. Cancelar",
+      "en": "On {{day}}, did you mean {{times | or}}?\n\n{{times}}\n\n0. Cancel",
+      "es": "El {{day}}, ¿quisiste decir {{times | or}}?\n\n{{times}}\n\n0. Cancelar"
+    }
+  },
+  "booking.confirm": {
+    variables: { "service.name": "text", "slot.start": "datetime" },
+    defaults: {
+      "pt-BR": "Confirma {{service.name | bold}} em {{slot.start}}?\n\n1. Sim\n2. Não",
+      "en": "Confirm {{service.name | bold}} on {{slot.start}}?\n\n1. Yes\n2. No",
+      "es": "¿Confirmas {{service.name | bold}} el {{slot.start}}?\n\n1. Sí\n2. No"
+    }
+  },
+  "booking.confirm_invalid": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Responda 1 para confirmar ou 2 para escolher outro dia.",
+      "en": "Reply 1 to confirm or 2 to pick another day.",
+      "es": "Responde 1 para confirmar o 2 para elegir otro día."
+    }
+  },
+  "booking.slot_taken": {
+    variables: {},
+    defaults: {
+      "pt-BR": "😕 Esse horário acabou de ser ocupado.",
+      "en": "😕 That time was just taken.",
+      "es": "😕 Ese horario acaba de ser ocupado."
+    }
+  },
+  "booking.service_unavailable": {
+    variables: {},
+    defaults: {
+      "pt-BR": "😕 Esse serviço não está mais disponível.",
+      "en": "😕 That service is no longer available.",
+      "es": "😕 Ese servicio ya no está disponible."
+    }
+  },
+  "booking.booked": {
+    variables: { "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "✅ Agendamento realizado para {{appointment.start}}. Até lá!",
+      "en": "✅ You're booked for {{appointment.start}}. See you then!",
+      "es": "✅ Cita reservada para el {{appointment.start}}. ¡Hasta entonces!"
+    }
+  },
+  "appointments.none": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Você não tem agendamentos futuros. Envie *agendar* para marcar um horário.",
+      "en": "You have no upcoming appointments. Send *book* to make one.",
+      "es": "No tienes citas próximas. Envía *agendar* para reservar una."
+    }
+  },
+  "appointments.list": {
+    variables: { "appointments": { each: "appointment.summary" } },
+    required: ["appointments"],
+    defaults: {
+      "pt-BR": "Seus próximos agendamentos:\n\n{{appointments}}\n\nEnvie *remarcar* ou *cancelar* para alterar um deles.",
+      "en": "Your upcoming appointments:\n\n{{appointments}}\n\nSend *reschedule* or *cancel* to change one of them.",
+      "es": "Tus próximas citas:\n\n{{appointments}}\n\nEnvía *remarcar* o *cancelar* para cambiar alguna."
+    }
+  },
+  "appointment.summary": {
+    variables: { "service.name": "text", "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "{{service.name | bold}} em {{appointment.start}}",
+      "en": "{{service.name | bold}} on {{appointment.start}}",
+      "es": "{{service.name | bold}} el {{appointment.start}}"
+    }
+  },
+  "appointment.confirmed": {
+    variables: { "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "✅ Presença confirmada para {{appointment.start}}. Obrigado!",
+      "en": "✅ Attendance confirmed for {{appointment.start}}. Thank you!",
+      "es": "✅ Asistencia confirmada para el {{appointment.start}}. ¡Gracias!"
+    }
+  },
+  "appointment.cancelled": {
+    variables: { "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "Seu horário de {{appointment.start}} foi cancelado. Mande uma mensagem se quiser remarcar.",
+      "en": "Your appointment on {{appointment.start}} was cancelled. Send a message if you want to book again.",
+      "es": "Tu cita del {{appointment.start}} fue cancelada. Envía un mensaje si quieres reservar de nuevo."
+    }
+  },
+  "appointment.missing": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Esse agendamento não está mais ativo. Mande uma mensagem para marcar um novo horário.",
+      "en": "That appointment is no longer active. Send a message to book a new one.",
+      "es": "Esa cita ya no está activa. Envía un mensaje para reservar una nueva."
+    }
+  },
+  "cancellation.choose": {
+    variables: { "appointments": { each: "appointment.summary" } },
+    required: ["appointments"],
+    defaults: {
+      "pt-BR": "Qual agendamento você quer cancelar?\n\n{{appointments}}\n\n0. Voltar",
+      "en": "Which appointment do you want to cancel?\n\n{{appointments}}\n\n0. Back",
+      "es": "¿Qué cita quieres cancelar?\n\n{{appointments}}\n\n0. Volver"
+    }
+  },
+  "cancellation.confirm": {
+    variables: { "service.name": "text", "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "Deseja cancelar {{service.name | bold}} em {{appointment.start}}?\n\n1. Sim\n2. Não",
+      "en": "Cancel {{service.name | bold}} on {{appointment.start}}?\n\n1. Yes\n2. No",
+      "es": "¿Deseas cancelar {{service.name | bold}} el {{appointment.start}}?\n\n1. Sí\n2. No"
+    }
+  },
+  "cancellation.confirm_invalid": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Responda 1 para cancelar o horário ou 2 para mantê-lo.",
+      "en": "Reply 1 to cancel the appointment or 2 to keep it.",
+      "es": "Responde 1 para cancelar la cita o 2 para mantenerla."
+    }
+  },
+  "cancellation.kept": {
+    variables: { "service.name": "text", "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "Tudo bem, {{service.name | bold}} em {{appointment.start}} continua marcado.",
+      "en": "All right, {{service.name | bold}} on {{appointment.start}} is still on.",
+      "es": "Está bien, {{service.name | bold}} del {{appointment.start}} sigue en pie."
+    }
+  },
+  "reschedule.choose": {
+    variables: { "appointments": { each: "appointment.summary" } },
+    required: ["appointments"],
+    defaults: {
+      "pt-BR": "Qual agendamento você quer remarcar?\n\n{{appointments}}\n\n0. Voltar",
+      "en": "Which appointment do you want to reschedule?\n\n{{appointments}}\n\n0. Back",
+      "es": "¿Qué cita quieres cambiar?\n\n{{appointments}}\n\n0. Volver"
+    }
+  },
+  "reschedule.choose_day": {
+    variables: { "service.name": "text", "appointment.start": "datetime", "days": { list: "date" } },
+    required: ["days"],
+    defaults: {
+      "pt-BR": "Vamos remarcar {{service.name | bold}} em {{appointment.start}}. Qual dia você prefere?\n\n{{days}}\n\n0. Cancelar",
+      "en": "Let's move {{service.name | bold}} on {{appointment.start}}. Which day works best for you?\n\n{{days}}\n\n0. Cancel",
+      "es": "Vamos a cambiar {{service.name | bold}} del {{appointment.start}}. ¿Qué día prefieres?\n\n{{days}}\n\n0. Cancelar"
+    }
+  },
+  "reschedule.confirm": {
+    variables: { "service.name": "text", "appointment.start": "datetime", "slot.start": "datetime" },
+    defaults: {
+      "pt-BR": "Confirma a mudança de {{service.name | bold}} em {{appointment.start}} para {{slot.start}}?\n\n1. Sim\n2. Não",
+      "en": "Move {{service.name | bold}} from {{appointment.start}} to {{slot.start}}?\n\n1. Yes\n2. No",
+      "es": "¿Confirmas el cambio de {{service.name | bold}} del {{appointment.start}} al {{slot.start}}?\n\n1. Sí\n2. No"
+    }
+  },
+  "reschedule.done": {
+    variables: { "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "✅ Horário remarcado para {{appointment.start}}. Até lá!",
+      "en": "✅ Moved to {{appointment.start}}. See you then!",
+      "es": "✅ Cita cambiada al {{appointment.start}}. ¡Hasta entonces!"
+    }
+  },
+  "reminder.day_before": {
+    variables: { "service.name": "text", "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "⏰ Lembrete: seu horário é amanhã, {{appointment.start}}.\n\nResponda *1* para confirmar ou *2* para cancelar.",
+      "en": "⏰ Reminder: your appointment is tomorrow, {{appointment.start}}.\n\nReply *1* to confirm or *2* to cancel.",
+      "es": "⏰ Recordatorio: tu cita es mañana, {{appointment.start}}.\n\nResponde *1* para confirmar o *2* para cancelar."
+    }
+  },
+  "reminder.hour_before": {
+    variables: { "service.name": "text", "appointment.start": "datetime" },
+    defaults: {
+      "pt-BR": "⏰ Lembrete: seu horário é daqui a 1 hora, {{appointment.start}}.\n\nResponda *1* para confirmar ou *2* para cancelar.",
+      "en": "⏰ Reminder: your appointment is in 1 hour, {{appointment.start}}.\n\nReply *1* to confirm or *2* to cancel.",
+      "es": "⏰ Recordatorio: tu cita es en 1 hora, {{appointment.start}}.\n\nResponde *1* para confirmar o *2* para cancelar."
+    }
+  },
+  "invite.caption": {
+    variables: { "service.name": "text" },
+    defaults: {
+      "pt-BR": "📅 Adicione à sua agenda",
+      "en": "📅 Add it to your calendar",
+      "es": "📅 Agrégala a tu calendario"
+    }
+  },
+  // Description of the calendar event, left out when it renders empty
+  "invite.description": {
+    variables: { "professional.name": "text" },
+    defaults: {
+      "pt-BR": "{{#professional.name}}Com {{professional.name}}{{/professional.name}}",
+      "en": "{{#professional.name}}With {{professional.name}}{{/professional.name}}",
+      "es": "{{#professional.name}}Con {{professional.name}}{{/professional.name}}"
+    }
+  },
+  // Name of a service taken off the menu, its appointments keep showing up
+  "service.removed": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Atendimento",
+      "en": "Appointment",
+      "es": "Cita"
+    }
+  },
+  // Calendar feed of a professional, written in DEFAULT_LOCALE
+  "calendar.name": {
+    variables: { "professional.name": "text" },
+    defaults: {
+      "pt-BR": "Agenda de {{professional.name}}",
+      "en": "{{professional.name}}'s schedule",
+      "es": "Agenda de {{professional.name}}"
+    }
+  },
+  "calendar.summary": {
+    variables: { "service.name": "text", "customer.phone": "text" },
+    defaults: {
+      "pt-BR": "{{service.name}} · {{#customer.phone}}{{customer.phone}}{{/customer.phone}}{{^customer.phone}}cliente{{/customer.phone}}",
+      "en": "{{service.name}} · {{#customer.phone}}{{customer.phone}}{{/customer.phone}}{{^customer.phone}}customer{{/customer.phone}}",
+      "es": "{{service.name}} · {{#customer.phone}}{{customer.phone}}{{/customer.phone}}{{^customer.phone}}cliente{{/customer.phone}}"
+    }
+  },
+  // Left out when it renders empty
+  "calendar.description": {
+    variables: { "customer.phone": "text" },
+    defaults: {
+      "pt-BR": "{{#customer.phone}}Cliente: +{{customer.phone}}{{/customer.phone}}",
+      "en": "{{#customer.phone}}Customer: +{{customer.phone}}{{/customer.phone}}",
+      "es": "{{#customer.phone}}Cliente: +{{customer.phone}}{{/customer.phone}}"
+    }
+  },
+  // Answers "quanto custa?" outside a booking
+  "info.prices": {
+    variables: { "services": { each: "info.price" } },
+    required: ["services"],
+    defaults: {
+      "pt-BR": "Nossos serviços:\n\n{{services}}\n\nEnvie *agendar* para marcar um horário.",
+      "en": "Our services:\n\n{{services}}\n\nSend *book* to make an appointment.",
+      "es": "Nuestros servicios:\n\n{{services}}\n\nEnvía *agendar* para reservar una cita."
+    }
+  },
+  "info.price": {
+    variables: { "service.name": "text", "service.price": "money", "service.duration_minutes": "number" },
+    defaults: {
+      "pt-BR": "{{service.name}}: {{service.price}} ({{service.duration_minutes}} min)",
+      "en": "{{service.name}}: {{service.price}} ({{service.duration_minutes}} min)",
+      "es": "{{service.name}}: {{service.price}} ({{service.duration_minutes}} min)"
+    }
+  },
+  "info.address": {
+    variables: { "address": "text" },
+    required: ["address"],
+    defaults: {
+      "pt-BR": "Estamos em {{address}}. Envie *agendar* para marcar um horário.",
+      "en": "We are at {{address}}. Send *book* to make an appointment.",
+      "es": "Estamos en {{address}}. Envía *agendar* para reservar una cita."
+    }
+  },
+  // Sent when the customer asks for a person, the bot stays quiet until the chat is released
+  "handoff.requested": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Certo, vou chamar alguém da equipe para falar com você. Aguarde um instante.",
+      "en": "Sure, someone from our team will be with you shortly.",
+      "es": "Claro, alguien de nuestro equipo te atenderá en un momento."
+    }
+  },
+  "after_hours.notice": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Olá! Nossa equipe está fora do horário de atendimento e responde assim que voltar. Você pode agendar por aqui a qualquer hora.",
+      "en": "Hi! Our team is outside business hours and will reply as soon as they are back. You can book here at any time.",
+      "es": "¡Hola! Nuestro equipo está fuera del horario de atención y responderá en cuanto vuelva. Puedes reservar por aquí en cualquier momento."
+    }
+  },
+  "opt_out.confirmed": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Pronto, você não receberá mais mensagens automáticas. Envie *VOLTAR* se mudar de ideia.",
+      "en": "Done, you won't get automatic messages anymore. Send *START* if you change your mind.",
+      "es": "Listo, ya no recibirás mensajes automáticos. Envía *START* si cambias de opinión."
+    }
+  },
+  "opt_out.welcome_back": {
+    variables: {},
+    defaults: {
+      "pt-BR": "Que bom ter você de volta! Envie *oi* para agendar um horário.",
+      "en": "Welcome back! Send *hi* to book an appointment.",
+      "es": "¡Qué bueno tenerte de vuelta! Envía *hola* para reservar una cita."
+    }
+  }
+} as const satisfies Record<string, TemplateDefinition>
+
+type Templates = typeof TEMPLATES
+
+export type TemplateName = keyof Templates
+
+type ValueOf<S> =
+  S extends "number" | "money" ? number
+  : S extends ValueKind ? string | null
+  : S extends { readonly list: infer K } ? ReadonlyArray<ValueOf<K>>
+  : S extends { readonly each: infer N extends TemplateName } ? ReadonlyArray<TemplateVariables<N>>
+  : never
+
+// Values a template is rendered with, keyed by variable name
+export type TemplateVariables<N extends TemplateName> = {
+  readonly [K in keyof Templates[N]["variables"]]: ValueOf<Templates[N]["variables"][K]>
+}
+
+export type TemplateValue = string | number | null | ReadonlyArray<TemplateValue> | VariableValues
+
+export interface VariableValues {
+  readonly [name: string]: TemplateValue
+}
+
+// A template and its values, checked against the catalog where it is built
+export interface TemplateMessage {
+  readonly template: TemplateName
+  readonly variables: VariableValues
+}
+
+export const templateMessage = <N extends TemplateName>(template: N, variables: TemplateVariables<N>): TemplateMessage =>
+  ({ template, variables: variables as VariableValues })
+
+export const TEMPLATE_NAMES = Object.keys(TEMPLATES) as ReadonlyArray<TemplateName>
+
+export const isTemplateName = (name: string): name is TemplateName => Object.hasOwn(TEMPLATES, name)
+
+const definitionOf = (name: TemplateName): TemplateDefinition => TEMPLATES[name]
+
+export const defaultBody = (name: TemplateName, locale: Locale): string => definitionOf(name).defaults[locale]
+
+export const templateVariables = (name: TemplateName): ReadonlyArray<string> => Object.keys(definitionOf(name).variables)
+
+type Node =
+  | { readonly _tag: "Text", readonly text: string }
+  | { readonly _tag: "Variable", readonly name: string, readonly formats: ReadonlyArray<string> }
+  | { readonly _tag: "Section", readonly name: string, readonly inverted: boolean, readonly nodes: ReadonlyArray<Node> }
+
+interface Frame {
+  readonly name: string
+  readonly inverted: boolean
+  readonly nodes: Node[]
+}
+
+const TAG = /\{\{\s*([#^/]?)\s*([\w.]+)\s*((?:\|\s*\w+\s*)*)\}\}/g
+
+const STYLES: Record<string, string> = {
+  bold: "*",
+  italic: "_",
+  strike: "~",
+  mono: "```"
+}
+
+// "sexta ou sábado", in the words of the locale
+const JOINS: Record<string, Intl.ListFormatType> = {
+  or: "disjunction",
+  and: "conjunction"
+}
+
+// Conversions each kind accepts on top of the styles
+const CONVERSIONS: Record<ValueKind, ReadonlyArray<string>> = {
+  text: [],
+  number: [],
+  money: [],
+  date: ["weekday"],
+  time: [],
+  datetime: ["date", "time", "weekday"]
+}
+
+const parseTemplate = (body: string): Either.Either<ReadonlyArray<Node>, string> => {
+  const stack: Frame[] = [{ name: "", inverted: false, nodes: [] }]
+  let position = 0
+
+  const addText = (text: string): string | null => {
+    if (/\{\{|\}\}/.test(text)) return `Malformed tag in "${text.trim()}"`
+    if (text.length > 0) stack[stack.length - 1]!.nodes.push({ _tag: "Text", text })
+    return null
+  }
+
+  for (const match of body.matchAll(TAG)) {
+    const problem = addText(body.slice(position, match.index))
+    if (problem) return Either.left(problem)
+    position = match.index + match[0].length
+
+    const [tag, sigil, name = "", pipes = ""] = match
+    const formats = pipes.split('|').map((format) => format.trim()).filter((format) => format.length > 0)
+
+    if (sigil === "#" || sigil === "^") {
+      if (formats.length > 0) return Either.left(`${tag} cannot have formats`)
+      stack.push({ name, inverted: sigil === "^", nodes: [] })
+    } else if (sigil === "/") {
+      const frame = stack.pop()!
+      if (stack.length === 0 || frame.name !== name) return Either.left(`${tag} does not close an open section`)
+      stack[stack.length - 1]!.nodes.push({ _tag: "Section", name, inverted: frame.inverted, nodes: frame.nodes })
+    } else {
+      stack[stack.length - 1]!.nodes.push({ _tag: "Variable", name, formats })
+    }
+  }
+
+  const problem = addText(body.slice(position))
+  if (problem) return Either.left(problem)
+  if (stack.length > 1) return Either.left(`{{#${stack[stack.length - 1]!.name}}} is never closed`)
+
+  return Either.right(stack[0]!.nodes)
+}
+
+const kindName = (spec: VariableSpec): string =>
+  typeof spec === "string" ? spec : "list"
+
+const checkNodes = (nodes: ReadonlyArray<Node>, definition: TemplateDefinition, used: Set<string>): string[] =>
+  nodes.flatMap((node): string[] => {
+    if (node._tag === "Text") return []
+
+    const spec = definition.variables[node.name]
+    if (spec === undefined) return [`Unknown variable {{${node.name}}}`]
+
+    if (node._tag === "Section") return checkNodes(node.nodes, definition, used)
+
+    used.add(node.name)
+    const allowed = typeof spec === "string"
+      ? [...Object.keys(STYLES), ...CONVERSIONS[spec]]
+      : "list" in spec ? Object.keys(JOINS) : []
+    return node.formats
+      .filter((format) => !allowed.includes(format))
+      .map((format) => `"${format}" does not apply to {{${node.name}}}, a ${kindName(spec)}`)
+  })
+
+// Problems of a body for the named template, none when it can be saved
+export const validateTemplate = (name: TemplateName, body: string): ReadonlyArray<string> =>
+  Either.match(parseTemplate(body), {
+    onLeft: (problem) => [problem],
+    onRight: (nodes) => {
+      const definition = definitionOf(name)
+      const used = new Set<string>()
+      const problems = checkNodes(nodes, definition, used)
+      const missing = (definition.required ?? [])
+        .filter((variable) => !used.has(variable))
+        .map((variable) => `{{${variable}}} is required`)
+      return [...problems, ...missing]
+    }
+  })
+
+export interface RenderContext {
+  readonly locale: Locale
+  readonly timeZone: string
+  // ISO 4217 code of money values
+  readonly currency: string
+  // Current body of a template in this locale, for the items of a list
+  readonly bodyOf: (name: TemplateName) => string
+}
+
+const DATE: Intl.DateTimeFormatOptions = { weekday: "long", day: "2-digit", month: "2-digit" }
+const WEEKDAY: Intl.DateTimeFormatOptions = { weekday: "long" }
+const TIME: Intl.DateTimeFormatOptions = { hour: "2-digit", minute: "2-digit" }
+const DATETIME: Intl.DateTimeFormatOptions = { ...DATE, ...TIME }
+
+const formatInstant = (iso: string, options: Intl.DateTimeFormatOptions, context: RenderContext): string =>
+  new Intl.DateTimeFormat(context.locale, { ...options, timeZone: context.timeZone }).format(new Date(iso))
+
+// A day is already a date of the business, read at UTC midnight so no zone moves it
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions, context: RenderContext): string =>
+  new Intl.DateTimeFormat(context.locale, { ...options, timeZone: "UTC" }).format(new Date(`${day}T00:00:00.000Z`))
+
+const formatScalar = (kind: ValueKind, value: string | number, conversion: string | undefined, context: RenderContext): string => {
+  switch (kind) {
+    case "text":
+      return String(value)
+    case "number":
+      return new Intl.NumberFormat(context.locale).format(Number(value))
+    case "money":
+      return new Intl.NumberFormat(context.locale, { style: "currency", currency: context.currency }).format(Number(value) / 100)
+    case "date":
+      return formatDay(String(value), conversion === "weekday" ? WEEKDAY : DATE, context)
+    case "time":
+      return formatInstant(String(value), TIME, context)
+    case "datetime":
+      return formatInstant(
+        String(value),
+        conversion === "date" ? DATE : conversion === "time" ? TIME : conversion === "weekday" ? WEEKDAY : DATETIME,
+        context
+      )
+  }
+}
+
+// WhatsApp ignores markers around leading or trailing spaces, they go outside
+const applyStyle = (text: string, style: string): string => {
+  const marker = STYLES[style]!
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s)!
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text
+}
+
+const numbered = (items: ReadonlyArray<string>): string =>
+  items.map((item, index) => `${index + 1}. ${item}`).join("\n")
+
+const isSet = (value: TemplateValue | undefined): boolean =>
+  value !== undefined && value !== null && value !== "" && value !== 0 && !(Array.isArray(value) && value.length === 0)
+
+const renderValue = (spec: VariableSpec, value: TemplateValue | undefined, formats: ReadonlyArray<string>, context: RenderContext): string => {
+  if (value === undefined || value === null) return ""
+
+  if (typeof spec === "string") {
+    if (typeof value !== "string" && typeof value !== "number") return ""
+    const conversion = formats.find((format) => CONVERSIONS[spec].includes(format))
+    return formats
+      .filter((format) => format in STYLES)
+      .reduce(applyStyle, formatScalar(spec, value, conversion, context))
+  }
+
+  if (!Array.isArray(value)) return ""
+  const items = value as ReadonlyArray<TemplateValue>
+
+  if ("list" in spec) {
+    const rendered = items.map((item) => renderValue(spec.list, item, [], context))
+    const join = formats.find((format) => format in JOINS)
+    return join ? new Intl.ListFormat(context.locale, { type: JOINS[join] }).format(rendered) : numbered(rendered)
+  }
+
+  return numbered(items.map((item) =>
+    isTemplateName(spec.each) && typeof item === "object" && item !== null && !Array.isArray(item)
+      ? renderTemplate(spec.each, item as VariableValues, context)
+      : ""
+  ))
+}
+
+const renderNodes = (nodes: ReadonlyArray<Node>, definition: TemplateDefinition, variables: VariableValues, context: RenderContext): string =>
+  nodes
+    .map((node) => {
+      switch (node._tag) {
+        case "Text":
+          return node.text
+        case "Section":
+          return isSet(variables[node.name]) !== node.inverted ? renderNodes(node.nodes, definition, variables, context) : ""
+        case "Variable": {
+          const spec = definition.variables[node.name]
+          return spec === undefined ? "" : renderValue(spec, variables[node.name], node.formats, context)
+        }
+      }
+    })
+    .join("")
+
+// A body that does not parse, which saving rejects, is sent as it is written
+export const renderTemplate = (name: TemplateName, variables: VariableValues, context: RenderContext): string => {
+  const body = context.bodyOf(name)
+  return Either.match(parseTemplate(body), {
+    onLeft: () => body,
+    onRight: (nodes) => renderNodes(nodes, definitionOf(name), variables, context)
+  })
+}
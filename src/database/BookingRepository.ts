@@ -0,0 +1,555 @@
+import { Config, Effect, Context, Layer, Data, Option, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import {
+  Appointment,
+  AvailabilityBreak,
+  AvailabilityRule,
+  Closure,
+  ProfessionalRow,
+  ServiceRow,
+  Slot,
+  type AppointmentFilterSchema,
+  type AppointmentStatus,
+  type BookSlotSchema,
+  type Professional,
+  type Service,
+  type SlotQuerySchema
+} from "./Schema.js"
+import { DecodeError, findAll, findOne, isUniqueViolation, single } from "./Rows.js"
+import { BookingPolicy, addDays, bookableSlots, dayBounds, localDate } from "../booking/Availability.js"
+
+export class ServiceNotFound extends Data.TaggedError("ServiceNotFound")<{
+  readonly serviceId: string
+}> {}
+
+export class ProfessionalNotFound extends Data.TaggedError("ProfessionalNotFound")<{
+  readonly professionalId: string
+}> {}
+
+export class AppointmentNotFound extends Data.TaggedError("AppointmentNotFound")<{
+  readonly appointmentId: string
+}> {}
+
+// Only pending and confirmed appointments can be cancelled
+export class AppointmentNotCancellable extends Data.TaggedError("AppointmentNotCancellable")<{
+  readonly appointmentId: string
+  readonly status: AppointmentStatus
+}> {}
+
+export class SlotUnavailable extends Data.TaggedError("SlotUnavailable")<{
+  readonly professionalId: string
+  readonly startAt: string
+}> {}
+
+export class BookingRepository extends Context.Tag("BookingRepository")<
+  BookingRepository,
+  {
+    readonly listServices: () => Effect.Effect<Service[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listProfessionals: () => Effect.Effect<Professional[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Secret of the professional's calendar feed, created on first use or replaced when rotating
+    readonly calendarToken: (professionalId: string, rotate: boolean) => Effect.Effect<string, SqlError.SqlError | DecodeError | ProfessionalNotFound, SqliteClient.SqliteClient>
+    readonly findProfessionalByCalendarToken: (token: string) => Effect.Effect<Option.Option<Professional>, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listFreeSlots: (query: Schema.Schema.Type<typeof SlotQuerySchema>) => Effect.Effect<Slot[], SqlError.SqlError | DecodeError | ServiceNotFound, SqliteClient.SqliteClient>
+    readonly bookSlot: (request: Schema.Schema.Type<typeof BookSlotSchema>) => Effect.Effect<Appointment, SqlError.SqlError | DecodeError | ServiceNotFound | SlotUnavailable, SqliteClient.SqliteClient>
+    readonly reschedule: (appointmentId: string, startAt: string) => Effect.Effect<Appointment, SqlError.SqlError | DecodeError | AppointmentNotFound | ServiceNotFound | SlotUnavailable, SqliteClient.SqliteClient>
+    readonly confirm: (appointmentId: string) => Effect.Effect<Appointment, SqlError.SqlError | DecodeError | AppointmentNotFound, SqliteClient.SqliteClient>
+    readonly cancel: (appointmentId: string) => Effect.Effect<Appointment, SqlError.SqlError | DecodeError | AppointmentNotFound | AppointmentNotCancellable, SqliteClient.SqliteClient>
+    readonly getAppointment: (appointmentId: string) => Effect.Effect<Appointment, SqlError.SqlError | DecodeError | AppointmentNotFound, SqliteClient.SqliteClient>
+    readonly getAppointmentsByChat: (chatId: string) => Effect.Effect<Appointment[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Active appointments of a customer starting after the given time, soonest first
+    readonly getUpcomingAppointments: (sessionId: string, customerPhone: string | null, chatId: string, after: string) => Effect.Effect<Appointment[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listAppointments: (filter: Schema.Schema.Type<typeof AppointmentFilterSchema>) => Effect.Effect<Appointment[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+type Policy = Config.Config.Success<typeof BookingPolicy>
+
+const TakenInterval = Schema.Struct({
+  id: Schema.String,
+  professionalId: Schema.String,
+  startAt: Schema.String,
+  endAt: Schema.String,
+  bufferMinutes: Schema.Int
+})
+
+const HolidayDay = Schema.Struct({
+  day: Schema.String
+})
+
+const CalendarToken = Schema.Struct({
+  calendarToken: Schema.String
+})
+
+// Runs the whole check-then-write sequence inside one SQLite transaction
+const transactional = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.flatMap(SqliteClient.SqliteClient, (sql) => sql.withTransaction(effect))
+
+const findService = (sql: SqliteClient.SqliteClient, serviceId: string) =>
+  Effect.gen(function* () {
+    return yield* sql`
+      SELECT
+        id,
+        name,
+        duration_minutes as "durationMinutes",
+        buffer_minutes as "bufferMinutes",
+        price_cents as "priceCents",
+        active
+      FROM services
+      WHERE id = ${serviceId} AND active = true
+    `.pipe(single(ServiceRow, () => new ServiceNotFound({ serviceId })))
+  })
+
+const findAppointment = (sql: SqliteClient.SqliteClient, appointmentId: string) =>
+  Effect.gen(function* () {
+    return yield* sql`
+      SELECT
+        id,
+        session_id as "sessionId",
+        chat_id,
+        customer_phone as "customerPhone",
+        professional_id as "professionalId",
+        service_id as "serviceId",
+        start_at as "startAt",
+        end_at as "endAt",
+        status,
+        sequence,
+        created_at as "createdAt",
+        updated_at as "updatedAt"
+      FROM appointments
+      WHERE id = ${appointmentId}
+    `.pipe(single(Appointment, () => new AppointmentNotFound({ appointmentId })))
+  })
+
+// Loads the calendar of the professionals and runs the availability engine on every
+// day of the business time zone the range touches
+const computeFreeSlots = (
+  sql: SqliteClient.SqliteClient,
+  policy: Policy,
+  service: Service,
+  range: { professionalId?: string | undefined, from: string, to: string },
+  ignoreAppointmentId?: string
+) =>
+  Effect.gen(function* () {
+    const professionalId = range.professionalId ?? null
+
+    const rules = yield* sql`
+      SELECT
+        r.id,
+        r.professional_id as "professionalId",
+        r.weekday,
+        r.start_time as "startTime",
+        r.end_time as "endTime"
+      FROM availability_rules r
+      JOIN professionals p ON p.id = r.professional_id
+      WHERE p.active = true
+        AND (${professionalId} IS NULL OR r.professional_id = ${professionalId})
+    `.pipe(findAll(AvailabilityRule))
+
+    const breaks = yield* sql`
+      SELECT
+        id,
+        professional_id as "professionalId",
+        weekday,
+        start_time as "startTime",
+        end_time as "endTime"
+      FROM availability_breaks
+      WHERE (${professionalId} IS NULL OR professional_id = ${professionalId})
+    `.pipe(findAll(AvailabilityBreak))
+
+    const firstDay = localDate(range.from, policy.timeZone)
+    const lastDay = localDate(new Date(new Date(range.to).getTime() - 1).toISOString(), policy.timeZone)
+
+    const holidays = yield* sql`
+      SELECT day FROM holidays WHERE day BETWEEN ${firstDay} AND ${lastDay}
+    `.pipe(findAll(HolidayDay))
+
+    const closures = yield* sql`
+      SELECT
+        id,
+        professional_id as "professionalId",
+        start_at as "startAt",
+        end_at as "endAt",
+        reason
+      FROM closures
+      WHERE start_at < ${range.to} AND end_at > ${range.from}
+    `.pipe(findAll(Closure))
+
+    // The buffer of an appointment may reach into the range from before it
+    const taken = yield* sql`
+      SELECT
+        a.id,
+        a.professional_id as "professionalId",
+        a.start_at as "startAt",
+        a.end_at as "endAt",
+        s.buffer_minutes as "bufferMinutes"
+      FROM appointments a
+      JOIN services s ON s.id = a.service_id
+      WHERE a.status IN ('pending', 'confirmed')
+        AND a.start_at < ${range.to}
+        AND datetime(a.end_at, '+' || s.buffer_minutes || ' minutes') > datetime(${range.from})
+        AND a.id != ${ignoreAppointmentId ?? ''}
+    `.pipe(findAll(TakenInterval))
+
+    const now = new Date().toISOString()
+    const professionals = [...new Set(rules.map((rule) => rule.professionalId))]
+    const slots: Slot[] = []
+
+    for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+      for (const professional of professionals) {
+        const daySlots = bookableSlots({
+          day,
+          timeZone: policy.timeZone,
+          now,
+          service,
+          hours: rules.filter((rule) => rule.professionalId === professional),
+          breaks: breaks.filter((pause) => pause.professionalId === professional),
+          holidays: holidays.map((holiday) => holiday.day),
+          closures: closures.filter((closure) => closure.professionalId === null || closure.professionalId === professional),
+          bookings: taken.filter((appointment) => appointment.professionalId === professional),
+          limits: policy
+        })
+
+        for (const slot of daySlots) {
+          if (slot.startAt < range.from || slot.endAt > range.to) continue
+
+          slots.push(Slot.make({
+            professionalId: professional,
+            serviceId: service.id,
+            startAt: slot.startAt,
+            endAt: slot.endAt
+          }))
+        }
+      }
+    }
+
+    return slots.sort((a, b) => a.startAt.localeCompare(b.startAt))
+  })
+
+// Checks that the requested start is still one of the free slots of that professional
+const ensureSlotFree = (
+  sql: SqliteClient.SqliteClient,
+  policy: Policy,
+  service: Service,
+  professionalId: string,
+  startAt: string,
+  ignoreAppointmentId?: string
+) =>
+  Effect.gen(function* () {
+    const start = new Date(startAt).getTime()
+    const day = dayBounds(localDate(startAt, policy.timeZone), policy.timeZone)
+
+    const slots = yield* computeFreeSlots(
+      sql,
+      policy,
+      service,
+      { professionalId, from: day.startAt, to: day.endAt },
+      ignoreAppointmentId
+    )
+
+    const slot = slots.find((candidate) => new Date(candidate.startAt).getTime() === start)
+
+    if (!slot) {
+      return yield* Effect.fail(new SlotUnavailable({ professionalId, startAt }))
+    }
+
+    return slot
+  })
+
+export const BookingRepositoryLive = Layer.effect(
+  BookingRepository,
+  Effect.gen(function* () {
+    const policy = yield* BookingPolicy
+
+    return {
+      listServices: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              name,
+              duration_minutes as "durationMinutes",
+              buffer_minutes as "bufferMinutes",
+              price_cents as "priceCents",
+              active
+            FROM services
+            WHERE active = true
+            ORDER BY name ASC
+          `.pipe(findAll(ServiceRow))
+        }),
+
+      listProfessionals: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT id, name, active
+            FROM professionals
+            WHERE active = true
+            ORDER BY name ASC
+          `.pipe(findAll(ProfessionalRow))
+        }),
+
+      calendarToken: (professionalId, rotate) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const token = crypto.randomUUID().replaceAll('-', '')
+          const row = yield* sql`
+            UPDATE professionals
+            SET calendar_token = ${rotate ? sql`${token}` : sql`COALESCE(calendar_token, ${token})`}
+            WHERE id = ${professionalId}
+            RETURNING calendar_token as "calendarToken"
+          `.pipe(single(CalendarToken, () => new ProfessionalNotFound({ professionalId })))
+
+          return row.calendarToken
+        }),
+
+      findProfessionalByCalendarToken: (token) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT id, name, active
+            FROM professionals
+            WHERE calendar_token = ${token}
+          `.pipe(findOne(ProfessionalRow))
+        }),
+
+      listFreeSlots: (query) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const service = yield* findService(sql, query.serviceId)
+
+          return yield* computeFreeSlots(sql, policy, service, query)
+        }),
+
+      bookSlot: (request) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const service = yield* findService(sql, request.serviceId)
+          const slot = yield* ensureSlotFree(sql, policy, service, request.professionalId, request.startAt)
+          const taken = () => new SlotUnavailable({ professionalId: request.professionalId, startAt: request.startAt })
+
+          return yield* sql`
+            INSERT INTO appointments (
+              id, session_id, chat_id, customer_phone, professional_id, service_id,
+              start_at, end_at, status
+            ) VALUES (
+              ${crypto.randomUUID()}, ${request.sessionId}, ${request.chat_id}, ${request.customerPhone},
+              ${request.professionalId}, ${request.serviceId},
+              ${slot.startAt}, ${slot.endAt}, 'pending'
+            )
+            RETURNING
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+          `.pipe(
+            // The partial unique index on active slots is the last word on double-booking
+            Effect.catchTag("SqlError", (error) => Effect.fail(isUniqueViolation(error) ? taken() : error)),
+            single(Appointment, taken)
+          )
+        }).pipe(transactional),
+
+      reschedule: (appointmentId, startAt) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const appointment = yield* findAppointment(sql, appointmentId)
+          if (appointment.status === "cancelled" || appointment.status === "no-show") {
+            return yield* Effect.fail(new SlotUnavailable({ professionalId: appointment.professionalId, startAt }))
+          }
+
+          const service = yield* findService(sql, appointment.serviceId)
+          const slot = yield* ensureSlotFree(sql, policy, service, appointment.professionalId, startAt, appointmentId)
+
+          return yield* sql`
+            UPDATE appointments
+            SET start_at = ${slot.startAt},
+                end_at = ${slot.endAt},
+                status = 'pending',
+                sequence = sequence + 1,
+                updated_at = datetime('now')
+            WHERE id = ${appointmentId}
+            RETURNING
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+          `.pipe(single(Appointment, () => new AppointmentNotFound({ appointmentId })))
+        }).pipe(transactional),
+
+      confirm: (appointmentId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            UPDATE appointments
+            SET status = 'confirmed',
+                sequence = sequence + (status != 'confirmed'),
+                updated_at = datetime('now')
+            WHERE id = ${appointmentId} AND status IN ('pending', 'confirmed')
+            RETURNING
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+          `.pipe(single(Appointment, () => new AppointmentNotFound({ appointmentId })))
+        }),
+
+      cancel: (appointmentId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const appointment = yield* findAppointment(sql, appointmentId)
+          if (appointment.status !== "pending" && appointment.status !== "confirmed") {
+            return yield* new AppointmentNotCancellable({ appointmentId, status: appointment.status })
+          }
+
+          return yield* sql`
+            UPDATE appointments
+            SET status = 'cancelled',
+                sequence = sequence + 1,
+                updated_at = datetime('now')
+            WHERE id = ${appointmentId}
+            RETURNING
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+          `.pipe(single(Appointment, () => new AppointmentNotFound({ appointmentId })))
+        }).pipe(transactional),
+
+      getAppointment: (appointmentId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* findAppointment(sql, appointmentId)
+        }),
+
+      getAppointmentsByChat: (chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+            FROM appointments
+            WHERE chat_id = ${chatId}
+            ORDER BY start_at ASC
+          `.pipe(findAll(Appointment))
+        }),
+
+      getUpcomingAppointments: (sessionId, customerPhone, chatId, after) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          // A customer whose number is hidden behind a LID is found by their chat
+          const customer = customerPhone !== null ? sql`customer_phone = ${customerPhone}` : sql`chat_id = ${chatId}`
+
+          return yield* sql`
+            SELECT
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+            FROM appointments
+            WHERE session_id = ${sessionId}
+              AND ${customer}
+              AND status IN ('pending', 'confirmed')
+              AND start_at >= ${after}
+            ORDER BY start_at ASC
+          `.pipe(findAll(Appointment))
+        }),
+
+      listAppointments: (filter) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const conditions = [
+            filter.sessionId !== undefined ? sql`session_id = ${filter.sessionId}` : undefined,
+            filter.chatId !== undefined ? sql`chat_id = ${filter.chatId}` : undefined,
+            filter.professionalId !== undefined ? sql`professional_id = ${filter.professionalId}` : undefined,
+            filter.status !== undefined ? sql`status = ${filter.status}` : undefined,
+            filter.from !== undefined ? sql`start_at >= ${filter.from}` : undefined,
+            filter.to !== undefined ? sql`start_at < ${filter.to}` : undefined
+          ].filter((condition) => condition !== undefined)
+
+          return yield* sql`
+            SELECT
+              id,
+              session_id as "sessionId",
+              chat_id,
+              customer_phone as "customerPhone",
+              professional_id as "professionalId",
+              service_id as "serviceId",
+              start_at as "startAt",
+              end_at as "endAt",
+              status,
+              sequence,
+              created_at as "createdAt",
+              updated_at as "updatedAt"
+            FROM appointments
+            WHERE ${sql.and(conditions)}
+            ORDER BY start_at ASC
+          `.pipe(findAll(Appointment))
+        })
+    }
+  })
+)
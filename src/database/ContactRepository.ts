@@ -0,0 +1,284 @@
+import { Effect, Context, Layer, Option, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { Contact, GroupParticipant, type ParticipantRole } from "./Schema.js"
+import { DecodeError, findAll, findOne, single } from "./Rows.js"
+
+// What WhatsApp told us about a user, at least one of phoneJid and lid is set.
+// A missing name leaves the stored one as it is.
+export interface ContactUpdate {
+  readonly phoneJid: string | null
+  readonly lid: string | null
+  readonly pushName?: string | null
+  readonly savedName?: string | null
+  readonly verifiedName?: string | null
+}
+
+export interface ChatUpdate {
+  readonly chatId: string
+  readonly isGroup: boolean
+  readonly name?: string | null
+  readonly unreadCount?: number | null
+}
+
+export interface ParticipantUpdate {
+  readonly contact: ContactUpdate
+  readonly role: Schema.Schema.Type<typeof ParticipantRole>
+}
+
+export type ParticipantAction = "add" | "remove" | "promote" | "demote"
+
+export class ContactRepository extends Context.Tag("ContactRepository")<
+  ContactRepository,
+  {
+    readonly saveContact: (sessionId: string, update: ContactUpdate) => Effect.Effect<Contact, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly getContact: (contactId: number) => Effect.Effect<Option.Option<Contact>, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listContacts: (sessionId: string) => Effect.Effect<Contact[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly saveChat: (sessionId: string, update: ChatUpdate) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    // Replaces the member list when participants are given
+    readonly saveGroup: (sessionId: string, chatId: string, subject: string | null, participants: ReadonlyArray<ParticipantUpdate> | null) => Effect.Effect<void, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly updateParticipants: (sessionId: string, chatId: string, contacts: ReadonlyArray<ContactUpdate>, action: ParticipantAction) => Effect.Effect<void, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly getParticipants: (sessionId: string, chatId: string) => Effect.Effect<GroupParticipant[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+const transactional = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.flatMap(SqliteClient.SqliteClient, (sql) => sql.withTransaction(effect))
+
+const findContact = (sessionId: string, column: "jid" | "lid", value: string) =>
+  Effect.gen(function* () {
+    const sql = yield* SqliteClient.SqliteClient
+
+    return yield* sql`
+      SELECT
+        id,
+        session_id as "sessionId",
+        jid,
+        lid,
+        phone,
+        push_name as "pushName",
+        saved_name as "savedName",
+        verified_name as "verifiedName",
+        updated_at as "updatedAt"
+      FROM contacts
+      WHERE session_id = ${sessionId} AND ${sql(column)} = ${value}
+    `.pipe(findOne(Contact))
+  })
+
+// The LID row of a user whose number just became known is folded into the number's row
+const mergeInto = (target: Contact, duplicate: Contact) =>
+  Effect.gen(function* () {
+    const sql = yield* SqliteClient.SqliteClient
+
+    yield* sql`
+      UPDATE messages
+      SET contact_id = ${target.id}, from_phone = COALESCE(from_phone, ${target.phone})
+      WHERE contact_id = ${duplicate.id}
+    `
+    yield* sql`
+      UPDATE OR IGNORE group_participants SET contact_id = ${target.id}
+      WHERE contact_id = ${duplicate.id}
+    `
+    yield* sql`DELETE FROM group_participants WHERE contact_id = ${duplicate.id}`
+    yield* sql`DELETE FROM contacts WHERE id = ${duplicate.id}`
+
+    yield* sql`
+      UPDATE contacts
+      SET push_name = COALESCE(push_name, ${duplicate.pushName}),
+          saved_name = COALESCE(saved_name, ${duplicate.savedName}),
+          verified_name = COALESCE(verified_name, ${duplicate.verifiedName})
+      WHERE id = ${target.id}
+    `
+  })
+
+const saveContact = (sessionId: string, update: ContactUpdate) =>
+  Effect.gen(function* () {
+    const sql = yield* SqliteClient.SqliteClient
+    const { phoneJid, lid } = update
+
+    const byPhone = phoneJid ? yield* findContact(sessionId, "jid", phoneJid) : Option.none<Contact>()
+    const byLid = lid ? yield* findContact(sessionId, "lid", lid) : Option.none<Contact>()
+
+    if (Option.isSome(byPhone) && Option.isSome(byLid) && byPhone.value.id !== byLid.value.id) {
+      yield* mergeInto(byPhone.value, byLid.value)
+    }
+
+    const existing = Option.orElse(byPhone, () => byLid)
+    const phone = phoneJid ? phoneJid.split("@")[0]! : null
+
+    if (Option.isNone(existing)) {
+      return yield* sql`
+        INSERT INTO contacts (session_id, jid, lid, phone, push_name, saved_name, verified_name)
+        VALUES (
+          ${sessionId}, ${phoneJid ?? lid}, ${lid}, ${phone},
+          ${update.pushName ?? null}, ${update.savedName ?? null}, ${update.verifiedName ?? null}
+        )
+        RETURNING
+          id,
+          session_id as "sessionId",
+          jid,
+          lid,
+          phone,
+          push_name as "pushName",
+          saved_name as "savedName",
+          verified_name as "verifiedName",
+          updated_at as "updatedAt"
+      `.pipe(single(Contact, () => new DecodeError({ message: "Contact insert returned no row" })))
+    }
+
+    return yield* sql`
+      UPDATE contacts
+      SET jid = COALESCE(${phoneJid}, jid),
+          lid = COALESCE(${lid}, lid),
+          phone = COALESCE(${phone}, phone),
+          push_name = COALESCE(${update.pushName ?? null}, push_name),
+          saved_name = COALESCE(${update.savedName ?? null}, saved_name),
+          verified_name = COALESCE(${update.verifiedName ?? null}, verified_name),
+          updated_at = datetime('now')
+      WHERE id = ${existing.value.id}
+      RETURNING
+        id,
+        session_id as "sessionId",
+        jid,
+        lid,
+        phone,
+        push_name as "pushName",
+        saved_name as "savedName",
+        verified_name as "verifiedName",
+        updated_at as "updatedAt"
+    `.pipe(single(Contact, () => new DecodeError({ message: `Contact ${existing.value.id} disappeared` })))
+  }).pipe(transactional)
+
+const saveChat = (sessionId: string, update: ChatUpdate) =>
+  Effect.gen(function* () {
+    const sql = yield* SqliteClient.SqliteClient
+
+    yield* sql`
+      INSERT INTO chats (session_id, chat_id, name, is_group, unread_count)
+      VALUES (${sessionId}, ${update.chatId}, ${update.name ?? null}, ${update.isGroup}, ${update.unreadCount ?? 0})
+      ON CONFLICT (session_id, chat_id) DO UPDATE SET
+        name = COALESCE(${update.name ?? null}, name),
+        unread_count = COALESCE(${update.unreadCount ?? null}, unread_count),
+        updated_at = datetime('now')
+    `
+  })
+
+export const ContactRepositoryLive = Layer.effect(
+  ContactRepository,
+  Effect.gen(function* () {
+    return {
+      saveContact,
+
+      getContact: (contactId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              session_id as "sessionId",
+              jid,
+              lid,
+              phone,
+              push_name as "pushName",
+              saved_name as "savedName",
+              verified_name as "verifiedName",
+              updated_at as "updatedAt"
+            FROM contacts
+            WHERE id = ${contactId}
+          `.pipe(findOne(Contact))
+        }),
+
+      listContacts: (sessionId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              session_id as "sessionId",
+              jid,
+              lid,
+              phone,
+              push_name as "pushName",
+              saved_name as "savedName",
+              verified_name as "verifiedName",
+              updated_at as "updatedAt"
+            FROM contacts
+            WHERE session_id = ${sessionId}
+            ORDER BY COALESCE(saved_name, push_name, verified_name, jid) ASC
+          `.pipe(findAll(Contact))
+        }),
+
+      saveChat,
+
+      saveGroup: (sessionId, chatId, subject, participants) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* saveChat(sessionId, { chatId, isGroup: true, name: subject })
+          if (participants === null) return
+
+          yield* sql`DELETE FROM group_participants WHERE session_id = ${sessionId} AND chat_id = ${chatId}`
+          for (const participant of participants) {
+            const contact = yield* saveContact(sessionId, participant.contact)
+            yield* sql`
+              INSERT OR REPLACE INTO group_participants (session_id, chat_id, contact_id, role)
+              VALUES (${sessionId}, ${chatId}, ${contact.id}, ${participant.role})
+            `
+          }
+        }).pipe(transactional),
+
+      updateParticipants: (sessionId, chatId, contacts, action) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          for (const update of contacts) {
+            const contact = yield* saveContact(sessionId, update)
+
+            switch (action) {
+              case "add":
+                yield* sql`
+                  INSERT OR IGNORE INTO group_participants (session_id, chat_id, contact_id)
+                  VALUES (${sessionId}, ${chatId}, ${contact.id})
+                `
+                break
+              case "remove":
+                yield* sql`
+                  DELETE FROM group_participants
+                  WHERE session_id = ${sessionId} AND chat_id = ${chatId} AND contact_id = ${contact.id}
+                `
+                break
+              case "promote":
+              case "demote":
+                yield* sql`
+                  UPDATE group_participants
+                  SET role = ${action === "promote" ? "admin" : "member"}
+                  WHERE session_id = ${sessionId} AND chat_id = ${chatId} AND contact_id = ${contact.id}
+                `
+                break
+            }
+          }
+        }).pipe(transactional),
+
+      getParticipants: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              g.chat_id,
+              c.id as "contactId",
+              c.jid,
+              c.phone,
+              COALESCE(c.saved_name, c.push_name, c.verified_name) as "name",
+              g.role
+            FROM group_participants g
+            JOIN contacts c ON c.id = g.contact_id
+            WHERE g.session_id = ${sessionId} AND g.chat_id = ${chatId}
+            ORDER BY CASE g.role WHEN 'superadmin' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, "name" ASC
+          `.pipe(findAll(GroupParticipant))
+        })
+    }
+  })
+)
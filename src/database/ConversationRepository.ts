@@ -0,0 +1,54 @@
+import { Effect, Context, Layer, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { ConversationState, initialState } from "../booking/BookingFlow.js"
+
+const ConversationStateJson = Schema.parseJson(ConversationState)
+
+export class ConversationRepository extends Context.Tag("ConversationRepository")<
+  ConversationRepository,
+  {
+    readonly loadState: (sessionId: string, chatId: string) => Effect.Effect<ConversationState, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly saveState: (sessionId: string, chatId: string, state: ConversationState) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+export const ConversationRepositoryLive = Layer.effect(
+  ConversationRepository,
+  Effect.gen(function* () {
+    return {
+      loadState: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const result = yield* sql`
+            SELECT state FROM conversations
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+          `
+
+          if (result.length === 0) {
+            return initialState
+          }
+
+          // A state written by an older version of the flow restarts the dialogue
+          return yield* Schema.decodeUnknown(ConversationStateJson)((result[0] as { state: string }).state).pipe(
+            Effect.catchAll(() =>
+              Effect.as(Effect.log(`⚠️ Discarding unreadable conversation state for ${chatId}`), initialState)
+            )
+          )
+        }),
+
+      saveState: (sessionId, chatId, state) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const encoded = yield* Schema.encode(ConversationStateJson)(state).pipe(Effect.orDie)
+
+          yield* sql`
+            INSERT OR REPLACE INTO conversations (session_id, chat_id, state, updated_at)
+            VALUES (${sessionId}, ${chatId}, ${encoded}, datetime('now'))
+          `
+        })
+    }
+  })
+)
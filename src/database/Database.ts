@@ -0,0 +1,18 @@
+import { Config, Effect, Layer } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { runMigrations } from "./Migrations.js"
+
+export const openDatabase = Effect.gen(function* () {
+  const filename = yield* Config.string("DATABASE_FILE").pipe(Config.withDefault("./messages.db"))
+  return yield* SqliteClient.make({ filename })
+})
+
+// Database layer, pending migrations are applied before anything else touches it
+export const DatabaseLive = Layer.unwrapScoped(
+  Effect.gen(function* () {
+    const sql = yield* openDatabase
+    yield* runMigrations(sql)
+    yield* Effect.log("📦 Database initialized")
+    return Layer.succeed(SqliteClient.SqliteClient, sql)
+  })
+)
@@ -0,0 +1,74 @@
+import { Effect, Context, Layer, Option, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { HandlerOutcome, type HandlerOutcomeStatus, type MessageKey } from "./Schema.js"
+import { DecodeError, findAll, findOne } from "./Rows.js"
+
+export class HandlerOutcomeRepository extends Context.Tag("HandlerOutcomeRepository")<
+  HandlerOutcomeRepository,
+  {
+    readonly record: (
+      key: MessageKey,
+      handler: string,
+      outcome: Schema.Schema.Type<typeof HandlerOutcomeStatus>,
+      note: string | null
+    ) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly getOutcomes: (key: MessageKey) => Effect.Effect<HandlerOutcome[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly lastOutcomeInChat: (sessionId: string, chatId: string, handler: string, note: string) => Effect.Effect<HandlerOutcome | null, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+export const HandlerOutcomeRepositoryLive = Layer.effect(
+  HandlerOutcomeRepository,
+  Effect.gen(function* () {
+    return {
+      // Running a message through the pipeline again overwrites its previous outcomes
+      record: ({ chatId, messageId, fromMe }, handler, outcome, note) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            INSERT OR REPLACE INTO message_handler_outcomes (chat_id, message_id, is_from_me, handler, outcome, note)
+            VALUES (${chatId}, ${messageId}, ${fromMe}, ${handler}, ${outcome}, ${note})
+          `
+        }),
+
+      getOutcomes: ({ chatId, messageId, fromMe }) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              message_id as "messageId",
+              handler,
+              outcome,
+              note,
+              created_at as "createdAt"
+            FROM message_handler_outcomes
+            WHERE chat_id = ${chatId} AND message_id = ${messageId} AND is_from_me = ${fromMe}
+            ORDER BY created_at ASC
+          `.pipe(findAll(HandlerOutcome))
+        }),
+
+      // Chat ids repeat across sessions, a customer writing to two numbers is two chats
+      lastOutcomeInChat: (sessionId, chatId, handler, note) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              o.message_id as "messageId",
+              o.handler,
+              o.outcome,
+              o.note,
+              o.created_at as "createdAt"
+            FROM message_handler_outcomes o
+            JOIN messages m ON m.chat_id = o.chat_id AND m.id = o.message_id AND m.is_from_me = o.is_from_me
+            WHERE m.session_id = ${sessionId} AND o.chat_id = ${chatId} AND o.handler = ${handler} AND o.note = ${note}
+            ORDER BY o.created_at DESC
+            LIMIT 1
+          `.pipe(findOne(HandlerOutcome), Effect.map(Option.getOrNull))
+        })
+    }
+  })
+)
@@ -0,0 +1,169 @@
+import { Effect, Context, Data, Layer, Option, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { Agent, ChatHandoff, type ChatMode } from "./Schema.js"
+import { DecodeError, findAll, findOne, isUniqueViolation } from "./Rows.js"
+
+export class AgentNotFound extends Data.TaggedError("AgentNotFound")<{
+  readonly agentId: string
+}> {}
+
+export class AgentNameTaken extends Data.TaggedError("AgentNameTaken")<{
+  readonly name: string
+}> {}
+
+export class HandoffRepository extends Context.Tag("HandoffRepository")<
+  HandoffRepository,
+  {
+    // A chat never seen before is in bot mode
+    readonly getHandoff: (sessionId: string, chatId: string) => Effect.Effect<ChatHandoff, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Chats in human or paused mode, longest waiting first
+    readonly listHandoffs: () => Effect.Effect<ChatHandoff[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Leaving bot mode counts as activity of a person, going back to it drops the assignment
+    readonly setMode: (sessionId: string, chatId: string, mode: ChatMode, at: string) => Effect.Effect<ChatHandoff, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly touchAgentActivity: (sessionId: string, chatId: string, at: string) => Effect.Effect<ChatHandoff, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly assign: (sessionId: string, chatId: string, agentId: string | null) => Effect.Effect<ChatHandoff, SqlError.SqlError | DecodeError | AgentNotFound, SqliteClient.SqliteClient>
+    readonly listAgents: () => Effect.Effect<Agent[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly createAgent: (name: string) => Effect.Effect<Agent, SqlError.SqlError | DecodeError | AgentNameTaken, SqliteClient.SqliteClient>
+  }
+>() {}
+
+const HANDOFF_COLUMNS = `
+  session_id as "sessionId",
+  chat_id,
+  name,
+  mode,
+  assigned_agent_id as "assignedAgentId",
+  mode_changed_at as "modeChangedAt",
+  agent_active_at as "agentActiveAt"
+`
+
+const botChat = (sessionId: string, chatId: string) =>
+  new ChatHandoff({
+    sessionId,
+    chat_id: chatId,
+    name: null,
+    mode: "bot",
+    assignedAgentId: null,
+    modeChangedAt: null,
+    agentActiveAt: null
+  })
+
+// An insert or upsert returns the row it wrote, none coming back is a bug rather than a failure
+const saved = <A, I, R>(schema: Schema.Schema<A, I, R>, what: string) =>
+  <E, RE>(rows: Effect.Effect<ReadonlyArray<unknown>, E, RE>) =>
+    Effect.flatMap(findOne(schema)(rows), Option.match({
+      onNone: () => Effect.dieMessage(`${what} was not saved`),
+      onSome: Effect.succeed
+    }))
+
+export const HandoffRepositoryLive = Layer.effect(
+  HandoffRepository,
+  Effect.gen(function* () {
+    const getHandoff = (sessionId: string, chatId: string) =>
+      Effect.gen(function* () {
+        const sql = yield* SqliteClient.SqliteClient
+
+        const handoff = yield* sql`
+          SELECT ${sql.literal(HANDOFF_COLUMNS)}
+          FROM chats
+          WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+        `.pipe(findOne(ChatHandoff))
+
+        return Option.getOrElse(handoff, () => botChat(sessionId, chatId))
+      })
+
+    return {
+      getHandoff,
+
+      listHandoffs: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT ${sql.literal(HANDOFF_COLUMNS)}
+            FROM chats
+            WHERE mode != 'bot'
+            ORDER BY mode_changed_at ASC
+          `.pipe(findAll(ChatHandoff))
+        }),
+
+      setMode: (sessionId, chatId, mode, at) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const active = mode === "bot" ? null : at
+
+          return yield* sql`
+            INSERT INTO chats (session_id, chat_id, mode, mode_changed_at, agent_active_at)
+            VALUES (${sessionId}, ${chatId}, ${mode}, ${at}, ${active})
+            ON CONFLICT (session_id, chat_id) DO UPDATE SET
+              mode = excluded.mode,
+              mode_changed_at = CASE WHEN chats.mode = excluded.mode THEN chats.mode_changed_at ELSE excluded.mode_changed_at END,
+              agent_active_at = excluded.agent_active_at,
+              assigned_agent_id = CASE WHEN excluded.mode = 'bot' THEN NULL ELSE chats.assigned_agent_id END,
+              updated_at = datetime('now')
+            RETURNING ${sql.literal(HANDOFF_COLUMNS)}
+          `.pipe(saved(ChatHandoff, `Chat ${chatId}`))
+        }),
+
+      touchAgentActivity: (sessionId, chatId, at) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const handoff = yield* sql`
+            UPDATE chats SET agent_active_at = ${at}
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+            RETURNING ${sql.literal(HANDOFF_COLUMNS)}
+          `.pipe(findOne(ChatHandoff))
+
+          return Option.getOrElse(handoff, () => botChat(sessionId, chatId))
+        }),
+
+      assign: (sessionId, chatId, agentId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          if (agentId !== null) {
+            const agents = yield* sql`SELECT id FROM agents WHERE id = ${agentId}`
+            if (agents.length === 0) {
+              return yield* new AgentNotFound({ agentId })
+            }
+          }
+
+          return yield* sql`
+            INSERT INTO chats (session_id, chat_id, assigned_agent_id)
+            VALUES (${sessionId}, ${chatId}, ${agentId})
+            ON CONFLICT (session_id, chat_id) DO UPDATE SET
+              assigned_agent_id = excluded.assigned_agent_id,
+              updated_at = datetime('now')
+            RETURNING ${sql.literal(HANDOFF_COLUMNS)}
+          `.pipe(saved(ChatHandoff, `Chat ${chatId}`))
+        }),
+
+      listAgents: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT id, name, created_at as "createdAt"
+            FROM agents
+            ORDER BY name
+          `.pipe(findAll(Agent))
+        }),
+
+      createAgent: (name) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            INSERT INTO agents (id, name)
+            VALUES (${crypto.randomUUID()}, ${name})
+            RETURNING id, name, created_at as "createdAt"
+          `.pipe(
+            Effect.catchTag("SqlError", (error) => Effect.fail(isUniqueViolation(error) ? new AgentNameTaken({ name }) : error)),
+            saved(Agent, `Agent ${name}`)
+          )
+        })
+    }
+  })
+)
@@ -0,0 +1,116 @@
+import { Data, Effect, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { Migrator, SqlClient } from "@effect/sql"
+import { findAll } from "./Rows.js"
+import initial from "./migrations/0001_initial.js"
+import messageIdentity from "./migrations/0002_message_identity.js"
+import contacts from "./migrations/0003_contacts.js"
+import messageSearch from "./migrations/0004_message_search.js"
+import availability from "./migrations/0005_availability.js"
+import calendar from "./migrations/0006_calendar.js"
+import templates from "./migrations/0007_templates.js"
+import handoff from "./migrations/0008_handoff.js"
+import webhooks from "./migrations/0009_webhooks.js"
+import messageChildKeys from "./migrations/0010_message_child_keys.js"
+
+// Applied in id order. A migration that shipped is never edited or renumbered,
+// changes go into a new one
+const migrations: ReadonlyArray<Migrator.ResolvedMigration> = [
+  [1, "initial", Effect.succeed(initial)],
+  [2, "message_identity", Effect.succeed(messageIdentity)],
+  [3, "contacts", Effect.succeed(contacts)],
+  [4, "message_search", Effect.succeed(messageSearch)],
+  [5, "availability", Effect.succeed(availability)],
+  [6, "calendar", Effect.succeed(calendar)],
+  [7, "templates", Effect.succeed(templates)],
+  [8, "handoff", Effect.succeed(handoff)],
+  [9, "webhooks", Effect.succeed(webhooks)],
+  [10, "message_child_keys", Effect.succeed(messageChildKeys)]
+]
+
+const MIGRATIONS_TABLE = "schema_migrations"
+
+export const LATEST_SCHEMA_VERSION = Math.max(...migrations.map(([id]) => id))
+
+// The database was migrated by a newer release, running against it could corrupt it
+export class SchemaTooNew extends Data.TaggedError("SchemaTooNew")<{
+  readonly databaseVersion: number
+  readonly supportedVersion: number
+}> {
+  override get message() {
+    return `Database schema is at version ${this.databaseVersion}, this release only knows up to ${this.supportedVersion}`
+  }
+}
+
+export interface MigrationStatus {
+  readonly id: number
+  readonly name: string
+  // Null while pending
+  readonly appliedAt: string | null
+}
+
+const AppliedMigration = Schema.Struct({
+  id: Schema.Int,
+  name: Schema.String,
+  appliedAt: Schema.String
+})
+
+const migrationName = (id: number, name: string) => `${String(id).padStart(4, "0")}_${name}`
+
+const appliedMigrations = (sql: SqliteClient.SqliteClient) =>
+  Effect.gen(function* () {
+    const tables = yield* sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${MIGRATIONS_TABLE}`
+    if (tables.length === 0) return []
+
+    return yield* sql`
+      SELECT migration_id as "id", name, created_at as "appliedAt"
+      FROM ${sql(MIGRATIONS_TABLE)}
+      ORDER BY migration_id ASC
+    `.pipe(findAll(AppliedMigration))
+  })
+
+export const checkSchemaVersion = (sql: SqliteClient.SqliteClient) =>
+  Effect.gen(function* () {
+    const applied = yield* appliedMigrations(sql)
+    const databaseVersion = Math.max(0, ...applied.map((migration) => migration.id))
+
+    if (databaseVersion > LATEST_SCHEMA_VERSION) {
+      return yield* new SchemaTooNew({ databaseVersion, supportedVersion: LATEST_SCHEMA_VERSION })
+    }
+    return databaseVersion
+  })
+
+// Known migrations plus any applied one this release does not know about
+export const migrationStatus = (sql: SqliteClient.SqliteClient) =>
+  Effect.gen(function* () {
+    const applied = yield* appliedMigrations(sql)
+    const appliedAt = new Map(applied.map((migration) => [migration.id, migration.appliedAt]))
+    const known = new Set(migrations.map(([id]) => id))
+
+    return [
+      ...migrations.map(([id, name]): MigrationStatus => ({ id, name, appliedAt: appliedAt.get(id) ?? null })),
+      ...applied.filter((migration) => !known.has(migration.id))
+    ].sort((a, b) => a.id - b.id)
+  })
+
+// Applies every pending migration in one transaction, returns the ones it ran
+export const runMigrations = (sql: SqliteClient.SqliteClient) =>
+  Effect.gen(function* () {
+    yield* checkSchemaVersion(sql)
+
+    const completed = yield* Migrator.make({})({
+      loader: Effect.succeed(migrations),
+      table: MIGRATIONS_TABLE
+    }).pipe(
+      Effect.provideService(SqlClient.SqlClient, sql),
+      Effect.provideService(SqliteClient.SqliteClient, sql)
+    )
+
+    for (const [id, name] of completed) {
+      yield* Effect.log(`🧱 Applied migration ${migrationName(id, name)}`)
+    }
+    return completed
+  })
+
+export const formatMigration = (migration: MigrationStatus) =>
+  `${migrationName(migration.id, migration.name)} ${migration.appliedAt ? `applied at ${migration.appliedAt}` : "pending"}`
@@ -0,0 +1,51 @@
+import { Effect, Context, Layer } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+
+export class OptOutRepository extends Context.Tag("OptOutRepository")<
+  OptOutRepository,
+  {
+    readonly isOptedOut: (sessionId: string, chatId: string) => Effect.Effect<boolean, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly optOut: (sessionId: string, chatId: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly optIn: (sessionId: string, chatId: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+export const OptOutRepositoryLive = Layer.effect(
+  OptOutRepository,
+  Effect.gen(function* () {
+    return {
+      isOptedOut: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const result = yield* sql`
+            SELECT 1 FROM opt_outs
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+          `
+
+          return result.length > 0
+        }),
+
+      optOut: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            INSERT OR IGNORE INTO opt_outs (session_id, chat_id)
+            VALUES (${sessionId}, ${chatId})
+          `
+        }),
+
+      optIn: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            DELETE FROM opt_outs
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+          `
+        })
+    }
+  })
+)
@@ -1,37 +1,136 @@
-import { Effect, Context, Layer, Schema } from "effect"
+import { Effect, Context, Data, Layer, Option, Schema } from "effect"
 import { SqliteClient } from "@effect/sql-sqlite-bun"
 import { SqlError } from "@effect/sql"
-import type { WhatsAppMessage, InsertMessageSchema } from "./Schema.js"
+import {
+  ChatSummaryRow,
+  MessageEdit,
+  MessageSearchHit,
+  WhatsAppMessageRow,
+  type ChatHistoryPage,
+  type ChatHistoryQuerySchema,
+  type ChatSummary,
+  type DeliveryStatus,
+  type InsertMessageSchema,
+  type MessageDetails,
+  type MessageKey,
+  type MessageReaction,
+  type MessageSearchPage,
+  type MessageSearchSchema,
+  type WhatsAppMessage
+} from "./Schema.js"
+import { DecodeError, findAll, findOne, single } from "./Rows.js"
+
+export class InvalidCursor extends Data.TaggedError("InvalidCursor")<{
+  readonly cursor: string
+}> {}
+
+export class MessageNotFound extends Data.TaggedError("MessageNotFound")<{
+  readonly messageId: string
+}> {}
+
+// A message as stored, inserted is false when an earlier copy was already there
+export interface StoredMessage {
+  readonly message: WhatsAppMessage
+  readonly inserted: boolean
+}
 
 export class MessageRepository extends Context.Tag("MessageRepository")<
   MessageRepository,
   {
-    readonly insertMessage: (message: Schema.Schema.Type<typeof InsertMessageSchema>) => Effect.Effect<WhatsAppMessage, SqlError.SqlError, SqliteClient.SqliteClient>
-    readonly getUnprocessedMessages: () => Effect.Effect<WhatsAppMessage[], SqlError.SqlError, SqliteClient.SqliteClient>
-    readonly markAsProcessed: (messageId: string) => Effect.Effect<WhatsAppMessage, SqlError.SqlError, SqliteClient.SqliteClient>
-    readonly getMessagesByChat: (chatId: string) => Effect.Effect<WhatsAppMessage[], SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly upsertMessage: (message: Schema.Schema.Type<typeof InsertMessageSchema>) => Effect.Effect<StoredMessage, SqlError.SqlError | MessageNotFound | DecodeError, SqliteClient.SqliteClient>
+    readonly getMessage: (key: MessageKey) => Effect.Effect<WhatsAppMessage, SqlError.SqlError | MessageNotFound | DecodeError, SqliteClient.SqliteClient>
+    readonly markAsProcessed: (key: MessageKey) => Effect.Effect<WhatsAppMessage, SqlError.SqlError | MessageNotFound | DecodeError, SqliteClient.SqliteClient>
+    readonly getMessagesByChat: (chatId: string, page: Schema.Schema.Type<typeof ChatHistoryQuerySchema>) => Effect.Effect<ChatHistoryPage, SqlError.SqlError | InvalidCursor | DecodeError, SqliteClient.SqliteClient>
+    readonly searchMessages: (search: Schema.Schema.Type<typeof MessageSearchSchema>) => Effect.Effect<MessageSearchPage, SqlError.SqlError | InvalidCursor | DecodeError, SqliteClient.SqliteClient>
+    readonly getOldestMessage: (sessionId: string, chatId: string) => Effect.Effect<Option.Option<WhatsAppMessage>, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listChats: () => Effect.Effect<ChatSummary[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly saveDetails: (key: MessageKey, details: MessageDetails) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly saveReaction: (reaction: MessageReaction) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly applyEdit: (key: MessageKey, content: string, editedAt: string) => Effect.Effect<boolean, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly getMessageEdits: (key: MessageKey) => Effect.Effect<MessageEdit[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly markDeleted: (key: MessageKey, deletedAt: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly markChatDeleted: (chatId: string, deletedAt: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly updateDeliveryStatus: (key: MessageKey, status: Schema.Schema.Type<typeof DeliveryStatus>, at: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
   }
 >() {}
 
+// Receipts arrive out of order, a status only ever moves forward
+const DELIVERY_RANK: Record<Schema.Schema.Type<typeof DeliveryStatus>, number> = {
+  pending: 1,
+  server_ack: 2,
+  error: 3,
+  delivered: 4,
+  read: 5,
+  played: 6
+}
+
+const CurrentContent = Schema.Struct({
+  content: Schema.String,
+  editedAt: Schema.NullOr(Schema.String)
+})
+
+// Where a page ends: the timestamp and rowid of its last message
+const Position = Schema.Struct({
+  timestamp: Schema.String,
+  position: Schema.Int
+})
+
+const SearchPosition = Schema.Struct({
+  ...Position.fields,
+  snippet: Schema.String
+})
+
+const CursorValue = Schema.parseJson(Schema.Tuple(Schema.String, Schema.Int))
+
+// Cursors are opaque to clients, a base64url encoded [timestamp, rowid]
+const encodeCursor = ({ timestamp, position }: Schema.Schema.Type<typeof Position>) =>
+  Buffer.from(JSON.stringify([timestamp, position])).toString("base64url")
+
+const decodeCursor = (cursor: string | undefined) =>
+  cursor === undefined
+    ? Effect.succeed(null)
+    : Schema.decodeUnknown(CursorValue)(Buffer.from(cursor, "base64url").toString()).pipe(
+        Effect.mapError(() => new InvalidCursor({ cursor }))
+      )
+
+// Tokens of context a snippet shows around the matches
+const SNIPPET_TOKENS = 12
+
+// Search text is matched as words, never parsed as FTS5 syntax. Every word is quoted
+// and the last one also matches as a prefix, so a word still being typed finds results.
+const toMatchQuery = (text: string): string => {
+  const terms = text.split(/\s+/).filter((term) => term.length > 0).map((term) => `"${term.replaceAll('"', '""')}"`)
+  return terms.map((term, index) => (index === terms.length - 1 ? `${term}*` : term)).join(" ")
+}
+
+const transactional = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.flatMap(SqliteClient.SqliteClient, (sql) => sql.withTransaction(effect))
+
 export const MessageRepositoryLive = Layer.effect(
   MessageRepository,
   Effect.gen(function* () {
     return {
-      insertMessage: (message) =>
+      upsertMessage: (message) =>
         Effect.gen(function* () {
           const sql = yield* SqliteClient.SqliteClient
 
-          const result = yield* sql`
+          const inserted = yield* sql`
             INSERT INTO messages (
-              id, from_phone, to_phone, chat_id, timestamp, content,
-              message_type, is_from_me, is_group, processed
+              id, session_id, from_phone, to_phone, chat_id, timestamp, content,
+              message_type, is_from_me, is_group, processed, contact_id, quoted_message_id,
+              target_message_id, selected_option_id, media_path, media_mimetype, delivery_status
             ) VALUES (
-              ${message.id}, ${message.from}, ${message.to}, ${message.chat_id},
+              ${message.id}, ${message.sessionId}, ${message.from}, ${message.to}, ${message.chat_id},
               ${message.timestamp}, ${message.content}, ${message.messageType},
-              ${message.isFromMe}, ${message.isGroup}, ${message.processed}
+              ${message.isFromMe}, ${message.isGroup}, ${message.processed}, ${message.contactId ?? null},
+              ${message.quotedMessageId ?? null}, ${message.targetMessageId ?? null},
+              ${message.selectedOptionId ?? null}, ${message.mediaPath ?? null}, ${message.mediaMimetype ?? null},
+              ${message.deliveryStatus ?? null}
             )
+            ON CONFLICT (chat_id, id, is_from_me) DO NOTHING
             RETURNING 
               id,
+              session_id as "sessionId",
               from_phone as "from",
               to_phone as "to",
               chat_id,
@@ -41,19 +140,68 @@ export const MessageRepositoryLive = Layer.effect(
               is_from_me as "isFromMe",
               is_group as "isGroup",
               processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
               created_at as "createdAt"
-          `
+          `.pipe(findOne(WhatsAppMessageRow))
 
-          return result[0] as unknown as WhatsAppMessage
+          if (Option.isSome(inserted)) {
+            return { message: inserted.value, inserted: true }
+          }
+
+          // Seen before, e.g. redelivered after a reconnect or part of a history batch.
+          // The stored copy wins, it only picks up a media file it is missing.
+          const existing = yield* sql`
+            UPDATE messages
+            SET media_path = COALESCE(media_path, ${message.mediaPath ?? null}),
+                media_mimetype = COALESCE(media_mimetype, ${message.mediaMimetype ?? null})
+            WHERE chat_id = ${message.chat_id} AND id = ${message.id} AND is_from_me = ${message.isFromMe}
+            RETURNING
+              id,
+              session_id as "sessionId",
+              from_phone as "from",
+              to_phone as "to",
+              chat_id,
+              timestamp,
+              content,
+              message_type as "messageType",
+              is_from_me as "isFromMe",
+              is_group as "isGroup",
+              processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
+              created_at as "createdAt"
+          `.pipe(single(WhatsAppMessageRow, () => new MessageNotFound({ messageId: message.id })))
+
+          return { message: existing, inserted: false }
         }),
 
-      getUnprocessedMessages: () =>
+      getMessage: ({ chatId, messageId, fromMe }) =>
         Effect.gen(function* () {
           const sql = yield* SqliteClient.SqliteClient
 
-          const result = yield* sql`
+          return yield* sql`
             SELECT 
               id,
+              session_id as "sessionId",
               from_phone as "from",
               to_phone as "to",
               chat_id,
@@ -63,25 +211,34 @@ export const MessageRepositoryLive = Layer.effect(
               is_from_me as "isFromMe",
               is_group as "isGroup",
               processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
               created_at as "createdAt"
             FROM messages 
-            WHERE processed = false 
-            ORDER BY timestamp ASC
-          `
-
-          return result as unknown as WhatsAppMessage[]
+            WHERE chat_id = ${chatId} AND id = ${messageId} AND is_from_me = ${fromMe}
+          `.pipe(single(WhatsAppMessageRow, () => new MessageNotFound({ messageId })))
         }),
 
-      markAsProcessed: (messageId) =>
+      markAsProcessed: ({ chatId, messageId, fromMe }) =>
         Effect.gen(function* () {
           const sql = yield* SqliteClient.SqliteClient
 
-          const result = yield* sql`
+          return yield* sql`
             UPDATE messages 
             SET processed = true 
-            WHERE id = ${messageId}
+            WHERE chat_id = ${chatId} AND id = ${messageId} AND is_from_me = ${fromMe}
             RETURNING 
               id,
+              session_id as "sessionId",
               from_phone as "from",
               to_phone as "to",
               chat_id,
@@ -91,19 +248,142 @@ export const MessageRepositoryLive = Layer.effect(
               is_from_me as "isFromMe",
               is_group as "isGroup",
               processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
               created_at as "createdAt"
+          `.pipe(single(WhatsAppMessageRow, () => new MessageNotFound({ messageId })))
+        }),
+
+      getMessagesByChat: (chatId, page) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const before = yield* decodeCursor(page.before)
+
+          const rows = yield* sql`
+            SELECT 
+              id,
+              session_id as "sessionId",
+              from_phone as "from",
+              to_phone as "to",
+              chat_id,
+              timestamp,
+              content,
+              message_type as "messageType",
+              is_from_me as "isFromMe",
+              is_group as "isGroup",
+              processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
+              created_at as "createdAt",
+              rowid as "position"
+            FROM messages 
+            WHERE chat_id = ${chatId}
+              AND ${before ? sql`(timestamp < ${before[0]} OR (timestamp = ${before[0]} AND rowid < ${before[1]}))` : sql`1 = 1`}
+            ORDER BY timestamp DESC, rowid DESC
+            LIMIT ${page.limit + 1}
+          `
+
+          // One row more than asked tells whether an older page exists
+          const messages = yield* Effect.succeed(rows.slice(0, page.limit)).pipe(findAll(WhatsAppMessageRow))
+          const positions = yield* Effect.succeed(rows.slice(0, page.limit)).pipe(findAll(Position))
+          const oldest = positions[positions.length - 1]
+
+          return {
+            messages: messages.reverse(),
+            before: rows.length > page.limit && oldest ? encodeCursor(oldest) : null
+          }
+        }),
+
+      searchMessages: (search) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const after = yield* decodeCursor(search.cursor)
+
+          const conditions = [
+            search.sessionId !== undefined ? sql`m.session_id = ${search.sessionId}` : undefined,
+            search.chatId !== undefined ? sql`m.chat_id = ${search.chatId}` : undefined,
+            search.from !== undefined ? sql`m.from_phone = ${search.from}` : undefined,
+            search.messageType !== undefined ? sql`m.message_type = ${search.messageType}` : undefined,
+            search.fromMe !== undefined ? sql`m.is_from_me = ${search.fromMe}` : undefined,
+            search.since !== undefined ? sql`m.timestamp >= ${search.since}` : undefined,
+            search.until !== undefined ? sql`m.timestamp < ${search.until}` : undefined,
+            after ? sql`(m.timestamp < ${after[0]} OR (m.timestamp = ${after[0]} AND m.rowid < ${after[1]}))` : undefined
+          ].filter((condition) => condition !== undefined)
+
+          const rows = yield* sql`
+            SELECT
+              m.id,
+              m.session_id as "sessionId",
+              m.from_phone as "from",
+              m.to_phone as "to",
+              m.chat_id,
+              m.timestamp,
+              m.content,
+              m.message_type as "messageType",
+              m.is_from_me as "isFromMe",
+              m.is_group as "isGroup",
+              m.processed,
+              m.contact_id as "contactId",
+              m.quoted_message_id as "quotedMessageId",
+              m.target_message_id as "targetMessageId",
+              m.selected_option_id as "selectedOptionId",
+              m.media_path as "mediaPath",
+              m.media_mimetype as "mediaMimetype",
+              m.delivery_status as "deliveryStatus",
+              m.delivered_at as "deliveredAt",
+              m.read_at as "readAt",
+              m.edited_at as "editedAt",
+              m.deleted_at as "deletedAt",
+              m.created_at as "createdAt",
+              m.rowid as "position",
+              snippet(messages_fts, 0, '<mark>', '</mark>', '…', ${SNIPPET_TOKENS}) as "snippet"
+            FROM messages_fts
+            JOIN messages m ON m.rowid = messages_fts.rowid
+            WHERE messages_fts MATCH ${toMatchQuery(search.q)}
+              AND ${sql.and(conditions)}
+            ORDER BY m.timestamp DESC, m.rowid DESC
+            LIMIT ${search.limit + 1}
           `
 
-          return result[0] as unknown as WhatsAppMessage
+          const page = rows.slice(0, search.limit)
+          const messages = yield* Effect.succeed(page).pipe(findAll(WhatsAppMessageRow))
+          const positions = yield* Effect.succeed(page).pipe(findAll(SearchPosition))
+          const last = positions[positions.length - 1]
+
+          return {
+            hits: messages.map((message, index) =>
+              MessageSearchHit.make({ message, snippet: positions[index]!.snippet })
+            ),
+            nextCursor: rows.length > search.limit && last ? encodeCursor(last) : null
+          }
         }),
 
-      getMessagesByChat: (chatId) =>
+      getOldestMessage: (sessionId, chatId) =>
         Effect.gen(function* () {
           const sql = yield* SqliteClient.SqliteClient
 
-          const result = yield* sql`
+          return yield* sql`
             SELECT 
               id,
+              session_id as "sessionId",
               from_phone as "from",
               to_phone as "to",
               chat_id,
@@ -113,13 +393,213 @@ export const MessageRepositoryLive = Layer.effect(
               is_from_me as "isFromMe",
               is_group as "isGroup",
               processed,
+              contact_id as "contactId",
+              quoted_message_id as "quotedMessageId",
+              target_message_id as "targetMessageId",
+              selected_option_id as "selectedOptionId",
+              media_path as "mediaPath",
+              media_mimetype as "mediaMimetype",
+              delivery_status as "deliveryStatus",
+              delivered_at as "deliveredAt",
+              read_at as "readAt",
+              edited_at as "editedAt",
+              deleted_at as "deletedAt",
               created_at as "createdAt"
-            FROM messages 
-            WHERE chat_id = ${chatId}
+            FROM messages
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
             ORDER BY timestamp ASC
+            LIMIT 1
+          `.pipe(findOne(WhatsAppMessageRow))
+        }),
+
+      listChats: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          // The last message of each chat is the row with the highest timestamp
+          return yield* sql`
+            SELECT
+              m.session_id as "sessionId",
+              m.chat_id,
+              COALESCE(c.name, p.saved_name, p.push_name, p.verified_name) as "name",
+              m.is_group as "isGroup",
+              COALESCE(c.unread_count, 0) as "unreadCount",
+              stats.message_count as "messageCount",
+              m.timestamp as "lastMessageAt",
+              m.content as "lastMessage"
+            FROM messages m
+            JOIN (
+              SELECT session_id, chat_id, COUNT(*) as message_count, MAX(timestamp) as last_at
+              FROM messages
+              GROUP BY session_id, chat_id
+            ) stats
+              ON stats.session_id = m.session_id
+              AND stats.chat_id = m.chat_id
+              AND stats.last_at = m.timestamp
+            LEFT JOIN chats c
+              ON c.session_id = m.session_id
+              AND c.chat_id = m.chat_id
+            LEFT JOIN contacts p
+              ON p.session_id = m.session_id
+              AND (p.jid = m.chat_id OR p.lid = m.chat_id)
+            GROUP BY m.session_id, m.chat_id
+            ORDER BY m.timestamp DESC
+          `.pipe(findAll(ChatSummaryRow))
+        }),
+
+      saveDetails: ({ chatId, messageId, fromMe }, details) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          if (details.location) {
+            const { latitude, longitude, name, address, isLive } = details.location
+            yield* sql`
+              INSERT OR REPLACE INTO message_locations (chat_id, message_id, is_from_me, latitude, longitude, name, address, is_live)
+              VALUES (${chatId}, ${messageId}, ${fromMe}, ${latitude}, ${longitude}, ${name}, ${address}, ${isLive})
+            `
+          }
+
+          if (details.contacts) {
+            yield* sql`
+              DELETE FROM message_contacts
+              WHERE chat_id = ${chatId} AND message_id = ${messageId} AND is_from_me = ${fromMe}
+            `
+            for (const contact of details.contacts) {
+              yield* sql`
+                INSERT INTO message_contacts (chat_id, message_id, is_from_me, display_name, vcard)
+                VALUES (${chatId}, ${messageId}, ${fromMe}, ${contact.displayName}, ${contact.vcard})
+              `
+            }
+          }
+
+          if (details.poll) {
+            const { name, options, selectableCount } = details.poll
+            yield* sql`
+              INSERT OR REPLACE INTO message_polls (chat_id, message_id, is_from_me, name, options, selectable_count)
+              VALUES (${chatId}, ${messageId}, ${fromMe}, ${name}, ${JSON.stringify(options)}, ${selectableCount})
+            `
+          }
+        }).pipe(transactional),
+
+      saveReaction: (reaction) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          // An empty emoji is how WhatsApp reports a reaction being removed
+          if (reaction.emoji === '') {
+            yield* sql`
+              DELETE FROM message_reactions
+              WHERE chat_id = ${reaction.chat_id}
+                AND message_id = ${reaction.messageId}
+                AND sender = ${reaction.sender}
+            `
+            return
+          }
+
+          yield* sql`
+            INSERT INTO message_reactions (chat_id, message_id, sender, emoji, reacted_at)
+            VALUES (${reaction.chat_id}, ${reaction.messageId}, ${reaction.sender}, ${reaction.emoji}, ${reaction.reactedAt})
+            ON CONFLICT (chat_id, message_id, sender) DO UPDATE SET
+              emoji = excluded.emoji,
+              reacted_at = excluded.reacted_at
+            WHERE excluded.reacted_at >= message_reactions.reacted_at
+          `
+        }),
+
+      applyEdit: ({ chatId, messageId, fromMe }, content, editedAt) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const found = yield* sql`
+            SELECT content, edited_at as "editedAt"
+            FROM messages
+            WHERE chat_id = ${chatId} AND id = ${messageId} AND is_from_me = ${fromMe}
+          `.pipe(findOne(CurrentContent))
+
+          // Unknown message, repeated event or an older edit arriving late
+          if (Option.isNone(found)) {
+            return false
+          }
+          const current = found.value
+          if (current.content === content || (current.editedAt !== null && current.editedAt > editedAt)) {
+            return false
+          }
+
+          yield* sql`
+            INSERT INTO message_edits (chat_id, message_id, is_from_me, previous_content, edited_at)
+            VALUES (${chatId}, ${messageId}, ${fromMe}, ${current.content}, ${editedAt})
+          `
+
+          yield* sql`
+            UPDATE messages
+            SET content = ${content}, edited_at = ${editedAt}
+            WHERE chat_id = ${chatId} AND id = ${messageId} AND is_from_me = ${fromMe}
+          `
+
+          return true
+        }).pipe(transactional),
+
+      getMessageEdits: ({ chatId, messageId, fromMe }) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              message_id as "messageId",
+              previous_content as "previousContent",
+              edited_at as "editedAt"
+            FROM message_edits
+            WHERE chat_id = ${chatId} AND message_id = ${messageId} AND is_from_me = ${fromMe}
+            ORDER BY id ASC
+          `.pipe(findAll(MessageEdit))
+        }),
+
+      markDeleted: ({ chatId, messageId, fromMe }, deletedAt) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            UPDATE messages
+            SET deleted_at = COALESCE(deleted_at, ${deletedAt})
+            WHERE chat_id = ${chatId} AND id = ${messageId} AND is_from_me = ${fromMe}
+          `
+        }),
+
+      markChatDeleted: (chatId, deletedAt) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            UPDATE messages
+            SET deleted_at = COALESCE(deleted_at, ${deletedAt})
+            WHERE chat_id = ${chatId}
           `
+        }),
 
-          return result as unknown as WhatsAppMessage[]
+      updateDeliveryStatus: ({ chatId, messageId, fromMe }, status, at) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const rank = DELIVERY_RANK[status]
+
+          yield* sql`
+            UPDATE messages
+            SET delivery_status = ${status},
+                delivered_at = CASE WHEN ${rank} >= ${DELIVERY_RANK.delivered} THEN COALESCE(delivered_at, ${at}) ELSE delivered_at END,
+                read_at = CASE WHEN ${rank} >= ${DELIVERY_RANK.read} THEN COALESCE(read_at, ${at}) ELSE read_at END
+            WHERE chat_id = ${chatId}
+              AND id = ${messageId}
+              AND is_from_me = ${fromMe}
+              AND ${rank} > CASE delivery_status
+                WHEN 'pending' THEN ${DELIVERY_RANK.pending}
+                WHEN 'server_ack' THEN ${DELIVERY_RANK.server_ack}
+                WHEN 'error' THEN ${DELIVERY_RANK.error}
+                WHEN 'delivered' THEN ${DELIVERY_RANK.delivered}
+                WHEN 'read' THEN ${DELIVERY_RANK.read}
+                WHEN 'played' THEN ${DELIVERY_RANK.played}
+                ELSE 0
+              END
+          `
         })
     }
   })
@@ -0,0 +1,37 @@
+import { Data, Effect, Option, Schema } from "effect"
+import { SqlError } from "@effect/sql"
+
+// A row that does not match its schema, e.g. written by a newer release or by hand
+export class DecodeError extends Data.TaggedError("DecodeError")<{
+  readonly message: string
+}> {}
+
+// Result decoding in the spirit of @effect/sql's SqlSchema, which at the version
+// we depend on is written against @effect/schema instead of effect's Schema
+const decodeRow = <A, I, R>(schema: Schema.Schema<A, I, R>) => (row: unknown) =>
+  Schema.decodeUnknown(schema)(row).pipe(
+    Effect.mapError((error) => new DecodeError({ message: error.message }))
+  )
+
+export const findAll = <A, I, R>(schema: Schema.Schema<A, I, R>) =>
+  <E, RE>(rows: Effect.Effect<ReadonlyArray<unknown>, E, RE>) =>
+    Effect.flatMap(rows, (rows) => Effect.forEach(rows, decodeRow(schema)))
+
+export const findOne = <A, I, R>(schema: Schema.Schema<A, I, R>) =>
+  <E, RE>(rows: Effect.Effect<ReadonlyArray<unknown>, E, RE>) =>
+    Effect.flatMap(rows, (rows) =>
+      rows.length > 0 ? Effect.map(decodeRow(schema)(rows[0]), Option.some) : Effect.succeed(Option.none<A>())
+    )
+
+// Exactly one row expected, the error for a missing one is the caller's
+export const single = <A, I, R, E2>(schema: Schema.Schema<A, I, R>, onMissing: () => E2) =>
+  <E, RE>(rows: Effect.Effect<ReadonlyArray<unknown>, E, RE>) =>
+    Effect.flatMap(findOne(schema)(rows), Option.match({
+      onNone: () => Effect.fail(onMissing()),
+      onSome: Effect.succeed
+    }))
+
+export const isUniqueViolation = (error: SqlError.SqlError) => {
+  const code = (error.cause as { code?: unknown } | null)?.code
+  return code === "SQLITE_CONSTRAINT_PRIMARYKEY" || code === "SQLITE_CONSTRAINT_UNIQUE"
+}
@@ -1,9 +1,19 @@
-import type { SqliteClient } from "@effect/sql-sqlite-bun"
-import { Effect, Schema } from "effect"
+import { Schema } from "effect"
+
+// Delivery of our own messages, mirrors Baileys' WAMessageStatus
+export const DeliveryStatus = Schema.Literal("error", "pending", "server_ack", "delivered", "read", "played")
+
+// SQLite has no boolean type, BOOLEAN columns are read back as 0 or 1
+export const SqliteBoolean = Schema.transform(Schema.Literal(0, 1), Schema.Boolean, {
+  strict: true,
+  decode: (value) => value === 1,
+  encode: (value) => (value ? 1 : 0)
+})
 
 // WhatsApp Message Schema with validation
 export class WhatsAppMessage extends Schema.Class<WhatsAppMessage>("WhatsAppMessage")({
   id: Schema.String,
+  sessionId: Schema.String,
   from: Schema.NullOr(Schema.String),
   to: Schema.NullOr(Schema.String),
   chat_id: Schema.String,
@@ -13,12 +23,130 @@ export class WhatsAppMessage extends Schema.Class<WhatsAppMessage>("WhatsAppMess
   isFromMe: Schema.Boolean,
   isGroup: Schema.Boolean,
   processed: Schema.Boolean,
+  // Who sent it, null for our own messages
+  contactId: Schema.NullOr(Schema.Int),
+  // Message this one replies to (contextInfo.stanzaId)
+  quotedMessageId: Schema.NullOr(Schema.String),
+  // Message a reaction, edit, revoke or poll vote refers to
+  targetMessageId: Schema.NullOr(Schema.String),
+  // Id of the button or list row picked by the customer
+  selectedOptionId: Schema.NullOr(Schema.String),
+  mediaPath: Schema.NullOr(Schema.String),
+  mediaMimetype: Schema.NullOr(Schema.String),
+  // Only tracked for messages we sent
+  deliveryStatus: Schema.NullOr(DeliveryStatus),
+  deliveredAt: Schema.NullOr(Schema.String),
+  readAt: Schema.NullOr(Schema.String),
+  editedAt: Schema.NullOr(Schema.String),
+  // Set when the sender deleted it for everyone, the row itself is kept
+  deletedAt: Schema.NullOr(Schema.String),
+  createdAt: Schema.String
+}) {}
+
+// A messages row as the repository selects it
+export const WhatsAppMessageRow = Schema.Struct({
+  ...WhatsAppMessage.fields,
+  isFromMe: SqliteBoolean,
+  isGroup: SqliteBoolean,
+  processed: SqliteBoolean
+}).pipe(Schema.compose(WhatsAppMessage))
+
+// What identifies a message: WhatsApp ids are only unique within a chat, and our copy
+// of a sent message shares its id with the recipient's. Child tables are keyed on it too.
+export const MessageKey = Schema.Struct({
+  chatId: Schema.String,
+  messageId: Schema.String,
+  fromMe: Schema.Boolean
+})
+
+export type MessageKey = Schema.Schema.Type<typeof MessageKey>
+
+export const keyOf = (message: WhatsAppMessage): MessageKey => ({
+  chatId: message.chat_id,
+  messageId: message.id,
+  fromMe: message.isFromMe
+})
+
+// Content a message had before one of its edits
+export class MessageEdit extends Schema.Class<MessageEdit>("MessageEdit")({
+  id: Schema.Int,
+  messageId: Schema.String,
+  previousContent: Schema.String,
+  editedAt: Schema.String
+}) {}
+
+export const MessageLocation = Schema.Struct({
+  latitude: Schema.Number,
+  longitude: Schema.Number,
+  name: Schema.NullOr(Schema.String),
+  address: Schema.NullOr(Schema.String),
+  isLive: Schema.Boolean
+})
+
+export const MessageContact = Schema.Struct({
+  displayName: Schema.NullOr(Schema.String),
+  vcard: Schema.String
+})
+
+export const MessagePoll = Schema.Struct({
+  name: Schema.String,
+  options: Schema.Array(Schema.String),
+  selectableCount: Schema.Int
+})
+
+// Structured payloads kept in child tables of messages
+export const MessageDetails = Schema.Struct({
+  location: Schema.optional(MessageLocation),
+  contacts: Schema.optional(Schema.Array(MessageContact)),
+  poll: Schema.optional(MessagePoll)
+})
+
+export type MessageDetails = Schema.Schema.Type<typeof MessageDetails>
+
+export class MessageReaction extends Schema.Class<MessageReaction>("MessageReaction")({
+  chat_id: Schema.String,
+  messageId: Schema.String,
+  sender: Schema.String,
+  emoji: Schema.String,
+  reactedAt: Schema.String
+}) {}
+
+export const WorkStatus = Schema.Literal("pending", "leased", "done", "dead")
+
+// A stored message waiting to go through the handlers
+export class MessageWorkItem extends Schema.Class<MessageWorkItem>("MessageWorkItem")({
+  id: Schema.Int,
+  messageId: Schema.String,
+  chat_id: Schema.String,
+  isFromMe: Schema.Boolean,
+  status: WorkStatus,
+  attempts: Schema.Int,
+  lastError: Schema.NullOr(Schema.String),
+  availableAt: Schema.String,
+  leaseExpiresAt: Schema.NullOr(Schema.String),
+  createdAt: Schema.String
+}) {}
+
+export const MessageWorkItemRow = Schema.Struct({
+  ...MessageWorkItem.fields,
+  isFromMe: SqliteBoolean
+}).pipe(Schema.compose(MessageWorkItem))
+
+export const HandlerOutcomeStatus = Schema.Literal("claimed", "transformed", "skipped", "failed")
+
+// What one message handler did with one message
+export class HandlerOutcome extends Schema.Class<HandlerOutcome>("HandlerOutcome")({
+  messageId: Schema.String,
+  handler: Schema.String,
+  outcome: HandlerOutcomeStatus,
+  note: Schema.NullOr(Schema.String),
   createdAt: Schema.String
 }) {}
 
 // Request schemas for database operations
 export const InsertMessageSchema = Schema.Struct({
   id: Schema.String,
+  sessionId: Schema.String,
   from: Schema.NullOr(Schema.String),
   to: Schema.NullOr(Schema.String),
   chat_id: Schema.String,
@@ -27,40 +155,388 @@ export const InsertMessageSchema = Schema.Struct({
   messageType: Schema.String,
   isFromMe: Schema.Boolean,
   isGroup: Schema.Boolean,
-  processed: Schema.Boolean
+  processed: Schema.Boolean,
+  contactId: Schema.optional(Schema.NullOr(Schema.Int)),
+  quotedMessageId: Schema.optional(Schema.NullOr(Schema.String)),
+  targetMessageId: Schema.optional(Schema.NullOr(Schema.String)),
+  selectedOptionId: Schema.optional(Schema.NullOr(Schema.String)),
+  mediaPath: Schema.optional(Schema.NullOr(Schema.String)),
+  mediaMimetype: Schema.optional(Schema.NullOr(Schema.String)),
+  deliveryStatus: Schema.optional(Schema.NullOr(DeliveryStatus))
 })
 
+export const MessageSearchSchema = Schema.Struct({
+  q: Schema.NonEmptyTrimmedString,
+  sessionId: Schema.optional(Schema.String),
+  chatId: Schema.optional(Schema.String),
+  // Phone number of the sender
+  from: Schema.optional(Schema.String),
+  messageType: Schema.optional(Schema.String),
+  fromMe: Schema.optional(Schema.BooleanFromString),
+  since: Schema.optional(Schema.String),
+  until: Schema.optional(Schema.String),
+  cursor: Schema.optional(Schema.String),
+  limit: Schema.optionalWith(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)), { default: () => 20 })
+})
+
+export class MessageSearchHit extends Schema.Class<MessageSearchHit>("MessageSearchHit")({
+  message: WhatsAppMessage,
+  // Part of the content around the matches, which are wrapped in <mark></mark>
+  snippet: Schema.String
+}) {}
+
+// Newest hits first, nextCursor is null on the last page
+export const MessageSearchPage = Schema.Struct({
+  hits: Schema.Array(MessageSearchHit),
+  nextCursor: Schema.NullOr(Schema.String)
+})
+
+export type MessageSearchPage = Schema.Schema.Type<typeof MessageSearchPage>
+
+export const ChatHistoryQuerySchema = Schema.Struct({
+  before: Schema.optional(Schema.String),
+  limit: Schema.optionalWith(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 500)), { default: () => 50 })
+})
+
+// Oldest first, before is the cursor of the previous page and null once the chat starts
+export const ChatHistoryPage = Schema.Struct({
+  messages: Schema.Array(WhatsAppMessage),
+  before: Schema.NullOr(Schema.String)
+})
+
+export type ChatHistoryPage = Schema.Schema.Type<typeof ChatHistoryPage>
+
 export const MessageIdSchema = Schema.String
 
 export const ChatIdSchema = Schema.String
 
-export const createTables = (sql: SqliteClient.SqliteClient) =>
-  Effect.gen(function* () {
-    yield* sql`
-      CREATE TABLE IF NOT EXISTS messages (
-        id TEXT PRIMARY KEY,
-        from_phone TEXT,
-        to_phone TEXT,
-        chat_id TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        content TEXT NOT NULL,
-        message_type TEXT NOT NULL DEFAULT 'text',
-        is_from_me BOOLEAN NOT NULL DEFAULT false,
-        is_group BOOLEAN NOT NULL DEFAULT false,
-        processed BOOLEAN NOT NULL DEFAULT false,
-        created_at TEXT NOT NULL DEFAULT (datetime('now'))
-      )
-    `
-
-    yield* sql`
-      CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id)
-    `
-
-    yield* sql`
-      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp)
-    `
-
-    yield* sql`
-      CREATE INDEX IF NOT EXISTS idx_messages_processed ON messages(processed)
-    `
-  })
\ No newline at end of file
+export class ChatSummary extends Schema.Class<ChatSummary>("ChatSummary")({
+  sessionId: Schema.String,
+  chat_id: Schema.String,
+  // Group subject, or the name of the contact of a one to one chat
+  name: Schema.NullOr(Schema.String),
+  isGroup: Schema.Boolean,
+  unreadCount: Schema.Int,
+  messageCount: Schema.Int,
+  lastMessageAt: Schema.String,
+  lastMessage: Schema.String
+}) {}
+
+export const ChatSummaryRow = Schema.Struct({
+  ...ChatSummary.fields,
+  isGroup: SqliteBoolean
+}).pipe(Schema.compose(ChatSummary))
+
+// Someone we exchanged messages with. WhatsApp addresses a user by phone number
+// or by LID (an opaque id hiding the number), both are kept once known.
+export class Contact extends Schema.Class<Contact>("Contact")({
+  id: Schema.Int,
+  sessionId: Schema.String,
+  // Phone number JID when known, the LID otherwise
+  jid: Schema.String,
+  lid: Schema.NullOr(Schema.String),
+  phone: Schema.NullOr(Schema.String),
+  // Name the user set on their own profile
+  pushName: Schema.NullOr(Schema.String),
+  // Name the contact is saved under on the session's phone
+  savedName: Schema.NullOr(Schema.String),
+  verifiedName: Schema.NullOr(Schema.String),
+  updatedAt: Schema.String
+}) {}
+
+export const contactName = (contact: Contact): string | null =>
+  contact.savedName ?? contact.pushName ?? contact.verifiedName
+
+export const ParticipantRole = Schema.Literal("member", "admin", "superadmin")
+
+export class GroupParticipant extends Schema.Class<GroupParticipant>("GroupParticipant")({
+  chat_id: Schema.String,
+  contactId: Schema.Int,
+  jid: Schema.String,
+  phone: Schema.NullOr(Schema.String),
+  name: Schema.NullOr(Schema.String),
+  role: ParticipantRole
+}) {}
+
+// Languages the bot's messages are written in
+export const Locale = Schema.Literal("pt-BR", "en", "es")
+
+export type Locale = Schema.Schema.Type<typeof Locale>
+
+// A message template in one locale, the built-in text until it is edited
+export class MessageTemplate extends Schema.Class<MessageTemplate>("MessageTemplate")({
+  name: Schema.String,
+  locale: Locale,
+  body: Schema.String,
+  // Variables the body may use
+  variables: Schema.Array(Schema.String),
+  custom: Schema.Boolean,
+  // Null while the built-in text is in use
+  updatedAt: Schema.NullOr(Schema.String)
+}) {}
+
+export const TemplateUpdateSchema = Schema.Struct({
+  body: Schema.NonEmptyString
+})
+
+// A null locale goes back to DEFAULT_LOCALE
+export const ChatLocaleSchema = Schema.Struct({
+  sessionId: Schema.String,
+  locale: Schema.NullOr(Locale)
+})
+
+// Who answers a chat: the bot, a person (back to the bot after HANDOFF_IDLE_MINUTES
+// without a reply of theirs) or nobody automated until someone switches it back
+export const ChatMode = Schema.Literal("bot", "human", "paused")
+
+export type ChatMode = Schema.Schema.Type<typeof ChatMode>
+
+// Staff member answering chats handed over from the bot
+export class Agent extends Schema.Class<Agent>("Agent")({
+  id: Schema.String,
+  name: Schema.String,
+  createdAt: Schema.String
+}) {}
+
+export class ChatHandoff extends Schema.Class<ChatHandoff>("ChatHandoff")({
+  sessionId: Schema.String,
+  chat_id: Schema.String,
+  name: Schema.NullOr(Schema.String),
+  mode: ChatMode,
+  assignedAgentId: Schema.NullOr(Schema.String),
+  modeChangedAt: Schema.NullOr(Schema.String),
+  agentActiveAt: Schema.NullOr(Schema.String)
+}) {}
+
+export const AgentCreateSchema = Schema.Struct({
+  name: Schema.NonEmptyTrimmedString
+})
+
+export const ChatModeSchema = Schema.Struct({
+  sessionId: Schema.String,
+  mode: ChatMode
+})
+
+// A null agent leaves the chat unassigned
+export const ChatAssignmentSchema = Schema.Struct({
+  sessionId: Schema.String,
+  agentId: Schema.NullOr(Schema.String)
+})
+
+// Scheduling domain schemas
+export const AppointmentStatus = Schema.Literal("pending", "confirmed", "cancelled", "no-show")
+
+export type AppointmentStatus = Schema.Schema.Type<typeof AppointmentStatus>
+
+export class Service extends Schema.Class<Service>("Service")({
+  id: Schema.String,
+  name: Schema.String,
+  durationMinutes: Schema.Int,
+  bufferMinutes: Schema.Int,
+  priceCents: Schema.Int,
+  active: Schema.Boolean
+}) {}
+
+export class Professional extends Schema.Class<Professional>("Professional")({
+  id: Schema.String,
+  name: Schema.String,
+  active: Schema.Boolean
+}) {}
+
+export const ServiceRow = Schema.Struct({
+  ...Service.fields,
+  active: SqliteBoolean
+}).pipe(Schema.compose(Service))
+
+export const ProfessionalRow = Schema.Struct({
+  ...Professional.fields,
+  active: SqliteBoolean
+}).pipe(Schema.compose(Professional))
+
+// Weekly opening window of a professional, times are "HH:MM" in BUSINESS_TIMEZONE
+export class AvailabilityRule extends Schema.Class<AvailabilityRule>("AvailabilityRule")({
+  id: Schema.Number,
+  professionalId: Schema.String,
+  weekday: Schema.Int.pipe(Schema.between(0, 6)),
+  startTime: Schema.String,
+  endTime: Schema.String
+}) {}
+
+// Weekly pause inside the opening hours, like lunch
+export class AvailabilityBreak extends Schema.Class<AvailabilityBreak>("AvailabilityBreak")({
+  ...AvailabilityRule.fields
+}) {}
+
+export class Closure extends Schema.Class<Closure>("Closure")({
+  id: Schema.Number,
+  // Null closes every professional
+  professionalId: Schema.NullOr(Schema.String),
+  startAt: Schema.String,
+  endAt: Schema.String,
+  reason: Schema.NullOr(Schema.String)
+}) {}
+
+export class Appointment extends Schema.Class<Appointment>("Appointment")({
+  id: Schema.String,
+  sessionId: Schema.String,
+  chat_id: Schema.String,
+  customerPhone: Schema.NullOr(Schema.String),
+  professionalId: Schema.String,
+  serviceId: Schema.String,
+  startAt: Schema.String,
+  endAt: Schema.String,
+  status: AppointmentStatus,
+  // Revision of the calendar event
+  sequence: Schema.Int,
+  createdAt: Schema.String,
+  updatedAt: Schema.String
+}) {}
+
+export class Slot extends Schema.Class<Slot>("Slot")({
+  professionalId: Schema.String,
+  serviceId: Schema.String,
+  startAt: Schema.String,
+  endAt: Schema.String
+}) {}
+
+export const BookSlotSchema = Schema.Struct({
+  sessionId: Schema.String,
+  chat_id: Schema.String,
+  customerPhone: Schema.NullOr(Schema.String),
+  professionalId: Schema.String,
+  serviceId: Schema.String,
+  startAt: Schema.String
+})
+
+export const AppointmentFilterSchema = Schema.Struct({
+  sessionId: Schema.optional(Schema.String),
+  chatId: Schema.optional(Schema.String),
+  professionalId: Schema.optional(Schema.String),
+  status: Schema.optional(AppointmentStatus),
+  from: Schema.optional(Schema.String),
+  to: Schema.optional(Schema.String)
+})
+
+export const SlotQuerySchema = Schema.Struct({
+  serviceId: Schema.String,
+  professionalId: Schema.optional(Schema.String),
+  from: Schema.String,
+  to: Schema.String
+})
+
+// Outbound message schemas
+export const OutgoingText = Schema.Struct({
+  text: Schema.String
+})
+
+// The file travels through the outbox as text, only small text files like .ics invites are sent
+export const OutgoingDocument = Schema.Struct({
+  document: Schema.String,
+  fileName: Schema.String,
+  mimetype: Schema.String,
+  caption: Schema.optional(Schema.String)
+})
+
+export const OutgoingContent = Schema.Union(OutgoingText, OutgoingDocument)
+
+export const OutboxStatus = Schema.Literal("pending", "sending", "sent", "failed")
+
+export class OutboxMessage extends Schema.Class<OutboxMessage>("OutboxMessage")({
+  id: Schema.Number,
+  messageId: Schema.String,
+  sessionId: Schema.String,
+  chat_id: Schema.String,
+  content: Schema.String,
+  status: OutboxStatus,
+  attempts: Schema.Int,
+  lastError: Schema.NullOr(Schema.String),
+  nextAttemptAt: Schema.String,
+  createdAt: Schema.String,
+  sentAt: Schema.NullOr(Schema.String)
+}) {}
+
+// Scheduled job schemas
+export const JobStatus = Schema.Literal("pending", "running", "done", "failed", "cancelled")
+
+export class ScheduledJob extends Schema.Class<ScheduledJob>("ScheduledJob")({
+  id: Schema.Number,
+  jobType: Schema.String,
+  dedupeKey: Schema.String,
+  payload: Schema.String,
+  runAt: Schema.String,
+  status: JobStatus,
+  attempts: Schema.Int,
+  lastError: Schema.NullOr(Schema.String)
+}) {}
+
+// Webhook schemas
+export const WebhookEventType = Schema.Literal(
+  "message.received",
+  "message.sent",
+  "appointment.created",
+  "appointment.rescheduled",
+  "appointment.cancelled",
+  "connection.changed"
+)
+
+export type WebhookEventType = Schema.Schema.Type<typeof WebhookEventType>
+
+// Receiver of the events it subscribed to, its secret is only shown when it is created
+export class WebhookEndpoint extends Schema.Class<WebhookEndpoint>("WebhookEndpoint")({
+  id: Schema.String,
+  url: Schema.String,
+  eventTypes: Schema.Array(WebhookEventType),
+  active: Schema.Boolean,
+  createdAt: Schema.String
+}) {}
+
+export const WebhookEndpointRow = Schema.Struct({
+  ...WebhookEndpoint.fields,
+  eventTypes: Schema.parseJson(Schema.Array(WebhookEventType)),
+  active: SqliteBoolean
+}).pipe(Schema.compose(WebhookEndpoint))
+
+export class CreatedWebhookEndpoint extends Schema.Class<CreatedWebhookEndpoint>("CreatedWebhookEndpoint")({
+  ...WebhookEndpoint.fields,
+  secret: Schema.String
+}) {}
+
+const WebhookUrl = Schema.String.pipe(Schema.pattern(/^https?:\/\/\S+$/))
+
+export const WebhookEndpointCreateSchema = Schema.Struct({
+  url: WebhookUrl,
+  eventTypes: Schema.NonEmptyArray(WebhookEventType),
+  // Generated when left out
+  secret: Schema.optional(Schema.String.pipe(Schema.minLength(16)))
+})
+
+export const WebhookEndpointUpdateSchema = Schema.Struct({
+  url: WebhookUrl,
+  eventTypes: Schema.NonEmptyArray(WebhookEventType),
+  active: Schema.Boolean
+})
+
+export const WebhookDeliveryStatus = Schema.Literal("pending", "delivering", "delivered", "failed")
+
+// One POST of an event to an endpoint, with the outcome of its last attempt
+export class WebhookDelivery extends Schema.Class<WebhookDelivery>("WebhookDelivery")({
+  id: Schema.Number,
+  endpointId: Schema.String,
+  eventId: Schema.String,
+  eventType: WebhookEventType,
+  payload: Schema.String,
+  status: WebhookDeliveryStatus,
+  attempts: Schema.Int,
+  responseStatus: Schema.NullOr(Schema.Int),
+  lastError: Schema.NullOr(Schema.String),
+  nextAttemptAt: Schema.String,
+  createdAt: Schema.String,
+  deliveredAt: Schema.NullOr(Schema.String)
+}) {}
+
+export const WebhookDeliveryFilterSchema = Schema.Struct({
+  endpointId: Schema.optional(Schema.String),
+  eventType: Schema.optional(WebhookEventType),
+  status: Schema.optional(WebhookDeliveryStatus),
+  limit: Schema.optionalWith(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 500)), { default: () => 100 })
+})
@@ -0,0 +1,181 @@
+import { Config, Effect, Context, Layer, Data, Option, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { Locale, MessageTemplate } from "./Schema.js"
+import { DecodeError, findAll, findOne, single } from "./Rows.js"
+import { BookingPolicy } from "../booking/Availability.js"
+import {
+  TEMPLATE_NAMES,
+  defaultBody,
+  isTemplateName,
+  renderTemplate,
+  templateVariables,
+  validateTemplate,
+  type TemplateMessage,
+  type TemplateName
+} from "../booking/Templates.js"
+
+export class TemplateNotFound extends Data.TaggedError("TemplateNotFound")<{
+  readonly name: string
+}> {}
+
+export class InvalidTemplate extends Data.TaggedError("InvalidTemplate")<{
+  readonly name: string
+  readonly locale: Locale
+  readonly problems: ReadonlyArray<string>
+}> {}
+
+export class TemplateRepository extends Context.Tag("TemplateRepository")<
+  TemplateRepository,
+  {
+    // Every template in every locale, edited or not
+    readonly listTemplates: () => Effect.Effect<MessageTemplate[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly saveTemplate: (name: string, locale: Locale, body: string) => Effect.Effect<MessageTemplate, SqlError.SqlError | DecodeError | TemplateNotFound | InvalidTemplate, SqliteClient.SqliteClient>
+    // Drops the edit, the built-in text is used again
+    readonly resetTemplate: (name: string, locale: Locale) => Effect.Effect<MessageTemplate, SqlError.SqlError | TemplateNotFound, SqliteClient.SqliteClient>
+    readonly chatLocale: (sessionId: string, chatId: string) => Effect.Effect<Locale, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly setChatLocale: (sessionId: string, chatId: string, locale: Locale | null) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly render: (message: TemplateMessage, locale: Locale) => Effect.Effect<string, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+// Language of chats nobody picked one for and currency of service prices
+export const MessageFormat = Config.all({
+  defaultLocale: Config.literal("pt-BR", "en", "es")("DEFAULT_LOCALE").pipe(Config.withDefault("pt-BR" as const)),
+  currency: Config.string("BUSINESS_CURRENCY").pipe(
+    Config.withDefault("BRL"),
+    Config.validate({ message: "Expected an ISO 4217 currency code like BRL", validation: (code) => /^[A-Z]{3}$/.test(code) })
+  )
+})
+
+const StoredTemplate = Schema.Struct({
+  name: Schema.String,
+  locale: Locale,
+  body: Schema.String,
+  updatedAt: Schema.String
+})
+
+type StoredTemplate = Schema.Schema.Type<typeof StoredTemplate>
+
+const ChatLocale = Schema.Struct({
+  locale: Schema.NullOr(Locale)
+})
+
+const toTemplate = (name: TemplateName, locale: Locale, stored: StoredTemplate | undefined) =>
+  new MessageTemplate({
+    name,
+    locale,
+    body: stored?.body ?? defaultBody(name, locale),
+    variables: templateVariables(name),
+    custom: stored !== undefined,
+    updatedAt: stored?.updatedAt ?? null
+  })
+
+const knownTemplate = (name: string) =>
+  isTemplateName(name) ? Effect.succeed(name) : Effect.fail(new TemplateNotFound({ name }))
+
+export const TemplateRepositoryLive = Layer.effect(
+  TemplateRepository,
+  Effect.gen(function* () {
+    const { timeZone } = yield* BookingPolicy
+    const { defaultLocale, currency } = yield* MessageFormat
+
+    return {
+      listTemplates: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const stored = yield* sql`
+            SELECT name, locale, body, updated_at as "updatedAt"
+            FROM message_templates
+          `.pipe(findAll(StoredTemplate))
+          const edits = new Map(stored.map((template) => [`${template.name}:${template.locale}`, template]))
+
+          return TEMPLATE_NAMES.flatMap((name) =>
+            Locale.literals.map((locale) => toTemplate(name, locale, edits.get(`${name}:${locale}`)))
+          )
+        }),
+
+      saveTemplate: (name, locale, body) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const template = yield* knownTemplate(name)
+
+          const problems = validateTemplate(template, body)
+          if (problems.length > 0) {
+            return yield* new InvalidTemplate({ name, locale, problems })
+          }
+
+          const stored = yield* sql`
+            INSERT INTO message_templates (name, locale, body)
+            VALUES (${template}, ${locale}, ${body})
+            ON CONFLICT (name, locale) DO UPDATE SET
+              body = excluded.body,
+              updated_at = datetime('now')
+            RETURNING name, locale, body, updated_at as "updatedAt"
+          `.pipe(single(StoredTemplate, () => new DecodeError({ message: `Template ${name} was not saved` })))
+
+          yield* Effect.log(`📝 Template ${name} (${locale}) updated`)
+          return toTemplate(template, locale, stored)
+        }),
+
+      resetTemplate: (name, locale) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const template = yield* knownTemplate(name)
+
+          yield* sql`DELETE FROM message_templates WHERE name = ${template} AND locale = ${locale}`
+
+          return toTemplate(template, locale, undefined)
+        }),
+
+      chatLocale: (sessionId, chatId) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const chat = yield* sql`
+            SELECT locale FROM chats
+            WHERE session_id = ${sessionId} AND chat_id = ${chatId}
+          `.pipe(findOne(ChatLocale))
+
+          return Option.match(chat, {
+            onNone: () => defaultLocale,
+            onSome: (row) => row.locale ?? defaultLocale
+          })
+        }),
+
+      setChatLocale: (sessionId, chatId, locale) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            INSERT INTO chats (session_id, chat_id, locale)
+            VALUES (${sessionId}, ${chatId}, ${locale})
+            ON CONFLICT (session_id, chat_id) DO UPDATE SET
+              locale = excluded.locale,
+              updated_at = datetime('now')
+          `
+        }),
+
+      // Edits are read on every render, so a saved template applies to the next message
+      render: (message, locale) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const stored = yield* sql`
+            SELECT name, locale, body, updated_at as "updatedAt"
+            FROM message_templates
+            WHERE locale = ${locale}
+          `.pipe(findAll(StoredTemplate))
+          const edits = new Map(stored.map((template) => [template.name, template.body]))
+
+          return renderTemplate(message.template, message.variables, {
+            locale,
+            timeZone,
+            currency,
+            bodyOf: (name) => edits.get(name) ?? defaultBody(name, locale)
+          })
+        })
+    }
+  })
+)
@@ -0,0 +1,147 @@
+import { Effect, Context, Data, Layer, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import {
+  CreatedWebhookEndpoint,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointRow,
+  type WebhookDeliveryFilterSchema,
+  type WebhookEndpointCreateSchema,
+  type WebhookEndpointUpdateSchema
+} from "./Schema.js"
+import { DecodeError, findAll, single } from "./Rows.js"
+
+export class WebhookEndpointNotFound extends Data.TaggedError("WebhookEndpointNotFound")<{
+  readonly endpointId: string
+}> {}
+
+export class WebhookDeliveryNotFound extends Data.TaggedError("WebhookDeliveryNotFound")<{
+  readonly deliveryId: number
+}> {}
+
+// Endpoints and the delivery log, deliveries themselves are made by the WebhookDispatcher
+export class WebhookRepository extends Context.Tag("WebhookRepository")<
+  WebhookRepository,
+  {
+    readonly listEndpoints: () => Effect.Effect<WebhookEndpoint[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly createEndpoint: (request: Schema.Schema.Type<typeof WebhookEndpointCreateSchema>) => Effect.Effect<CreatedWebhookEndpoint, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly updateEndpoint: (endpointId: string, update: Schema.Schema.Type<typeof WebhookEndpointUpdateSchema>) => Effect.Effect<WebhookEndpoint, SqlError.SqlError | DecodeError | WebhookEndpointNotFound, SqliteClient.SqliteClient>
+    // Its delivery log goes with it
+    readonly deleteEndpoint: (endpointId: string) => Effect.Effect<void, SqlError.SqlError | WebhookEndpointNotFound, SqliteClient.SqliteClient>
+    // Newest first
+    readonly listDeliveries: (filter: Schema.Schema.Type<typeof WebhookDeliveryFilterSchema>) => Effect.Effect<WebhookDelivery[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Queues the same event again as a new delivery, the original stays in the log
+    readonly redeliver: (deliveryId: number) => Effect.Effect<WebhookDelivery, SqlError.SqlError | DecodeError | WebhookDeliveryNotFound, SqliteClient.SqliteClient>
+  }
+>() {}
+
+const ENDPOINT_COLUMNS = `
+  id,
+  url,
+  event_types as "eventTypes",
+  active,
+  created_at as "createdAt"
+`
+
+export const DELIVERY_COLUMNS = `
+  id,
+  endpoint_id as "endpointId",
+  event_id as "eventId",
+  event_type as "eventType",
+  payload,
+  status,
+  attempts,
+  response_status as "responseStatus",
+  last_error as "lastError",
+  next_attempt_at as "nextAttemptAt",
+  created_at as "createdAt",
+  delivered_at as "deliveredAt"
+`
+
+export const WebhookRepositoryLive = Layer.succeed(WebhookRepository, {
+  listEndpoints: () =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      return yield* sql`
+        SELECT ${sql.literal(ENDPOINT_COLUMNS)}
+        FROM webhook_endpoints
+        ORDER BY created_at, id
+      `.pipe(findAll(WebhookEndpointRow))
+    }),
+
+  createEndpoint: ({ url, eventTypes, secret }) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+      const key = secret ?? crypto.randomUUID().replaceAll('-', '') + crypto.randomUUID().replaceAll('-', '')
+
+      const endpoint = yield* sql`
+        INSERT INTO webhook_endpoints (id, url, secret, event_types)
+        VALUES (${crypto.randomUUID()}, ${url}, ${key}, ${JSON.stringify(eventTypes)})
+        RETURNING ${sql.literal(ENDPOINT_COLUMNS)}
+      `.pipe(single(WebhookEndpointRow, () => new DecodeError({ message: "Webhook endpoint insert returned no row" })))
+
+      return new CreatedWebhookEndpoint({ ...endpoint, secret: key })
+    }),
+
+  updateEndpoint: (endpointId, { url, eventTypes, active }) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      return yield* sql`
+        UPDATE webhook_endpoints
+        SET url = ${url}, event_types = ${JSON.stringify(eventTypes)}, active = ${active}
+        WHERE id = ${endpointId}
+        RETURNING ${sql.literal(ENDPOINT_COLUMNS)}
+      `.pipe(single(WebhookEndpointRow, () => new WebhookEndpointNotFound({ endpointId })))
+    }),
+
+  deleteEndpoint: (endpointId) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      const deleted = yield* sql.withTransaction(
+        Effect.gen(function* () {
+          yield* sql`DELETE FROM webhook_deliveries WHERE endpoint_id = ${endpointId}`
+          return yield* sql`DELETE FROM webhook_endpoints WHERE id = ${endpointId} RETURNING id`
+        })
+      )
+
+      if (deleted.length === 0) {
+        return yield* new WebhookEndpointNotFound({ endpointId })
+      }
+    }),
+
+  listDeliveries: (filter) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      const conditions = [
+        filter.endpointId !== undefined ? sql`endpoint_id = ${filter.endpointId}` : undefined,
+        filter.eventType !== undefined ? sql`event_type = ${filter.eventType}` : undefined,
+        filter.status !== undefined ? sql`status = ${filter.status}` : undefined
+      ].filter((condition) => condition !== undefined)
+
+      return yield* sql`
+        SELECT ${sql.literal(DELIVERY_COLUMNS)}
+        FROM webhook_deliveries
+        WHERE ${sql.and(conditions)}
+        ORDER BY id DESC
+        LIMIT ${filter.limit}
+      `.pipe(findAll(WebhookDelivery))
+    }),
+
+  redeliver: (deliveryId) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      return yield* sql`
+        INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+        SELECT endpoint_id, event_id, event_type, payload
+        FROM webhook_deliveries
+        WHERE id = ${deliveryId}
+        RETURNING ${sql.literal(DELIVERY_COLUMNS)}
+      `.pipe(single(WebhookDelivery, () => new WebhookDeliveryNotFound({ deliveryId })))
+    })
+})
@@ -0,0 +1,364 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Columns added to these tables while they were still created with
+// CREATE TABLE IF NOT EXISTS, missing from databases created back then
+const LEGACY_COLUMNS: Record<string, Record<string, string>> = {
+  messages: {
+    session_id: "TEXT NOT NULL DEFAULT 'default'",
+    quoted_message_id: "TEXT",
+    target_message_id: "TEXT",
+    selected_option_id: "TEXT",
+    media_path: "TEXT",
+    media_mimetype: "TEXT",
+    delivery_status: "TEXT",
+    delivered_at: "TEXT",
+    read_at: "TEXT",
+    edited_at: "TEXT",
+    deleted_at: "TEXT"
+  },
+  appointments: {
+    session_id: "TEXT NOT NULL DEFAULT 'default'"
+  },
+  outbox: {
+    session_id: "TEXT NOT NULL DEFAULT 'default'"
+  }
+}
+
+// Brings a database created before migrations up to the tables below
+const upgradeLegacyTables = Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  for (const [table, columns] of Object.entries(LEGACY_COLUMNS)) {
+    const existing = yield* sql<{ name: string }>`SELECT name FROM pragma_table_info(${table})`
+    if (existing.length === 0) continue
+
+    const names = new Set(existing.map((column) => column.name))
+    for (const [column, definition] of Object.entries(columns)) {
+      if (!names.has(column)) {
+        yield* sql.unsafe(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+      }
+    }
+  }
+
+  // The key of conversations changed to (session_id, chat_id), which SQLite cannot
+  // alter. The table only holds dialogues in progress, so it is recreated empty.
+  const conversationColumns = yield* sql<{ name: string }>`SELECT name FROM pragma_table_info('conversations')`
+  if (conversationColumns.length > 0 && !conversationColumns.some((column) => column.name === "session_id")) {
+    yield* sql`DROP TABLE conversations`
+  }
+})
+
+// Every table as it stood when migrations were introduced. IF NOT EXISTS lets it
+// adopt a database created by the old startup code instead of failing on it.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  yield* upgradeLegacyTables
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS messages (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL DEFAULT 'default',
+      from_phone TEXT,
+      to_phone TEXT,
+      chat_id TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      content TEXT NOT NULL,
+      message_type TEXT NOT NULL DEFAULT 'text',
+      is_from_me BOOLEAN NOT NULL DEFAULT false,
+      is_group BOOLEAN NOT NULL DEFAULT false,
+      processed BOOLEAN NOT NULL DEFAULT false,
+      quoted_message_id TEXT,
+      target_message_id TEXT,
+      selected_option_id TEXT,
+      media_path TEXT,
+      media_mimetype TEXT,
+      delivery_status TEXT
+        CHECK (delivery_status IN ('error', 'pending', 'server_ack', 'delivered', 'read', 'played')),
+      delivered_at TEXT,
+      read_at TEXT,
+      edited_at TEXT,
+      deleted_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  // Previous contents of edited messages, oldest first
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_edits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL REFERENCES messages(id),
+      previous_content TEXT NOT NULL,
+      edited_at TEXT NOT NULL
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_target ON messages(target_message_id)
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_locations (
+      message_id TEXT PRIMARY KEY REFERENCES messages(id),
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      name TEXT,
+      address TEXT,
+      is_live BOOLEAN NOT NULL DEFAULT false
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_contacts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL REFERENCES messages(id),
+      display_name TEXT,
+      vcard TEXT NOT NULL
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_message_contacts_message ON message_contacts(message_id)
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_polls (
+      message_id TEXT PRIMARY KEY REFERENCES messages(id),
+      name TEXT NOT NULL,
+      options TEXT NOT NULL,
+      selectable_count INTEGER NOT NULL DEFAULT 1
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_handler_outcomes (
+      message_id TEXT NOT NULL REFERENCES messages(id),
+      handler TEXT NOT NULL,
+      outcome TEXT NOT NULL
+        CHECK (outcome IN ('claimed', 'transformed', 'skipped', 'failed')),
+      note TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      PRIMARY KEY (message_id, handler)
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_message_handler_outcomes_handler ON message_handler_outcomes(handler, created_at)
+  `
+
+  // Work queue of stored messages. A claim leases the row until lease_expires_at,
+  // if the worker dies the lease runs out and the row is claimed again.
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_work (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL UNIQUE REFERENCES messages(id),
+      chat_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'leased', 'done', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      available_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      lease_expires_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      completed_at TEXT
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_message_work_status_available ON message_work(status, available_at)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_message_work_chat_status ON message_work(chat_id, status)
+  `
+
+  // Chats that asked not to receive automatic messages
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS opt_outs (
+      session_id TEXT NOT NULL,
+      chat_id TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (session_id, chat_id)
+    )
+  `
+
+  // Latest reaction of each sender to a message, an empty reaction removes it
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS message_reactions (
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      reacted_at TEXT NOT NULL,
+      PRIMARY KEY (chat_id, message_id, sender)
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_processed ON messages(processed)
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS services (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      duration_minutes INTEGER NOT NULL,
+      price_cents INTEGER NOT NULL DEFAULT 0,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS professionals (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS availability_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      professional_id TEXT NOT NULL REFERENCES professionals(id),
+      weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+      start_time TEXT NOT NULL,
+      end_time TEXT NOT NULL
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS appointments (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL DEFAULT 'default',
+      chat_id TEXT NOT NULL,
+      customer_phone TEXT,
+      professional_id TEXT NOT NULL REFERENCES professionals(id),
+      service_id TEXT NOT NULL REFERENCES services(id),
+      start_at TEXT NOT NULL,
+      end_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'confirmed', 'cancelled', 'no-show')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_availability_rules_professional ON availability_rules(professional_id, weekday)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_appointments_chat_id ON appointments(chat_id)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_appointments_professional_start ON appointments(professional_id, start_at)
+  `
+
+  // Current booking dialogue step of each chat, stored as JSON
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS conversations (
+      session_id TEXT NOT NULL,
+      chat_id TEXT NOT NULL,
+      state TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (session_id, chat_id)
+    )
+  `
+
+  // Durable send queue, message_id is generated up front so a resend after a crash reuses it
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL UNIQUE,
+      session_id TEXT NOT NULL DEFAULT 'default',
+      chat_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      sent_at TEXT
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_outbox_status_next_attempt ON outbox(session_id, status, next_attempt_at)
+  `
+
+  // Jobs due at a point in time, dedupe_key makes scheduling the same job twice a no-op
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_type TEXT NOT NULL,
+      dedupe_key TEXT NOT NULL UNIQUE,
+      payload TEXT NOT NULL,
+      run_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'done', 'failed', 'cancelled')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      completed_at TEXT
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_status_run_at ON scheduled_jobs(status, run_at)
+  `
+
+  // Last line of defence against double-booking the same start time
+  yield* sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_active_slot
+    ON appointments(professional_id, start_at)
+    WHERE status IN ('pending', 'confirmed')
+  `
+
+
+  // WhatsApp credentials and signal keys of every session
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS auth_credentials (
+      session_id TEXT PRIMARY KEY,
+      credentials_data TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE IF NOT EXISTS auth_keys (
+      session_id TEXT NOT NULL,
+      key_type TEXT NOT NULL,
+      key_id TEXT NOT NULL,
+      key_data TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (session_id, key_type, key_id)
+    )
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_auth_keys_session_type ON auth_keys(session_id, key_type)
+  `
+
+  yield* sql`
+    CREATE INDEX IF NOT EXISTS idx_auth_credentials_session ON auth_credentials(session_id)
+  `
+})
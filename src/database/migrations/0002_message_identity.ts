@@ -0,0 +1,60 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// WhatsApp message ids are only unique within a chat, and our copy of a sent message
+// shares its id with the recipient's. Messages are keyed on (chat_id, id, is_from_me),
+// which SQLite cannot alter, so the table is rebuilt.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  yield* sql`
+    CREATE TABLE messages_rebuilt (
+      id TEXT NOT NULL,
+      session_id TEXT NOT NULL DEFAULT 'default',
+      from_phone TEXT,
+      to_phone TEXT,
+      chat_id TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      content TEXT NOT NULL,
+      message_type TEXT NOT NULL DEFAULT 'text',
+      is_from_me BOOLEAN NOT NULL DEFAULT false,
+      is_group BOOLEAN NOT NULL DEFAULT false,
+      processed BOOLEAN NOT NULL DEFAULT false,
+      quoted_message_id TEXT,
+      target_message_id TEXT,
+      selected_option_id TEXT,
+      media_path TEXT,
+      media_mimetype TEXT,
+      delivery_status TEXT
+        CHECK (delivery_status IN ('error', 'pending', 'server_ack', 'delivered', 'read', 'played')),
+      delivered_at TEXT,
+      read_at TEXT,
+      edited_at TEXT,
+      deleted_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (chat_id, id, is_from_me)
+    )
+  `
+
+  yield* sql`
+    INSERT INTO messages_rebuilt (
+      id, session_id, from_phone, to_phone, chat_id, timestamp, content, message_type,
+      is_from_me, is_group, processed, quoted_message_id, target_message_id, selected_option_id,
+      media_path, media_mimetype, delivery_status, delivered_at, read_at, edited_at, deleted_at, created_at
+    )
+    SELECT
+      id, session_id, from_phone, to_phone, chat_id, timestamp, content, message_type,
+      is_from_me, is_group, processed, quoted_message_id, target_message_id, selected_option_id,
+      media_path, media_mimetype, delivery_status, delivered_at, read_at, edited_at, deleted_at, created_at
+    FROM messages
+  `
+
+  yield* sql`DROP TABLE messages`
+  yield* sql`ALTER TABLE messages_rebuilt RENAME TO messages`
+
+  // The key covers lookups by chat, these are the indexes dropped with the old table
+  yield* sql`CREATE INDEX idx_messages_id ON messages(id)`
+  yield* sql`CREATE INDEX idx_messages_target ON messages(target_message_id)`
+  yield* sql`CREATE INDEX idx_messages_timestamp ON messages(timestamp)`
+  yield* sql`CREATE INDEX idx_messages_processed ON messages(processed)`
+})
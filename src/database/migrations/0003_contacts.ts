@@ -0,0 +1,57 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Directory of contacts, chats and group members kept in sync from Baileys
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  // A user reached by LID before their number was known gets a row keyed by the
+  // LID, merged into the phone number row once WhatsApp maps one to the other
+  yield* sql`
+    CREATE TABLE contacts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      jid TEXT NOT NULL,
+      lid TEXT,
+      phone TEXT,
+      push_name TEXT,
+      saved_name TEXT,
+      verified_name TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (session_id, jid)
+    )
+  `
+
+  yield* sql`
+    CREATE UNIQUE INDEX idx_contacts_lid ON contacts(session_id, lid) WHERE lid IS NOT NULL
+  `
+
+  yield* sql`
+    CREATE TABLE chats (
+      session_id TEXT NOT NULL,
+      chat_id TEXT NOT NULL,
+      name TEXT,
+      is_group BOOLEAN NOT NULL DEFAULT false,
+      unread_count INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (session_id, chat_id)
+    )
+  `
+
+  yield* sql`
+    CREATE TABLE group_participants (
+      session_id TEXT NOT NULL,
+      chat_id TEXT NOT NULL,
+      contact_id INTEGER NOT NULL REFERENCES contacts(id),
+      role TEXT NOT NULL DEFAULT 'member'
+        CHECK (role IN ('member', 'admin', 'superadmin')),
+      PRIMARY KEY (session_id, chat_id, contact_id)
+    )
+  `
+
+  // Sender of the message, our own messages have none
+  yield* sql`ALTER TABLE messages ADD COLUMN contact_id INTEGER REFERENCES contacts(id)`
+
+  yield* sql`CREATE INDEX idx_messages_contact ON messages(contact_id)`
+})
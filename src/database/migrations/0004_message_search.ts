@@ -0,0 +1,55 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Full-text index over message contents, kept in sync by triggers. Deleted messages
+// leave the index. The index points at messages by rowid, which a VACUUM may
+// renumber since messages has no INTEGER PRIMARY KEY, run
+// INSERT INTO messages_fts(messages_fts) VALUES ('rebuild') after one.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  // remove_diacritics lets "amanha" find "amanhã"
+  yield* sql`
+    CREATE VIRTUAL TABLE messages_fts USING fts5(
+      content,
+      content = 'messages',
+      content_rowid = 'rowid',
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `
+
+  yield* sql`
+    CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages
+    WHEN new.deleted_at IS NULL
+    BEGIN
+      INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+    END
+  `
+
+  yield* sql`
+    CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages
+    WHEN old.deleted_at IS NULL
+    BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+    END
+  `
+
+  // Covers edits and soft deletes
+  yield* sql`
+    CREATE TRIGGER messages_fts_update AFTER UPDATE OF content, deleted_at ON messages
+    BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, content)
+      SELECT 'delete', old.rowid, old.content WHERE old.deleted_at IS NULL;
+      INSERT INTO messages_fts (rowid, content)
+      SELECT new.rowid, new.content WHERE new.deleted_at IS NULL;
+    END
+  `
+
+  yield* sql`
+    INSERT INTO messages_fts (rowid, content)
+    SELECT rowid, content FROM messages WHERE deleted_at IS NULL
+  `
+
+  // Keyset pagination of a chat walks (timestamp, rowid) backwards
+  yield* sql`CREATE INDEX idx_messages_chat_timestamp ON messages(chat_id, timestamp)`
+})
@@ -0,0 +1,46 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Breaks, holidays, closures and buffers of the availability engine. Weekly hours
+// and breaks are wall clock times of BUSINESS_TIMEZONE.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  // Cleanup time kept free after each appointment of the service
+  yield* sql`ALTER TABLE services ADD COLUMN buffer_minutes INTEGER NOT NULL DEFAULT 0`
+
+  // Recurring pauses inside the opening hours, like lunch
+  yield* sql`
+    CREATE TABLE availability_breaks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      professional_id TEXT NOT NULL REFERENCES professionals(id),
+      weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+      start_time TEXT NOT NULL,
+      end_time TEXT NOT NULL
+    )
+  `
+
+  yield* sql`CREATE INDEX idx_availability_breaks_professional ON availability_breaks(professional_id, weekday)`
+
+  // Days the whole business is closed, as dates of BUSINESS_TIMEZONE
+  yield* sql`
+    CREATE TABLE holidays (
+      day TEXT PRIMARY KEY,
+      name TEXT NOT NULL
+    )
+  `
+
+  // One-off closures between two instants, of one professional or of everyone when professional_id is null
+  yield* sql`
+    CREATE TABLE closures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      professional_id TEXT REFERENCES professionals(id),
+      start_at TEXT NOT NULL,
+      end_at TEXT NOT NULL,
+      reason TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`CREATE INDEX idx_closures_range ON closures(start_at, end_at)`
+})
@@ -0,0 +1,16 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// iCalendar export: the revision of every appointment and the secret of each
+// professional's subscribable feed
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  // SEQUENCE of the VEVENT, bumped when the time or status changes so calendars take the update
+  yield* sql`ALTER TABLE appointments ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0`
+
+  // Calendar apps cannot send the admin token, the feed URL carries this one instead
+  yield* sql`ALTER TABLE professionals ADD COLUMN calendar_token TEXT`
+
+  yield* sql`CREATE UNIQUE INDEX idx_professionals_calendar_token ON professionals(calendar_token) WHERE calendar_token IS NOT NULL`
+})
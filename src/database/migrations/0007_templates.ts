@@ -0,0 +1,21 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Edited message templates and the language of each chat. Templates without a row
+// here use their built-in text.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  yield* sql`
+    CREATE TABLE message_templates (
+      name TEXT NOT NULL,
+      locale TEXT NOT NULL,
+      body TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (name, locale)
+    )
+  `
+
+  // Null follows DEFAULT_LOCALE
+  yield* sql`ALTER TABLE chats ADD COLUMN locale TEXT`
+})
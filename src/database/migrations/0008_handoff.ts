@@ -0,0 +1,24 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Staff who answer chats handed over from the bot, and who is answering each chat.
+// A chat in human or paused mode gets no automated replies.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  yield* sql`
+    CREATE TABLE agents (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  yield* sql`ALTER TABLE chats ADD COLUMN mode TEXT NOT NULL DEFAULT 'bot' CHECK (mode IN ('bot', 'human', 'paused'))`
+  yield* sql`ALTER TABLE chats ADD COLUMN mode_changed_at TEXT`
+  yield* sql`ALTER TABLE chats ADD COLUMN assigned_agent_id TEXT REFERENCES agents(id)`
+  // Last reply of a person, a human chat goes back to the bot once it is old enough
+  yield* sql`ALTER TABLE chats ADD COLUMN agent_active_at TEXT`
+
+  yield* sql`CREATE INDEX idx_chats_mode ON chats(mode) WHERE mode != 'bot'`
+})
@@ -0,0 +1,42 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// Other systems told about messages, appointments and connections over signed HTTP
+// POSTs. Each delivery is a row of the log, retried until it succeeds or gives up.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  // The secret keys the HMAC signature of every request, event_types is a JSON array
+  yield* sql`
+    CREATE TABLE webhook_endpoints (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types TEXT NOT NULL,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `
+
+  // event_id is the same for every delivery of an event, redeliveries included
+  yield* sql`
+    CREATE TABLE webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(id),
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivering', 'delivered', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      last_error TEXT,
+      next_attempt_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      delivered_at TEXT
+    )
+  `
+
+  yield* sql`CREATE INDEX idx_webhook_deliveries_status_next_attempt ON webhook_deliveries(status, next_attempt_at)`
+  yield* sql`CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, id)`
+})
@@ -0,0 +1,160 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+
+// The tables hanging off messages were still keyed on the bare message id, which
+// 0002 made ambiguous across chats. They take the (chat_id, message_id, is_from_me)
+// key of messages. Rows written before only carry the id, they go to the first
+// message stored with it; rows whose message is gone are dropped.
+export default Effect.gen(function* () {
+  const sql = yield* SqliteClient.SqliteClient
+
+  yield* sql`
+    CREATE TABLE message_edits_rebuilt (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      previous_content TEXT NOT NULL,
+      edited_at TEXT NOT NULL,
+      FOREIGN KEY (chat_id, message_id, is_from_me) REFERENCES messages(chat_id, id, is_from_me)
+    )
+  `
+  yield* sql`
+    INSERT INTO message_edits_rebuilt (id, chat_id, message_id, is_from_me, previous_content, edited_at)
+    SELECT e.id, m.chat_id, e.message_id, m.is_from_me, e.previous_content, e.edited_at
+    FROM message_edits e
+    JOIN messages m ON m.rowid = (SELECT rowid FROM messages WHERE id = e.message_id ORDER BY rowid LIMIT 1)
+  `
+  yield* sql`DROP TABLE message_edits`
+  yield* sql`ALTER TABLE message_edits_rebuilt RENAME TO message_edits`
+  yield* sql`CREATE INDEX idx_message_edits_message ON message_edits(chat_id, message_id, is_from_me)`
+
+  yield* sql`
+    CREATE TABLE message_locations_rebuilt (
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      name TEXT,
+      address TEXT,
+      is_live BOOLEAN NOT NULL DEFAULT false,
+      PRIMARY KEY (chat_id, message_id, is_from_me),
+      FOREIGN KEY (chat_id, message_id, is_from_me) REFERENCES messages(chat_id, id, is_from_me)
+    )
+  `
+  yield* sql`
+    INSERT INTO message_locations_rebuilt (chat_id, message_id, is_from_me, latitude, longitude, name, address, is_live)
+    SELECT m.chat_id, l.message_id, m.is_from_me, l.latitude, l.longitude, l.name, l.address, l.is_live
+    FROM message_locations l
+    JOIN messages m ON m.rowid = (SELECT rowid FROM messages WHERE id = l.message_id ORDER BY rowid LIMIT 1)
+  `
+  yield* sql`DROP TABLE message_locations`
+  yield* sql`ALTER TABLE message_locations_rebuilt RENAME TO message_locations`
+
+  yield* sql`
+    CREATE TABLE message_contacts_rebuilt (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      display_name TEXT,
+      vcard TEXT NOT NULL,
+      FOREIGN KEY (chat_id, message_id, is_from_me) REFERENCES messages(chat_id, id, is_from_me)
+    )
+  `
+  yield* sql`
+    INSERT INTO message_contacts_rebuilt (id, chat_id, message_id, is_from_me, display_name, vcard)
+    SELECT c.id, m.chat_id, c.message_id, m.is_from_me, c.display_name, c.vcard
+    FROM message_contacts c
+    JOIN messages m ON m.rowid = (SELECT rowid FROM messages WHERE id = c.message_id ORDER BY rowid LIMIT 1)
+  `
+  yield* sql`DROP TABLE message_contacts`
+  yield* sql`ALTER TABLE message_contacts_rebuilt RENAME TO message_contacts`
+  yield* sql`CREATE INDEX idx_message_contacts_message ON message_contacts(chat_id, message_id, is_from_me)`
+
+  yield* sql`
+    CREATE TABLE message_polls_rebuilt (
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      name TEXT NOT NULL,
+      options TEXT NOT NULL,
+      selectable_count INTEGER NOT NULL DEFAULT 1,
+      PRIMARY KEY (chat_id, message_id, is_from_me),
+      FOREIGN KEY (chat_id, message_id, is_from_me) REFERENCES messages(chat_id, id, is_from_me)
+    )
+  `
+  yield* sql`
+    INSERT INTO message_polls_rebuilt (chat_id, message_id, is_from_me, name, options, selectable_count)
+    SELECT m.chat_id, p.message_id, m.is_from_me, p.name, p.options, p.selectable_count
+    FROM message_polls p
+    JOIN messages m ON m.rowid = (SELECT rowid FROM messages WHERE id = p.message_id ORDER BY rowid LIMIT 1)
+  `
+  yield* sql`DROP TABLE message_polls`
+  yield* sql`ALTER TABLE message_polls_rebuilt RENAME TO message_polls`
+
+  yield* sql`
+    CREATE TABLE message_handler_outcomes_rebuilt (
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      handler TEXT NOT NULL,
+      outcome TEXT NOT NULL
+        CHECK (outcome IN ('claimed', 'transformed', 'skipped', 'failed')),
+      note TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      PRIMARY KEY (chat_id, message_id, is_from_me, handler),
+      FOREIGN KEY (chat_id, message_id, is_from_me) REFERENCES messages(chat_id, id, is_from_me)
+    )
+  `
+  // Only messages we received go through the handlers
+  yield* sql`
+    INSERT INTO message_handler_outcomes_rebuilt (chat_id, message_id, is_from_me, handler, outcome, note, created_at)
+    SELECT m.chat_id, o.message_id, m.is_from_me, o.handler, o.outcome, o.note, o.created_at
+    FROM message_handler_outcomes o
+    JOIN messages m ON m.rowid = (
+      SELECT rowid FROM messages WHERE id = o.message_id ORDER BY is_from_me ASC, rowid ASC LIMIT 1
+    )
+  `
+  yield* sql`DROP TABLE message_handler_outcomes`
+  yield* sql`ALTER TABLE message_handler_outcomes_rebuilt RENAME TO message_handler_outcomes`
+  yield* sql`CREATE INDEX idx_message_handler_outcomes_handler ON message_handler_outcomes(handler, created_at)`
+
+  // Work items already knew their chat. One whose message is gone keeps its row,
+  // the queue moves it to dead letters when it fails to load it.
+  yield* sql`
+    CREATE TABLE message_work_rebuilt (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      is_from_me BOOLEAN NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'leased', 'done', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      available_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      lease_expires_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      completed_at TEXT,
+      UNIQUE (chat_id, message_id, is_from_me)
+    )
+  `
+  yield* sql`
+    INSERT INTO message_work_rebuilt (
+      id, chat_id, message_id, is_from_me, status, attempts, last_error,
+      available_at, lease_expires_at, created_at, completed_at
+    )
+    SELECT
+      w.id, w.chat_id, w.message_id, COALESCE(m.is_from_me, false), w.status, w.attempts, w.last_error,
+      w.available_at, w.lease_expires_at, w.created_at, w.completed_at
+    FROM message_work w
+    LEFT JOIN messages m ON m.rowid = (
+      SELECT rowid FROM messages WHERE chat_id = w.chat_id AND id = w.message_id ORDER BY is_from_me ASC LIMIT 1
+    )
+  `
+  yield* sql`DROP TABLE message_work`
+  yield* sql`ALTER TABLE message_work_rebuilt RENAME TO message_work`
+  yield* sql`CREATE INDEX idx_message_work_status_available ON message_work(status, available_at)`
+  yield* sql`CREATE INDEX idx_message_work_chat_status ON message_work(chat_id, status)`
+})
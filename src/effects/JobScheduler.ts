@@ -0,0 +1,162 @@
+import { Effect, Schedule, Context, Layer } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { ScheduledJob } from "../database/Schema.js"
+import { findAll } from "../database/Rows.js"
+
+export interface JobRequest {
+  readonly jobType: string
+  readonly dedupeKey: string
+  readonly payload: unknown
+  readonly runAt: string
+}
+
+// Handlers run inside the same transaction that marks the job done, so a handler
+// that only writes to SQLite (e.g. enqueueing into the outbox) runs exactly once.
+// One that must tell others about its writes returns that as an effect instead, it
+// runs after the commit.
+export type JobHandlers<R> = Record<
+  string,
+  (payload: unknown, job: ScheduledJob) => Effect.Effect<void | Effect.Effect<void, never, R>, unknown, R>
+>
+
+// Services a set of handlers needs, for running the handlers of several modules together
+export type JobHandlerRequirements<H> = H extends JobHandlers<infer R> ? R : never
+
+export class JobScheduler extends Context.Tag("JobScheduler")<
+  JobScheduler,
+  {
+    readonly schedule: (job: JobRequest) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly cancel: (dedupeKeyPrefix: string) => Effect.Effect<number, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly start: <R>(handlers: JobHandlers<R>) => Effect.Effect<void, SqlError.SqlError, R | SqliteClient.SqliteClient>
+  }
+>() {}
+
+const POLL_INTERVAL = "5 seconds"
+const BATCH_SIZE = 20
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY = 60 * 1000
+
+export const JobSchedulerLive = Layer.succeed(JobScheduler, {
+  schedule: (job) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      // Re-scheduling an existing key only moves it while it has not run yet
+      yield* sql`
+        INSERT INTO scheduled_jobs (job_type, dedupe_key, payload, run_at)
+        VALUES (${job.jobType}, ${job.dedupeKey}, ${JSON.stringify(job.payload)}, ${job.runAt})
+        ON CONFLICT (dedupe_key) DO UPDATE
+        SET payload = excluded.payload,
+            run_at = excluded.run_at,
+            status = 'pending'
+        WHERE scheduled_jobs.status IN ('pending', 'cancelled')
+      `
+    }),
+
+  cancel: (dedupeKeyPrefix) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      // Compared as text, LIKE would read "_" and "%" of a session id as wildcards
+      const result = yield* sql`
+        UPDATE scheduled_jobs
+        SET status = 'cancelled'
+        WHERE status = 'pending'
+          AND substr(dedupe_key, 1, length(${dedupeKeyPrefix})) = ${dedupeKeyPrefix}
+        RETURNING id
+      `
+
+      return result.length
+    }),
+
+  start: (handlers) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      // Jobs left 'running' by a crash never committed their work, run them again
+      yield* sql`UPDATE scheduled_jobs SET status = 'pending' WHERE status = 'running'`
+
+      yield* Effect.log("⏰ Starting job scheduler...")
+
+      const runJob = (job: ScheduledJob) =>
+        Effect.gen(function* () {
+          const handler = handlers[job.jobType]
+
+          if (!handler) {
+            yield* sql`
+              UPDATE scheduled_jobs
+              SET status = 'failed', last_error = ${`No handler for job type ${job.jobType}`}
+              WHERE id = ${job.id}
+            `
+            return
+          }
+
+          const result = yield* sql.withTransaction(
+            Effect.gen(function* () {
+              const afterCommit = yield* handler(JSON.parse(job.payload), job)
+              yield* sql`
+                UPDATE scheduled_jobs
+                SET status = 'done', completed_at = datetime('now'), last_error = NULL
+                WHERE id = ${job.id}
+              `
+              return afterCommit
+            })
+          ).pipe(Effect.either)
+
+          if (result._tag === "Left") {
+            const failed = job.attempts >= MAX_ATTEMPTS
+            const error = result.left instanceof Error ? result.left.message : String(result.left)
+
+            yield* sql`
+              UPDATE scheduled_jobs
+              SET status = ${failed ? 'failed' : 'pending'},
+                  last_error = ${error},
+                  run_at = ${new Date(Date.now() + RETRY_DELAY).toISOString()}
+              WHERE id = ${job.id}
+            `
+
+            yield* Effect.log(`❌ Job ${job.jobType} #${job.id} failed (attempt ${job.attempts}): ${error}`)
+            return
+          }
+
+          if (result.right !== undefined) {
+            yield* result.right
+          }
+          yield* Effect.log(`✅ Job ${job.jobType} #${job.id} done`)
+        })
+
+      yield* Effect.schedule(
+        Effect.gen(function* () {
+          const due = yield* sql`
+            UPDATE scheduled_jobs
+            SET status = 'running', attempts = attempts + 1
+            WHERE id IN (
+              SELECT id FROM scheduled_jobs
+              WHERE status = 'pending' AND run_at <= ${new Date().toISOString()}
+              ORDER BY run_at ASC
+              LIMIT ${BATCH_SIZE}
+            )
+            RETURNING
+              id,
+              job_type as "jobType",
+              dedupe_key as "dedupeKey",
+              payload,
+              run_at as "runAt",
+              status,
+              attempts,
+              last_error as "lastError"
+          `.pipe(findAll(ScheduledJob))
+
+          for (const job of due) {
+            yield* runJob(job)
+          }
+        }).pipe(
+          Effect.catchAll((error) =>
+            Effect.log(`❌ Job scheduler error: ${error.message}`)
+          )
+        ),
+        Schedule.fixed(POLL_INTERVAL)
+      )
+    })
+})
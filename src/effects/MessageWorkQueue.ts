@@ -0,0 +1,291 @@
+import { Effect, Context, Layer, Option, Queue, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { MessageRepository } from "../database/Repository.js"
+import { MessageWorkItemRow, WorkStatus, type MessageKey, type MessageWorkItem, type WhatsAppMessage } from "../database/Schema.js"
+import { DecodeError, findAll } from "../database/Rows.js"
+
+export interface WorkQueueStats {
+  readonly pending: number
+  readonly leased: number
+  readonly done: number
+  readonly dead: number
+}
+
+export class MessageWorkQueue extends Context.Tag("MessageWorkQueue")<
+  MessageWorkQueue,
+  {
+    // Call inside the transaction that stores the message, so neither exists without the other
+    readonly enqueue: (key: MessageKey) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly start: <R>(process: (message: WhatsAppMessage) => Effect.Effect<void, unknown, R>) => Effect.Effect<void, SqlError.SqlError, R | MessageRepository | SqliteClient.SqliteClient>
+    readonly stats: () => Effect.Effect<WorkQueueStats, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly listDead: () => Effect.Effect<MessageWorkItem[], SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    readonly retry: (id: number) => Effect.Effect<boolean, SqlError.SqlError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+const StatusCount = Schema.Struct({
+  status: WorkStatus,
+  count: Schema.Int
+})
+
+const BATCH_SIZE = 100
+const MAX_ATTEMPTS = 5
+
+// Chats processed side by side, messages of one chat always run one at a time
+const CHAT_CONCURRENCY = 8
+
+// How long a claim is exclusive before another claim may take the row
+const VISIBILITY_TIMEOUT = 2 * 60 * 1000
+
+// Without a wakeup, still look for expired leases and due retries this often
+const IDLE_SWEEP = "10 seconds"
+
+// Delay before the next attempt: 5s, 10s, 20s, ... capped at 10 minutes
+const retryDelay = (attempts: number): number =>
+  Math.min(5_000 * 2 ** Math.max(attempts - 1, 0), 10 * 60 * 1000)
+
+const keyOfItem = (item: MessageWorkItem): MessageKey => ({
+  chatId: item.chat_id,
+  messageId: item.messageId,
+  fromMe: item.isFromMe
+})
+
+export const MessageWorkQueueLive = Layer.effect(
+  MessageWorkQueue,
+  Effect.gen(function* () {
+    // Inserts nudge the worker through here instead of it polling on a fixed interval
+    const wakeups = yield* Queue.sliding<void>(1)
+
+    return {
+      enqueue: ({ chatId, messageId, fromMe }) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          yield* sql`
+            INSERT OR IGNORE INTO message_work (chat_id, message_id, is_from_me)
+            VALUES (${chatId}, ${messageId}, ${fromMe})
+          `
+          yield* Queue.offer(wakeups, undefined)
+        }),
+
+      start: (process) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+          const repository = yield* MessageRepository
+
+          yield* Effect.log("🧵 Starting message work queue...")
+
+          const claim = Effect.gen(function* () {
+            const now = new Date().toISOString()
+            const leaseExpiresAt = new Date(Date.now() + VISIBILITY_TIMEOUT).toISOString()
+
+            // A chat with a message in flight, or an earlier one waiting for its retry, is
+            // left alone so its messages stay in order
+            const claimed = yield* sql`
+              UPDATE message_work
+              SET status = 'leased', attempts = attempts + 1, lease_expires_at = ${leaseExpiresAt}
+              WHERE id IN (
+                SELECT w.id FROM message_work w
+                WHERE (
+                    (w.status = 'pending' AND w.available_at <= ${now})
+                    OR (w.status = 'leased' AND w.lease_expires_at <= ${now})
+                  )
+                  AND NOT EXISTS (
+                    SELECT 1 FROM message_work busy
+                    WHERE busy.chat_id = w.chat_id
+                      AND busy.status = 'leased'
+                      AND busy.lease_expires_at > ${now}
+                  )
+                  AND NOT EXISTS (
+                    SELECT 1 FROM message_work earlier
+                    WHERE earlier.chat_id = w.chat_id
+                      AND earlier.id < w.id
+                      AND earlier.status = 'pending'
+                      AND earlier.available_at > ${now}
+                  )
+                ORDER BY w.id ASC
+                LIMIT ${BATCH_SIZE}
+              )
+              RETURNING
+                id,
+                message_id as "messageId",
+                chat_id,
+                is_from_me as "isFromMe",
+                status,
+                attempts,
+                last_error as "lastError",
+                available_at as "availableAt",
+                lease_expires_at as "leaseExpiresAt",
+                created_at as "createdAt"
+            `.pipe(findAll(MessageWorkItemRow))
+
+            return claimed.sort((a, b) => a.id - b.id)
+          })
+
+          const fail = (item: MessageWorkItem, error: string) =>
+            Effect.gen(function* () {
+              const dead = item.attempts >= MAX_ATTEMPTS
+
+              yield* sql`
+                UPDATE message_work
+                SET status = ${dead ? 'dead' : 'pending'},
+                    last_error = ${error},
+                    lease_expires_at = NULL,
+                    available_at = ${new Date(Date.now() + retryDelay(item.attempts)).toISOString()}
+                WHERE id = ${item.id}
+              `
+
+              yield* Effect.log(
+                dead
+                  ? `☠️ Message ${item.messageId} moved to dead letters after ${item.attempts} attempts: ${error}`
+                  : `⏳ Message ${item.messageId} failed (attempt ${item.attempts}), will retry: ${error}`
+              )
+            })
+
+          // Hands claimed items back untouched, their claim does not count as an attempt
+          const release = (items: ReadonlyArray<MessageWorkItem>) =>
+            sql`
+              UPDATE message_work
+              SET status = 'pending', attempts = attempts - 1, lease_expires_at = NULL
+              WHERE id IN ${sql.in(items.map((item) => item.id))}
+            `
+
+          // Whether the item is done, a failed one is left to retry
+          const work = (item: MessageWorkItem) =>
+            Effect.gen(function* () {
+              const message = yield* repository.getMessage(keyOfItem(item)).pipe(
+                Effect.map(Option.some),
+                Effect.catchTags({
+                  MessageNotFound: () => Effect.succeed(Option.none()),
+                  DecodeError: () => Effect.succeed(Option.none())
+                })
+              )
+              if (Option.isNone(message)) {
+                // Missing or unreadable, retrying will not change that
+                yield* fail({ ...item, attempts: MAX_ATTEMPTS }, "Message could not be loaded")
+                return false
+              }
+
+              const result = yield* process(message.value).pipe(Effect.either)
+              if (result._tag === "Left") {
+                yield* fail(item, result.left instanceof Error ? result.left.message : String(result.left))
+                return false
+              }
+
+              yield* sql.withTransaction(
+                Effect.gen(function* () {
+                  yield* sql`
+                    UPDATE message_work
+                    SET status = 'done', lease_expires_at = NULL, last_error = NULL, completed_at = datetime('now')
+                    WHERE id = ${item.id}
+                  `
+                  yield* repository.markAsProcessed(keyOfItem(item))
+                })
+              )
+              return true
+            })
+
+          // Stops at the first failure, the rest of the chat waits until it was retried
+          const workChat = (items: ReadonlyArray<MessageWorkItem>) =>
+            Effect.gen(function* () {
+              for (const [index, item] of items.entries()) {
+                if (yield* work(item)) continue
+
+                const rest = items.slice(index + 1)
+                if (rest.length > 0) {
+                  yield* release(rest)
+                }
+                return
+              }
+            })
+
+          const drain = Effect.gen(function* () {
+            const batch = yield* claim
+
+            if (batch.length === 0) {
+              // Sleep until the next insert, or until leases and retries may have come due
+              yield* Queue.take(wakeups).pipe(Effect.timeout(IDLE_SWEEP), Effect.ignore)
+              return
+            }
+
+            const byChat = new Map<string, MessageWorkItem[]>()
+            for (const item of batch) {
+              byChat.set(item.chat_id, [...(byChat.get(item.chat_id) ?? []), item])
+            }
+
+            yield* Effect.forEach(
+              byChat.values(),
+              workChat,
+              { concurrency: CHAT_CONCURRENCY, discard: true }
+            )
+          })
+
+          yield* Effect.forever(
+            drain.pipe(
+              Effect.catchAll((error) =>
+                Effect.log(`❌ Message work queue error: ${error.message}`).pipe(
+                  Effect.zipRight(Effect.sleep(IDLE_SWEEP))
+                )
+              )
+            )
+          )
+        }),
+
+      stats: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const counts = yield* sql`
+            SELECT status, COUNT(*) as count FROM message_work GROUP BY status
+          `.pipe(findAll(StatusCount))
+
+          const stats = { pending: 0, leased: 0, done: 0, dead: 0 }
+          for (const { status, count } of counts) {
+            stats[status] = count
+          }
+          return stats
+        }),
+
+      listDead: () =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          return yield* sql`
+            SELECT
+              id,
+              message_id as "messageId",
+              chat_id,
+              is_from_me as "isFromMe",
+              status,
+              attempts,
+              last_error as "lastError",
+              available_at as "availableAt",
+              lease_expires_at as "leaseExpiresAt",
+              created_at as "createdAt"
+            FROM message_work
+            WHERE status = 'dead'
+            ORDER BY id ASC
+          `.pipe(findAll(MessageWorkItemRow))
+        }),
+
+      // Gives a dead letter a fresh set of attempts
+      retry: (id) =>
+        Effect.gen(function* () {
+          const sql = yield* SqliteClient.SqliteClient
+
+          const result = yield* sql`
+            UPDATE message_work
+            SET status = 'pending', attempts = 0, available_at = ${new Date().toISOString()}
+            WHERE id = ${id} AND status = 'dead'
+            RETURNING id
+          `
+
+          if (result.length > 0) {
+            yield* Queue.offer(wakeups, undefined)
+          }
+          return result.length > 0
+        })
+    }
+  })
+)
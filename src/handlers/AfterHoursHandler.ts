@@ -0,0 +1,66 @@
+import { Config, Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { HandlerOutcomeRepository } from "../database/HandlerOutcomeRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { skip, type MessageHandler } from "./MessageHandler.js"
+import { BookingPolicy, localDate, localTime, weekdayOf } from "../booking/Availability.js"
+import { templateMessage } from "../booking/Templates.js"
+
+const HANDLER_NAME = "after-hours"
+
+// A chat gets the notice at most once per window, not on every message
+const NOTICE_INTERVAL = 12 * 60 * 60 * 1000
+
+// Opening hours on the clock of BUSINESS_TIMEZONE like the availability rules, e.g. BUSINESS_HOURS=08:00-18:00
+const BusinessHours = Config.all({
+  timeZone: BookingPolicy.pipe(Config.map((policy) => policy.timeZone)),
+  hours: Config.string("BUSINESS_HOURS").pipe(Config.withDefault("08:00-18:00")),
+  days: Config.string("BUSINESS_DAYS").pipe(
+    Config.withDefault("1,2,3,4,5"),
+    Config.map((value) => value.split(',').map((day) => Number(day.trim())))
+  )
+})
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+const isOpen = (at: string, hours: string, days: ReadonlyArray<number>, timeZone: string): boolean => {
+  const [start = "00:00", end = "24:00"] = hours.split('-')
+  const minute = minutesOf(localTime(at, timeZone))
+
+  return days.includes(weekdayOf(localDate(at, timeZone))) && minute >= minutesOf(start) && minute < minutesOf(end)
+}
+
+// Lets customers know a person will only read them during business hours.
+// The bot keeps booking after hours, so the message goes on to the next handlers.
+export const afterHoursHandler: MessageHandler<HandlerOutcomeRepository | TemplateRepository | MessageSender | SqliteClient.SqliteClient> = {
+  name: HANDLER_NAME,
+  handle: (message) =>
+    Effect.gen(function* () {
+      if (message.isGroup) {
+        return skip()
+      }
+
+      const { hours, days, timeZone } = yield* BusinessHours
+      if (isOpen(message.timestamp, hours, days, timeZone)) {
+        return skip()
+      }
+
+      const outcomes = yield* HandlerOutcomeRepository
+      const lastNotice = yield* outcomes.lastOutcomeInChat(message.sessionId, message.chat_id, HANDLER_NAME, "replied")
+      if (lastNotice && Date.now() - new Date(lastNotice.createdAt).getTime() < NOTICE_INTERVAL) {
+        return skip("notice already sent")
+      }
+
+      const templates = yield* TemplateRepository
+      const sender = yield* MessageSender
+      const locale = yield* templates.chatLocale(message.sessionId, message.chat_id)
+      const text = yield* templates.render(templateMessage("after_hours.notice", {}), locale)
+      yield* sender.enqueue(message.sessionId, message.chat_id, { text })
+
+      return skip("replied")
+    })
+}
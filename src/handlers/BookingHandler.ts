@@ -0,0 +1,29 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { ConversationEngine } from "../booking/ConversationEngine.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { claim, skip, type MessageHandler } from "./MessageHandler.js"
+
+// Only direct text messages from customers drive the booking dialogue
+export const bookingHandler: MessageHandler<
+  ConversationEngine | BookingRepository | ConversationRepository | ContactRepository | TemplateRepository | MessageSender | JobScheduler | WebhookDispatcher | SqliteClient.SqliteClient
+> = {
+  name: "booking",
+  handle: (message) =>
+    Effect.gen(function* () {
+      if (message.isGroup || message.messageType !== 'text') {
+        return skip()
+      }
+
+      const engine = yield* ConversationEngine
+      yield* engine.handleMessage(message)
+
+      return claim()
+    })
+}
@@ -0,0 +1,38 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { ConversationEngine } from "../booking/ConversationEngine.js"
+import { parseCommand } from "../booking/Commands.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { claim, skip, type MessageHandler } from "./MessageHandler.js"
+
+// Self-service commands like "meus agendamentos", "remarcar" or a menu number.
+// Any other text goes on to the booking dialogue.
+export const commandHandler: MessageHandler<
+  ConversationEngine | BookingRepository | ConversationRepository | ContactRepository | TemplateRepository | MessageSender | JobScheduler | WebhookDispatcher | SqliteClient.SqliteClient
+> = {
+  name: "commands",
+  handle: (message) =>
+    Effect.gen(function* () {
+      if (message.isGroup || message.messageType !== 'text') {
+        return skip()
+      }
+
+      const conversations = yield* ConversationRepository
+      const state = yield* conversations.loadState(message.sessionId, message.chat_id)
+      const command = parseCommand(message.content, state)
+      if (command === null) {
+        return skip()
+      }
+
+      const engine = yield* ConversationEngine
+      yield* engine.handleCommand(message, command)
+
+      return claim(command)
+    })
+}
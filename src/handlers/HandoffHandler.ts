@@ -0,0 +1,21 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { HandoffRepository } from "../database/HandoffRepository.js"
+import { MessageReceived } from "../inbox/AgentInbox.js"
+import { claim, skip, type MessageHandler } from "./MessageHandler.js"
+
+// Chats a person took over get no automated replies, their messages go to the agent inbox
+export const handoffHandler: MessageHandler<HandoffRepository | SqliteClient.SqliteClient> = {
+  name: "handoff",
+  handle: (message) =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+
+      const { mode } = yield* handoffs.getHandoff(message.sessionId, message.chat_id)
+      if (mode === "bot") {
+        return skip()
+      }
+
+      return claim(mode, [MessageReceived.make({ message })])
+    })
+}
@@ -0,0 +1,135 @@
+import { Config, Effect, Option } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { HandoffRepository } from "../database/HandoffRepository.js"
+import { MessageRepository } from "../database/Repository.js"
+import type { WhatsAppMessage } from "../database/Schema.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { ConversationEngine } from "../booking/ConversationEngine.js"
+import { IntentClassifier, type ClassifiedIntent } from "../booking/IntentClassifier.js"
+import { isAtRest } from "../booking/Commands.js"
+import { templateMessage, type TemplateMessage } from "../booking/Templates.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { setChatMode } from "../inbox/Handoff.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { claim, skip, type MessageHandler } from "./MessageHandler.js"
+
+// Messages of the chat the classifier gets to see
+const HISTORY_SIZE = 10
+
+// Below this the booking dialogue answers as if nothing was understood
+const MIN_CONFIDENCE = 0.6
+
+// Answer to "onde fica?", not answered when unset
+const BusinessAddress = Config.option(Config.string("BUSINESS_ADDRESS"))
+
+// What a classified message asks for, run inside the handler's transaction. The chat
+// is checked again, it may have entered a dialogue while the classifier was answering.
+const answer = (message: WhatsAppMessage, { intent, confidence, source }: ClassifiedIntent) =>
+  Effect.gen(function* () {
+    const note = `${intent} (${source}, ${confidence})`
+    if (confidence < MIN_CONFIDENCE) {
+      return skip(note)
+    }
+
+    const conversations = yield* ConversationRepository
+    if (!isAtRest(yield* conversations.loadState(message.sessionId, message.chat_id))) {
+      return skip(note)
+    }
+
+    const reply = (template: TemplateMessage) =>
+      Effect.gen(function* () {
+        const templates = yield* TemplateRepository
+        const sender = yield* MessageSender
+        const locale = yield* templates.chatLocale(message.sessionId, message.chat_id)
+        yield* sender.enqueue(message.sessionId, message.chat_id, { text: yield* templates.render(template, locale) })
+      })
+
+    switch (intent) {
+      case "book":
+      case "cancel":
+      case "reschedule": {
+        const engine = yield* ConversationEngine
+        yield* engine.handleCommand(message, intent)
+        return claim(note)
+      }
+
+      case "ask_price": {
+        const bookings = yield* BookingRepository
+        const services = yield* bookings.listServices()
+        if (services.length === 0) {
+          return skip(note)
+        }
+        yield* reply(templateMessage("info.prices", {
+          services: services.map((service) => ({
+            "service.name": service.name,
+            "service.price": service.priceCents,
+            "service.duration_minutes": service.durationMinutes
+          }))
+        }))
+        return claim(note)
+      }
+
+      case "ask_address": {
+        const address = yield* BusinessAddress
+        if (Option.isNone(address)) {
+          return skip(note)
+        }
+        yield* reply(templateMessage("info.address", { address: address.value }))
+        return claim(note)
+      }
+
+      case "human_handoff": {
+        yield* reply(templateMessage("handoff.requested", {}))
+        const { events } = yield* setChatMode(message.sessionId, message.chat_id, "human", "customer_request")
+        return claim(note, events)
+      }
+
+      case "other":
+        return skip(note)
+    }
+  })
+
+// Free text like "preciso desmarcar amanhã" or "quanto custa o corte?" from a chat
+// that is not in the middle of a dialogue. Booking, cancelling and rescheduling
+// start that dialogue, prices and the address are answered, asking for a person
+// hands the chat over to the staff, anything else goes on to the booking dialogue. A classifier that fails lets the message through too.
+//
+// The classifier may call a language model, so it runs in prepare, before the
+// handler's transaction opens.
+export const intentHandler: MessageHandler<
+  IntentClassifier | MessageRepository | HandoffRepository | ConversationEngine | BookingRepository | ConversationRepository | ContactRepository | TemplateRepository | MessageSender | JobScheduler | WebhookDispatcher | SqliteClient.SqliteClient
+> = {
+  name: "intents",
+  prepare: (message) =>
+    Effect.gen(function* () {
+      if (message.isGroup || message.messageType !== 'text') {
+        return Effect.succeed(skip())
+      }
+
+      const conversations = yield* ConversationRepository
+      const state = yield* conversations.loadState(message.sessionId, message.chat_id)
+      if (!isAtRest(state)) {
+        return Effect.succeed(skip())
+      }
+
+      const repository = yield* MessageRepository
+      const classifier = yield* IntentClassifier
+      const { messages } = yield* repository.getMessagesByChat(message.chat_id, { limit: HISTORY_SIZE })
+
+      const classified = yield* classifier.classify(message, messages).pipe(
+        Effect.map(Option.some),
+        Effect.catchTag("IntentClassificationFailed", (error) =>
+          Effect.log(`❌ ${error.message}`).pipe(Effect.as(Option.none()))
+        )
+      )
+      if (Option.isNone(classified)) {
+        return Effect.succeed(skip("classification failed"))
+      }
+
+      return answer(message, classified.value)
+    })
+}
@@ -0,0 +1,111 @@
+import { Effect, Data, Either } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { keyOf, type WhatsAppMessage } from "../database/Schema.js"
+import { HandlerOutcomeRepository } from "../database/HandlerOutcomeRepository.js"
+import { AgentInbox, type InboxEvent } from "../inbox/AgentInbox.js"
+
+export type HandlerResult = Data.TaggedEnum<{
+  // The handler took care of the message, later handlers do not see it. The events
+  // go to the agent inbox once the handler committed.
+  Claimed: { readonly note: string | null; readonly events: ReadonlyArray<InboxEvent> }
+  // Later handlers see this version of the message
+  Transformed: { readonly message: WhatsAppMessage; readonly note: string | null }
+  // Not for this handler, the message goes on unchanged
+  Skipped: { readonly note: string | null }
+}>
+
+export const HandlerResult = Data.taggedEnum<HandlerResult>()
+
+export const claim = (note: string | null = null, events: ReadonlyArray<InboxEvent> = []) =>
+  HandlerResult.Claimed({ note, events })
+
+export const transform = (message: WhatsAppMessage, note: string | null = null) =>
+  HandlerResult.Transformed({ message, note })
+
+export const skip = (note: string | null = null) => HandlerResult.Skipped({ note })
+
+type HandlerStep<R> = Effect.Effect<HandlerResult, unknown, R>
+
+// One step of the incoming message pipeline. The name identifies its outcomes,
+// so it must stay stable across releases.
+//
+// handle runs in a transaction together with the outcome. A handler with work that
+// must not hold that transaction, like a call to a remote service, does it in prepare
+// instead, before the transaction opens, and returns the step to run inside it.
+export type MessageHandler<R> = { readonly name: string } & (
+  | { readonly handle: (message: WhatsAppMessage) => HandlerStep<R> }
+  | { readonly prepare: (message: WhatsAppMessage) => Effect.Effect<HandlerStep<R>, unknown, R> }
+)
+
+export class HandlerFailed extends Data.TaggedError("HandlerFailed")<{
+  readonly handler: string
+  readonly messageId: string
+  readonly cause: unknown
+}> {
+  override get message() {
+    return `Handler ${this.handler} failed on message ${this.messageId}: ${this.cause}`
+  }
+}
+
+const outcomeOf = (result: HandlerResult) => {
+  switch (result._tag) {
+    case "Claimed":
+      return "claimed" as const
+    case "Transformed":
+      return "transformed" as const
+    case "Skipped":
+      return "skipped" as const
+  }
+}
+
+// Runs the handlers in order until one claims the message. A failing handler
+// stops the chain, so a broken filter never lets a message through to the next one.
+//
+// Each handler commits together with its outcome, so when a failed message is
+// retried the handlers that already skipped it are not run a second time.
+// Transforming handlers run again, their output is not stored.
+export const runMessageHandlers = <R>(handlers: ReadonlyArray<MessageHandler<R>>, message: WhatsAppMessage) =>
+  Effect.gen(function* () {
+    const sql = yield* SqliteClient.SqliteClient
+    const outcomes = yield* HandlerOutcomeRepository
+    const inbox = yield* AgentInbox
+    const key = keyOf(message)
+
+    const previous = new Map((yield* outcomes.getOutcomes(key)).map((outcome) => [outcome.handler, outcome.outcome]))
+    if ([...previous.values()].includes("claimed")) {
+      return
+    }
+
+    let current = message
+
+    for (const handler of handlers) {
+      if (previous.get(handler.name) === "skipped") {
+        continue
+      }
+
+      const result = yield* Effect.gen(function* () {
+        const step = "prepare" in handler ? yield* handler.prepare(current) : handler.handle(current)
+
+        return yield* sql.withTransaction(
+          Effect.gen(function* () {
+            const result = yield* step
+            yield* outcomes.record(key, handler.name, outcomeOf(result), result.note)
+            return result
+          })
+        )
+      }).pipe(Effect.either)
+
+      if (Either.isLeft(result)) {
+        yield* outcomes.record(key, handler.name, "failed", `${result.left}`)
+        return yield* new HandlerFailed({ handler: handler.name, messageId: message.id, cause: result.left })
+      }
+
+      if (result.right._tag === "Claimed") {
+        yield* inbox.publishAll(result.right.events)
+        return
+      }
+      if (result.right._tag === "Transformed") {
+        current = result.right.message
+      }
+    }
+  })
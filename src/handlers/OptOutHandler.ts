@@ -0,0 +1,49 @@
+import { Effect } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { OptOutRepository } from "../database/OptOutRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { parseOptOut } from "../booking/Commands.js"
+import { templateMessage } from "../booking/Templates.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { claim, skip, type MessageHandler } from "./MessageHandler.js"
+
+// Honours "SAIR" / "STOP" and keeps every later message of the chat away from the bot.
+// In the middle of a dialogue "sair" is left to the dialogue, which it backs out of.
+export const optOutHandler: MessageHandler<OptOutRepository | ConversationRepository | TemplateRepository | MessageSender | SqliteClient.SqliteClient> = {
+  name: "opt-out",
+  handle: (message) =>
+    Effect.gen(function* () {
+      if (message.isGroup) {
+        return skip()
+      }
+
+      const optOuts = yield* OptOutRepository
+      const conversations = yield* ConversationRepository
+      const templates = yield* TemplateRepository
+      const sender = yield* MessageSender
+      const state = yield* conversations.loadState(message.sessionId, message.chat_id)
+      const request = parseOptOut(message.content, state)
+      const optedOut = yield* optOuts.isOptedOut(message.sessionId, message.chat_id)
+
+      if (request === "opt_in" && optedOut) {
+        yield* optOuts.optIn(message.sessionId, message.chat_id)
+        const locale = yield* templates.chatLocale(message.sessionId, message.chat_id)
+        yield* sender.enqueue(message.sessionId, message.chat_id, {
+          text: yield* templates.render(templateMessage("opt_out.welcome_back", {}), locale)
+        })
+        return claim("opted-in")
+      }
+
+      if (request === "opt_out") {
+        yield* optOuts.optOut(message.sessionId, message.chat_id)
+        const locale = yield* templates.chatLocale(message.sessionId, message.chat_id)
+        yield* sender.enqueue(message.sessionId, message.chat_id, {
+          text: yield* templates.render(templateMessage("opt_out.confirmed", {}), locale)
+        })
+        return claim("opted-out")
+      }
+
+      return optedOut ? claim("ignored, chat opted out") : skip()
+    })
+}
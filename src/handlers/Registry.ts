@@ -0,0 +1,51 @@
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { HandlerOutcomeRepository } from "../database/HandlerOutcomeRepository.js"
+import { HandoffRepository } from "../database/HandoffRepository.js"
+import { OptOutRepository } from "../database/OptOutRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { MessageRepository } from "../database/Repository.js"
+import { ConversationEngine } from "../booking/ConversationEngine.js"
+import { IntentClassifier } from "../booking/IntentClassifier.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { AgentInbox } from "../inbox/AgentInbox.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import type { MessageHandler } from "./MessageHandler.js"
+import { handoffHandler } from "./HandoffHandler.js"
+import { optOutHandler } from "./OptOutHandler.js"
+import { afterHoursHandler } from "./AfterHoursHandler.js"
+import { commandHandler } from "./CommandHandler.js"
+import { intentHandler } from "./IntentHandler.js"
+import { bookingHandler } from "./BookingHandler.js"
+
+// Everything the registered handlers need between them
+export type MessageHandlerRequirements =
+  | HandoffRepository
+  | AgentInbox
+  | OptOutRepository
+  | HandlerOutcomeRepository
+  | ConversationEngine
+  | ConversationRepository
+  | ContactRepository
+  | BookingRepository
+  | TemplateRepository
+  | MessageRepository
+  | IntentClassifier
+  | MessageSender
+  | JobScheduler
+  | WebhookDispatcher
+  | SqliteClient.SqliteClient
+
+// Incoming customer messages go through these handlers, in this order. Chats handed
+// over to a person stop at the first one.
+export const messageHandlers: ReadonlyArray<MessageHandler<MessageHandlerRequirements>> = [
+  handoffHandler,
+  optOutHandler,
+  afterHoursHandler,
+  commandHandler,
+  intentHandler,
+  bookingHandler
+]
@@ -0,0 +1,655 @@
+import { Effect, Option, Runtime, Schedule, Schema, Stream } from "effect"
+import { MessageRepository } from "../database/Repository.js"
+import { HandlerOutcomeRepository } from "../database/HandlerOutcomeRepository.js"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { TemplateRepository } from "../database/TemplateRepository.js"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { HandoffRepository } from "../database/HandoffRepository.js"
+import { WebhookRepository } from "../database/WebhookRepository.js"
+import { MessageSender } from "../whatsapp/MessageSender.js"
+import { JobScheduler } from "../effects/JobScheduler.js"
+import { MessageWorkQueue } from "../effects/MessageWorkQueue.js"
+import QRCode from "qrcode"
+import { SessionManager, SessionNotRunning, type SessionRequirements } from "../whatsapp/SessionManager.js"
+import { ConnectionState } from "../whatsapp/Connection.js"
+import { HistorySyncProgress } from "../whatsapp/MessageStream.js"
+import { cancelAppointmentReminders, scheduleAppointmentReminders } from "../booking/Reminders.js"
+import { AgentInbox, AgentReplied, Assigned, InboxEvent } from "../inbox/AgentInbox.js"
+import { noteAgentActivity, setChatMode } from "../inbox/Handoff.js"
+import { emitAppointmentEvent, WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import {
+  Agent,
+  AgentCreateSchema,
+  Appointment,
+  AppointmentFilterSchema,
+  BookSlotSchema,
+  ChatAssignmentSchema,
+  ChatHandoff,
+  ChatHistoryPage,
+  ChatHistoryQuerySchema,
+  ChatLocaleSchema,
+  ChatModeSchema,
+  ChatSummary,
+  Contact,
+  CreatedWebhookEndpoint,
+  GroupParticipant,
+  HandlerOutcome,
+  Locale,
+  MessageEdit,
+  MessageSearchPage,
+  MessageSearchSchema,
+  MessageTemplate,
+  MessageWorkItem,
+  OutboxMessage,
+  Professional,
+  Service,
+  Slot,
+  SlotQuerySchema,
+  TemplateUpdateSchema,
+  WebhookDelivery,
+  WebhookDeliveryFilterSchema,
+  WebhookEndpoint,
+  WebhookEndpointCreateSchema,
+  WebhookEndpointUpdateSchema,
+  type MessageKey
+} from "../database/Schema.js"
+import { HttpError, json, decodeBody, decodeQuery, respond, route, type Route, type RouteContext } from "./Router.js"
+import { calendarFeedUrl } from "./CalendarRoutes.js"
+
+export type AdminRequirements =
+  | SessionRequirements
+  | SessionManager
+  | BookingRepository
+  | HandlerOutcomeRepository
+  | TemplateRepository
+  | ConversationRepository
+  | HandoffRepository
+  | AgentInbox
+  | WebhookRepository
+  | JobScheduler
+
+const SessionQuerySchema = Schema.Struct({
+  sessionId: Schema.String
+})
+
+// Our copy of a sent message shares its id with the recipient's, ?fromMe=true picks ours
+const MessageQuerySchema = Schema.Struct({
+  fromMe: Schema.optionalWith(Schema.BooleanFromString, { default: () => false })
+})
+
+const messageKeyOf = (context: RouteContext) =>
+  decodeQuery(MessageQuerySchema, context).pipe(
+    Effect.map(({ fromMe }): MessageKey => ({
+      chatId: context.params.chatId!,
+      messageId: context.params.messageId!,
+      fromMe
+    }))
+  )
+
+const SendMessageSchema = Schema.Struct({
+  sessionId: Schema.String,
+  text: Schema.NonEmptyTrimmedString,
+  // Staff member replying, the chat is assigned to them
+  agentId: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null })
+})
+
+const HistoryRequestSchema = Schema.Struct({
+  sessionId: Schema.String,
+  count: Schema.optionalWith(Schema.Int.pipe(Schema.between(1, 500)), { default: () => 50 })
+})
+
+const HistoryRequestResponse = Schema.Struct({
+  requestId: Schema.String
+})
+
+const PairingRequestSchema = Schema.Struct({
+  // International format without "+" or separators, e.g. 5511999998888
+  phoneNumber: Schema.String.pipe(Schema.pattern(/^\d{8,15}$/))
+})
+
+const PairingCodeResponse = Schema.Struct({
+  pairingCode: Schema.String
+})
+
+const CalendarFeed = Schema.Struct({
+  url: Schema.String
+})
+
+const WorkQueueStats = Schema.Struct({
+  pending: Schema.Int,
+  leased: Schema.Int,
+  done: Schema.Int,
+  dead: Schema.Int
+})
+
+const decodeLocale = (locale: string) =>
+  Schema.decodeUnknown(Locale)(locale).pipe(
+    Effect.mapError(() => new HttpError({ status: 400, message: `Unknown locale ${locale}, expected one of ${Locale.literals.join(", ")}` }))
+  )
+
+// Keeps idle event streams from being closed by Bun's idle timeout (10s)
+const EVENT_STREAM_HEARTBEAT = "5 seconds"
+
+const eventStreamResponse = <E>(events: Stream.Stream<Uint8Array, E>, runtime: Runtime.Runtime<never>) =>
+  new Response(Stream.toReadableStreamRuntime(events, runtime), {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      "connection": "keep-alive"
+    }
+  })
+
+const withHeartbeat = <E>(events: Stream.Stream<string, E>) =>
+  events.pipe(
+    Stream.merge(
+      Stream.repeatValue(": keepalive\n\n").pipe(
+        Stream.schedule(Schedule.spaced(EVENT_STREAM_HEARTBEAT))
+      )
+    ),
+    Stream.encodeText
+  )
+
+const SessionInfo = Schema.Struct({
+  sessionId: Schema.String,
+  startedAt: Schema.String,
+  connection: ConnectionState
+})
+
+// QR of a session waiting to be linked, 404 once it is logged in
+const currentQr = (sessionId: string) =>
+  Effect.gen(function* () {
+    const sessions = yield* SessionManager
+    const state = yield* sessions.getConnectionState(sessionId)
+
+    if (Option.isNone(state)) {
+      return yield* new HttpError({ status: 404, message: `Session ${sessionId} is not running` })
+    }
+    if (state.value.qr === null) {
+      return yield* new HttpError({ status: 404, message: `Session ${sessionId} has no QR code to scan (status: ${state.value.status})` })
+    }
+    return state.value.qr
+  })
+
+export const adminRoutes: ReadonlyArray<Route<AdminRequirements>> = [
+  route("GET", "/api/chats", () =>
+    Effect.gen(function* () {
+      const repository = yield* MessageRepository
+      return yield* respond(Schema.Array(ChatSummary), yield* repository.listChats())
+    })
+  ),
+
+  route("GET", "/api/chats/:chatId/participants", (context) =>
+    Effect.gen(function* () {
+      const contacts = yield* ContactRepository
+      const { sessionId } = yield* decodeQuery(SessionQuerySchema, context)
+      return yield* respond(Schema.Array(GroupParticipant), yield* contacts.getParticipants(sessionId, context.params.chatId!))
+    })
+  ),
+
+  route("GET", "/api/contacts", (context) =>
+    Effect.gen(function* () {
+      const contacts = yield* ContactRepository
+      const { sessionId } = yield* decodeQuery(SessionQuerySchema, context)
+      return yield* respond(Schema.Array(Contact), yield* contacts.listContacts(sessionId))
+    })
+  ),
+
+  route("GET", "/api/chats/:chatId/messages", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* MessageRepository
+      const page = yield* decodeQuery(ChatHistoryQuerySchema, context)
+      return yield* respond(ChatHistoryPage, yield* repository.getMessagesByChat(context.params.chatId!, page))
+    })
+  ),
+
+  route("GET", "/api/messages/search", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* MessageRepository
+      const search = yield* decodeQuery(MessageSearchSchema, context)
+      return yield* respond(MessageSearchPage, yield* repository.searchMessages(search))
+    })
+  ),
+
+  route("GET", "/api/chats/:chatId/messages/:messageId/edits", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* MessageRepository
+      const key = yield* messageKeyOf(context)
+      return yield* respond(Schema.Array(MessageEdit), yield* repository.getMessageEdits(key))
+    })
+  ),
+
+  route("GET", "/api/chats/:chatId/messages/:messageId/outcomes", (context) =>
+    Effect.gen(function* () {
+      const outcomes = yield* HandlerOutcomeRepository
+      const key = yield* messageKeyOf(context)
+      return yield* respond(Schema.Array(HandlerOutcome), yield* outcomes.getOutcomes(key))
+    })
+  ),
+
+  // Language the bot writes to this chat in
+  route("PUT", "/api/chats/:chatId/locale", (context) =>
+    Effect.gen(function* () {
+      const templates = yield* TemplateRepository
+      const { sessionId, locale } = yield* decodeBody(ChatLocaleSchema, context)
+
+      yield* templates.setChatLocale(sessionId, context.params.chatId!, locale)
+
+      return yield* respond(ChatLocaleSchema, { sessionId, locale: yield* templates.chatLocale(sessionId, context.params.chatId!) })
+    })
+  ),
+
+  route("POST", "/api/chats/:chatId/messages", (context) =>
+    Effect.gen(function* () {
+      const sender = yield* MessageSender
+      const handoffs = yield* HandoffRepository
+      const inbox = yield* AgentInbox
+      const chatId = context.params.chatId!
+      const { sessionId, text, agentId } = yield* decodeBody(SendMessageSchema, context)
+
+      if (agentId !== null) {
+        yield* handoffs.assign(sessionId, chatId, agentId)
+      }
+
+      // Goes through the outbox like every other reply, so rate limiting and retries apply
+      const queued = yield* sender.enqueue(sessionId, chatId, { text })
+
+      // Written by a person, the bot stays out of the chat while they are answering
+      const { events } = yield* noteAgentActivity(sessionId, chatId, "agent", queued.createdAt)
+      yield* inbox.publishAll([...events, AgentReplied.make({ message: queued, agentId })])
+
+      return yield* respond(OutboxMessage, queued, 202)
+    })
+  ),
+
+  // Bot answers, human waits for a person and goes back to the bot after HANDOFF_IDLE_MINUTES
+  // without one, paused stays without automated replies until switched back
+  route("PUT", "/api/chats/:chatId/mode", (context) =>
+    Effect.gen(function* () {
+      const inbox = yield* AgentInbox
+      const { sessionId, mode } = yield* decodeBody(ChatModeSchema, context)
+
+      const { handoff, events } = yield* setChatMode(sessionId, context.params.chatId!, mode, "admin")
+      yield* inbox.publishAll(events)
+
+      return yield* respond(ChatHandoff, handoff)
+    })
+  ),
+
+  route("PUT", "/api/chats/:chatId/assignment", (context) =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+      const inbox = yield* AgentInbox
+      const { sessionId, agentId } = yield* decodeBody(ChatAssignmentSchema, context)
+
+      const handoff = yield* handoffs.assign(sessionId, context.params.chatId!, agentId)
+      yield* inbox.publish(Assigned.make({ handoff }))
+
+      return yield* respond(ChatHandoff, handoff)
+    })
+  ),
+
+  // Chats answered by a person or paused, longest waiting first
+  route("GET", "/api/inbox", () =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+      return yield* respond(Schema.Array(ChatHandoff), yield* handoffs.listHandoffs())
+    })
+  ),
+
+  // Server-sent events for staff: messages of handed over chats, mode changes, assignments and replies
+  route("GET", "/api/inbox/events", () =>
+    Effect.gen(function* () {
+      const inbox = yield* AgentInbox
+      const runtime = yield* Effect.runtime<never>()
+
+      const events = inbox.events.pipe(
+        Stream.mapEffect(Schema.encode(InboxEvent)),
+        Stream.map((event) => `event: ${event._tag}\ndata: ${JSON.stringify(event)}\n\n`)
+      )
+
+      return eventStreamResponse(withHeartbeat(events), runtime)
+    })
+  ),
+
+  route("GET", "/api/agents", () =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+      return yield* respond(Schema.Array(Agent), yield* handoffs.listAgents())
+    })
+  ),
+
+  route("POST", "/api/agents", (context) =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+      const { name } = yield* decodeBody(AgentCreateSchema, context)
+      return yield* respond(Agent, yield* handoffs.createAgent(name), 201)
+    })
+  ),
+
+  // Asks WhatsApp for messages before the oldest stored one, they are stored as they arrive
+  route("POST", "/api/chats/:chatId/history", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const { sessionId, count } = yield* decodeBody(HistoryRequestSchema, context)
+
+      const requestId = yield* sessions.fetchOlderMessages(sessionId, context.params.chatId!, count)
+
+      return yield* respond(HistoryRequestResponse, { requestId }, 202)
+    })
+  ),
+
+  route("GET", "/api/services", () =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      return yield* respond(Schema.Array(Service), yield* repository.listServices())
+    })
+  ),
+
+  route("GET", "/api/professionals", () =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      return yield* respond(Schema.Array(Professional), yield* repository.listProfessionals())
+    })
+  ),
+
+  // Subscribable .ics URL of the professional's appointments, POST replaces a leaked one
+  route("GET", "/api/professionals/:professionalId/calendar", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const token = yield* repository.calendarToken(context.params.professionalId!, false)
+      return yield* respond(CalendarFeed, { url: calendarFeedUrl(context.url, token) })
+    })
+  ),
+
+  route("POST", "/api/professionals/:professionalId/calendar", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const token = yield* repository.calendarToken(context.params.professionalId!, true)
+      return yield* respond(CalendarFeed, { url: calendarFeedUrl(context.url, token) })
+    })
+  ),
+
+  route("GET", "/api/templates", () =>
+    Effect.gen(function* () {
+      const templates = yield* TemplateRepository
+      return yield* respond(Schema.Array(MessageTemplate), yield* templates.listTemplates())
+    })
+  ),
+
+  // Applies from the next message on, a body using unknown variables answers 400
+  route("PUT", "/api/templates/:name/:locale", (context) =>
+    Effect.gen(function* () {
+      const templates = yield* TemplateRepository
+      const locale = yield* decodeLocale(context.params.locale!)
+      const { body } = yield* decodeBody(TemplateUpdateSchema, context)
+      return yield* respond(MessageTemplate, yield* templates.saveTemplate(context.params.name!, locale, body))
+    })
+  ),
+
+  // Back to the built-in text
+  route("DELETE", "/api/templates/:name/:locale", (context) =>
+    Effect.gen(function* () {
+      const templates = yield* TemplateRepository
+      const locale = yield* decodeLocale(context.params.locale!)
+      return yield* respond(MessageTemplate, yield* templates.resetTemplate(context.params.name!, locale))
+    })
+  ),
+
+  route("GET", "/api/slots", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const query = yield* decodeQuery(SlotQuerySchema, context)
+      return yield* respond(Schema.Array(Slot), yield* repository.listFreeSlots(query))
+    })
+  ),
+
+  route("GET", "/api/appointments", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const filter = yield* decodeQuery(AppointmentFilterSchema, context)
+      return yield* respond(Schema.Array(Appointment), yield* repository.listAppointments(filter))
+    })
+  ),
+
+  route("GET", "/api/appointments/:appointmentId", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      return yield* respond(Appointment, yield* repository.getAppointment(context.params.appointmentId!))
+    })
+  ),
+
+  route("POST", "/api/appointments", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const request = yield* decodeBody(BookSlotSchema, context)
+
+      const appointment = yield* repository.bookSlot(request).pipe(
+        Effect.tap(scheduleAppointmentReminders),
+        Effect.tap(emitAppointmentEvent("appointment.created"))
+      )
+
+      return yield* respond(Appointment, appointment, 201)
+    })
+  ),
+
+  route("POST", "/api/appointments/:appointmentId/cancel", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+
+      const appointment = yield* repository.cancel(context.params.appointmentId!).pipe(
+        Effect.tap((cancelled) => cancelAppointmentReminders(cancelled.id)),
+        Effect.tap(emitAppointmentEvent("appointment.cancelled"))
+      )
+
+      return yield* respond(Appointment, appointment)
+    })
+  ),
+
+  route("GET", "/api/sessions", () =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      return yield* respond(Schema.Array(SessionInfo), yield* sessions.listSessions())
+    })
+  ),
+
+  route("GET", "/api/sessions/:sessionId/connection", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const sessionId = context.params.sessionId!
+
+      const state = yield* sessions.getConnectionState(sessionId)
+      if (Option.isNone(state)) {
+        return yield* new HttpError({ status: 404, message: `Session ${sessionId} is not running` })
+      }
+
+      return yield* respond(ConnectionState, state.value)
+    })
+  ),
+
+  route("GET", "/api/sessions/:sessionId/history-sync", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const sessionId = context.params.sessionId!
+
+      const progress = yield* sessions.getHistorySync(sessionId)
+      if (Option.isNone(progress)) {
+        return yield* new HttpError({ status: 404, message: `Session ${sessionId} is not running` })
+      }
+
+      return yield* respond(HistorySyncProgress, progress.value)
+    })
+  ),
+
+  route("POST", "/api/sessions/:sessionId/start", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const sessionId = context.params.sessionId!
+
+      yield* sessions.startSession(sessionId)
+
+      // Stopped again before we got to read its state
+      const state = yield* sessions.getConnectionState(sessionId)
+      if (Option.isNone(state)) {
+        return yield* new SessionNotRunning({ sessionId })
+      }
+
+      return yield* respond(ConnectionState, state.value, 202)
+    })
+  ),
+
+  route("POST", "/api/sessions/:sessionId/stop", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const sessionId = context.params.sessionId!
+
+      if (!(yield* sessions.stopSession(sessionId))) {
+        return yield* new HttpError({ status: 404, message: `Session ${sessionId} is not running` })
+      }
+
+      return new Response(null, { status: 204 })
+    })
+  ),
+
+  // Server-sent events with the ConnectionState of every change, QR refreshes included
+  route("GET", "/api/sessions/:sessionId/events", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const sessionId = context.params.sessionId!
+
+      const changes = yield* sessions.connectionChanges(sessionId)
+      if (Option.isNone(changes)) {
+        return yield* new HttpError({ status: 404, message: `Session ${sessionId} is not running` })
+      }
+
+      const runtime = yield* Effect.runtime<never>()
+
+      const events = changes.value.pipe(
+        Stream.mapEffect(Schema.encode(ConnectionState)),
+        Stream.map((state) => `event: connection\ndata: ${JSON.stringify(state)}\n\n`)
+      )
+
+      return eventStreamResponse(withHeartbeat(events), runtime)
+    })
+  ),
+
+  route("GET", "/api/sessions/:sessionId/qr.png", (context) =>
+    Effect.gen(function* () {
+      const qr = yield* currentQr(context.params.sessionId!)
+      const image = yield* Effect.promise(() => QRCode.toBuffer(qr, { type: "png", width: 320 }))
+
+      return new Response(image, { headers: { "content-type": "image/png", "cache-control": "no-store" } })
+    })
+  ),
+
+  route("GET", "/api/sessions/:sessionId/qr.svg", (context) =>
+    Effect.gen(function* () {
+      const qr = yield* currentQr(context.params.sessionId!)
+      const image = yield* Effect.promise(() => QRCode.toString(qr, { type: "svg" }))
+
+      return new Response(image, { headers: { "content-type": "image/svg+xml", "cache-control": "no-store" } })
+    })
+  ),
+
+  // Alternative to the QR: WhatsApp shows a field to type this code under "Link with phone number"
+  route("POST", "/api/sessions/:sessionId/pairing-code", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      const { phoneNumber } = yield* decodeBody(PairingRequestSchema, context)
+
+      const pairingCode = yield* sessions.requestPairingCode(context.params.sessionId!, phoneNumber)
+
+      return yield* respond(PairingCodeResponse, { pairingCode })
+    })
+  ),
+
+  route("POST", "/api/sessions/:sessionId/logout", (context) =>
+    Effect.gen(function* () {
+      const sessions = yield* SessionManager
+      yield* sessions.logout(context.params.sessionId!)
+      return json({ loggedOut: true })
+    })
+  ),
+
+  route("GET", "/api/webhooks", () =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      return yield* respond(Schema.Array(WebhookEndpoint), yield* webhooks.listEndpoints())
+    })
+  ),
+
+  // The answer is the only time the signing secret is shown
+  route("POST", "/api/webhooks", (context) =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      const request = yield* decodeBody(WebhookEndpointCreateSchema, context)
+      return yield* respond(CreatedWebhookEndpoint, yield* webhooks.createEndpoint(request), 201)
+    })
+  ),
+
+  // Delivery log, newest first
+  route("GET", "/api/webhooks/deliveries", (context) =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      const filter = yield* decodeQuery(WebhookDeliveryFilterSchema, context)
+      return yield* respond(Schema.Array(WebhookDelivery), yield* webhooks.listDeliveries(filter))
+    })
+  ),
+
+  // Sends the event of a delivery again, whatever became of it
+  route("POST", "/api/webhooks/deliveries/:deliveryId/redeliver", (context) =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      const deliveryId = Number(context.params.deliveryId)
+
+      if (!Number.isInteger(deliveryId)) {
+        return yield* new HttpError({ status: 404, message: `No webhook delivery ${context.params.deliveryId}` })
+      }
+      return yield* respond(WebhookDelivery, yield* webhooks.redeliver(deliveryId), 202)
+    })
+  ),
+
+  route("PUT", "/api/webhooks/:endpointId", (context) =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      const update = yield* decodeBody(WebhookEndpointUpdateSchema, context)
+      return yield* respond(WebhookEndpoint, yield* webhooks.updateEndpoint(context.params.endpointId!, update))
+    })
+  ),
+
+  route("DELETE", "/api/webhooks/:endpointId", (context) =>
+    Effect.gen(function* () {
+      const webhooks = yield* WebhookRepository
+      yield* webhooks.deleteEndpoint(context.params.endpointId!)
+      return new Response(null, { status: 204 })
+    })
+  ),
+
+  route("GET", "/api/work-queue", () =>
+    Effect.gen(function* () {
+      const workQueue = yield* MessageWorkQueue
+      return yield* respond(WorkQueueStats, yield* workQueue.stats())
+    })
+  ),
+
+  // Messages that failed every attempt, with the last error
+  route("GET", "/api/work-queue/dead", () =>
+    Effect.gen(function* () {
+      const workQueue = yield* MessageWorkQueue
+      return yield* respond(Schema.Array(MessageWorkItem), yield* workQueue.listDead())
+    })
+  ),
+
+  route("POST", "/api/work-queue/:itemId/retry", (context) =>
+    Effect.gen(function* () {
+      const workQueue = yield* MessageWorkQueue
+      const itemId = Number(context.params.itemId)
+
+      const retried = Number.isInteger(itemId) ? yield* workQueue.retry(itemId) : false
+      if (!retried) {
+        return yield* new HttpError({ status: 404, message: `No dead work item ${context.params.itemId}` })
+      }
+      return json({ retried: true })
+    })
+  )
+]
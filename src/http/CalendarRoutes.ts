@@ -0,0 +1,64 @@
+import { Effect, Option } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { BookingRepository } from "../database/BookingRepository.js"
+import { MessageFormat, TemplateRepository } from "../database/TemplateRepository.js"
+import { CALENDAR_MIMETYPE, renderCalendar } from "../booking/ICalendar.js"
+import { templateMessage } from "../booking/Templates.js"
+import { HttpError, route, type Route } from "./Router.js"
+
+// Past appointments kept in a feed, so a cancellation still reaches calendars that synced it
+const FEED_HISTORY = 30 * 24 * 60 * 60 * 1000
+
+export const calendarFeedUrl = (base: URL, token: string): string =>
+  new URL(`/calendar/${token}/appointments.ics`, base).toString()
+
+// Calendar apps cannot send the admin token, these routes are authorized by the
+// secret in their URL instead
+export const calendarRoutes: ReadonlyArray<Route<BookingRepository | TemplateRepository | SqliteClient.SqliteClient>> = [
+  route("GET", "/calendar/:token/appointments.ics", (context) =>
+    Effect.gen(function* () {
+      const repository = yield* BookingRepository
+      const templates = yield* TemplateRepository
+
+      const professional = yield* repository.findProfessionalByCalendarToken(context.params.token!)
+      if (Option.isNone(professional)) {
+        return yield* new HttpError({ status: 404, message: "Unknown calendar" })
+      }
+
+      const now = new Date()
+      const appointments = yield* repository.listAppointments({
+        professionalId: professional.value.id,
+        from: new Date(now.getTime() - FEED_HISTORY).toISOString()
+      })
+      const services = new Map((yield* repository.listServices()).map((service) => [service.id, service.name]))
+
+      // Professionals have no language of their own, the feed is in the business's
+      const { defaultLocale: locale } = yield* MessageFormat
+      const removedService = yield* templates.render(templateMessage("service.removed", {}), locale)
+
+      const events = yield* Effect.forEach(appointments, (appointment) =>
+        Effect.gen(function* () {
+          const phone = { "customer.phone": appointment.customerPhone }
+          const description = yield* templates.render(templateMessage("calendar.description", phone), locale)
+          return {
+            appointment,
+            summary: yield* templates.render(templateMessage("calendar.summary", {
+              "service.name": services.get(appointment.serviceId) ?? removedService,
+              ...phone
+            }), locale),
+            description: description.length > 0 ? description : null
+          }
+        })
+      )
+
+      const calendar = renderCalendar({
+        name: yield* templates.render(templateMessage("calendar.name", { "professional.name": professional.value.name }), locale),
+        events
+      }, now.toISOString())
+
+      return new Response(calendar, {
+        headers: { "content-type": `${CALENDAR_MIMETYPE}; charset=utf-8`, "cache-control": "no-store" }
+      })
+    })
+  )
+]
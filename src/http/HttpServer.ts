@@ -0,0 +1,99 @@
+import { Cause, Config, Effect, Layer, Option, Redacted, Runtime } from "effect"
+import { HttpError, json, matchRoute } from "./Router.js"
+import { adminRoutes, type AdminRequirements } from "./AdminRoutes.js"
+import { calendarRoutes } from "./CalendarRoutes.js"
+
+// Domain errors that map to a client error instead of a 500
+const STATUS_BY_TAG: Record<string, number> = {
+  ServiceNotFound: 404,
+  AppointmentNotFound: 404,
+  ProfessionalNotFound: 404,
+  MessageNotFound: 404,
+  InvalidCursor: 400,
+  TemplateNotFound: 404,
+  InvalidTemplate: 400,
+  SlotUnavailable: 409,
+  AppointmentNotCancellable: 409,
+  SessionNotRunning: 404,
+  ChatHasNoMessages: 404,
+  HistoryRequestFailed: 502,
+  AlreadyConnected: 409,
+  PairingCodeTimeout: 504,
+  AgentNotFound: 404,
+  AgentNameTaken: 409,
+  WebhookEndpointNotFound: 404,
+  WebhookDeliveryNotFound: 404
+}
+
+const toErrorResponse = (error: unknown): Response => {
+  if (error instanceof HttpError) {
+    return json({ error: error._tag, message: error.message }, error.status)
+  }
+
+  const tag = (error as { _tag?: string } | null)?._tag
+  const status = tag !== undefined ? STATUS_BY_TAG[tag] : undefined
+  if (status !== undefined) {
+    return json({ error: tag, details: error }, status)
+  }
+
+  return json({ error: "InternalError", message: "Unexpected error" }, 500)
+}
+
+const isAuthorized = (request: Request, token: Option.Option<Redacted.Redacted>) =>
+  Option.match(token, {
+    onNone: () => true,
+    onSome: (expected) => request.headers.get("authorization") === `Bearer ${Redacted.value(expected)}`
+  })
+
+// Admin HTTP server, lives as long as the application scope
+export const HttpServerLive = Layer.scopedDiscard(
+  Effect.gen(function* () {
+    const port = yield* Config.integer("ADMIN_PORT").pipe(Config.withDefault(3000))
+    const token = yield* Config.option(Config.redacted("ADMIN_TOKEN"))
+    const runtime = yield* Effect.runtime<AdminRequirements>()
+
+    const handle = (request: Request) =>
+      Effect.gen(function* () {
+        const url = new URL(request.url)
+
+        const feed = yield* matchRoute(calendarRoutes, request.method, url.pathname)
+        if (feed) {
+          return yield* feed.route.handler({ request, url, params: feed.params })
+        }
+
+        if (!isAuthorized(request, token)) {
+          return json({ error: "Unauthorized" }, 401)
+        }
+
+        const matched = yield* matchRoute(adminRoutes, request.method, url.pathname)
+        if (!matched) {
+          return json({ error: "NotFound", message: `No route for ${request.method} ${url.pathname}` }, 404)
+        }
+
+        return yield* matched.route.handler({ request, url, params: matched.params })
+      }).pipe(
+        Effect.catchAllCause((cause) => {
+          const response = toErrorResponse(Cause.squash(cause))
+          return response.status >= 500
+            ? Effect.logError(`❌ ${request.method} ${request.url} failed`, cause).pipe(Effect.as(response))
+            : Effect.succeed(response)
+        })
+      )
+
+    yield* Effect.acquireRelease(
+      Effect.sync(() =>
+        Bun.serve({
+          port,
+          fetch: (request) => Runtime.runPromise(runtime)(handle(request))
+        })
+      ),
+      (server) => Effect.sync(() => server.stop())
+    )
+
+    if (Option.isNone(token)) {
+      yield* Effect.logWarning("⚠️ ADMIN_TOKEN is not set, the admin API is open to anyone who can reach it")
+    }
+
+    yield* Effect.log(`🌐 Admin API listening on port ${port}`)
+  })
+)
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test"
+import { Effect, Either } from "effect"
+import { HttpError, json, matchRoute, route } from "./Router.js"
+
+const routes = [
+  route("GET", "/api/chats/:chatId/messages", () => Effect.succeed(json({}))),
+  route("GET", "/api/chats/:chatId/messages/:messageId/edits", () => Effect.succeed(json({})))
+]
+
+const match = (method: string, pathname: string) =>
+  Effect.runSync(Effect.either(matchRoute(routes, method, pathname)))
+
+describe("matchRoute", () => {
+  test("decodes params", () => {
+    const matched = match("GET", "/api/chats/5511999999999%40s.whatsapp.net/messages")
+    expect(Either.isRight(matched) && matched.right?.params).toEqual({ chatId: "5511999999999@s.whatsapp.net" })
+  })
+
+  test("leaves paths without a route unmatched", () => {
+    expect(match("GET", "/api/chats/1/contacts")).toEqual(Either.right(undefined))
+    expect(match("POST", "/api/chats/1/messages")).toEqual(Either.right(undefined))
+  })
+
+  test("rejects a malformed escape as a bad request", () => {
+    const matched = match("GET", "/api/chats/%E0/messages/ABC/edits")
+    expect(Either.isLeft(matched)).toBe(true)
+    expect(Either.isLeft(matched) && matched.left instanceof HttpError && matched.left.status).toBe(400)
+  })
+
+  test("only decodes the params of the route that matched", () => {
+    expect(match("GET", "/api/%E0/1/messages")).toEqual(Either.right(undefined))
+  })
+})
@@ -0,0 +1,85 @@
+import { Effect, Data, Schema } from "effect"
+
+// Raised by route handlers, turned into a JSON error response by the server
+export class HttpError extends Data.TaggedError("HttpError")<{
+  readonly status: number
+  readonly message: string
+}> {}
+
+export interface RouteContext {
+  readonly request: Request
+  readonly url: URL
+  readonly params: Readonly<Record<string, string>>
+}
+
+export interface Route<R> {
+  readonly method: string
+  readonly segments: ReadonlyArray<string>
+  readonly handler: (context: RouteContext) => Effect.Effect<Response, unknown, R>
+}
+
+// Paths are written like "/api/chats/:chatId/messages", ":name" segments become params
+export const route = <R>(
+  method: string,
+  path: string,
+  handler: (context: RouteContext) => Effect.Effect<Response, unknown, R>
+): Route<R> => ({
+  method,
+  segments: path.split('/').filter((segment) => segment.length > 0),
+  handler
+})
+
+// A malformed escape like "%E0" is the client's mistake, not a server error
+const decodeParam = (segment: string) =>
+  Effect.try({
+    try: () => decodeURIComponent(segment),
+    catch: () => new HttpError({ status: 400, message: `Malformed path segment: ${segment}` })
+  })
+
+export const matchRoute = <R>(routes: ReadonlyArray<Route<R>>, method: string, pathname: string) =>
+  Effect.gen(function* () {
+    const parts = pathname.split('/').filter((segment) => segment.length > 0)
+
+    for (const candidate of routes) {
+      if (candidate.method !== method || candidate.segments.length !== parts.length) continue
+
+      const matches = candidate.segments.every((segment, index) => segment.startsWith(':') || segment === parts[index])
+      if (!matches) continue
+
+      const params: Record<string, string> = {}
+      for (const [index, segment] of candidate.segments.entries()) {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = yield* decodeParam(parts[index]!)
+        }
+      }
+      return { route: candidate, params }
+    }
+
+    return undefined
+  })
+
+export const json = (body: unknown, status = 200): Response =>
+  Response.json(body, { status })
+
+// Encodes the response body with its schema so the wire format never drifts from the types
+export const respond = <A, I>(schema: Schema.Schema<A, I>, value: A, status = 200) =>
+  Schema.encode(schema)(value).pipe(
+    Effect.map((encoded) => json(encoded, status)),
+    Effect.orDie
+  )
+
+const badRequest = (error: unknown) =>
+  new HttpError({ status: 400, message: `${error}` })
+
+export const decodeBody = <A, I>(schema: Schema.Schema<A, I>, context: RouteContext) =>
+  Effect.tryPromise({
+    try: () => context.request.json(),
+    catch: () => new HttpError({ status: 400, message: "Request body must be valid JSON" })
+  }).pipe(
+    Effect.flatMap((body) => Schema.decodeUnknown(schema)(body).pipe(Effect.mapError(badRequest)))
+  )
+
+export const decodeQuery = <A, I>(schema: Schema.Schema<A, I>, context: RouteContext) =>
+  Schema.decodeUnknown(schema)(Object.fromEntries(context.url.searchParams)).pipe(
+    Effect.mapError(badRequest)
+  )
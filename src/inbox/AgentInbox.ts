@@ -0,0 +1,56 @@
+import { Context, Effect, Layer, PubSub, Schema, Stream } from "effect"
+import { ChatHandoff, OutboxMessage, WhatsAppMessage } from "../database/Schema.js"
+
+// Why a chat changed hands
+export const HandoffReason = Schema.Literal(
+  // The customer asked for a person
+  "customer_request",
+  // Someone answered from the phone the session is linked to
+  "phone",
+  // An agent replied through the API
+  "agent",
+  // Switched through PUT /api/chats/:chatId/mode
+  "admin",
+  // Nobody answered for HANDOFF_IDLE_MINUTES
+  "idle"
+)
+
+export type HandoffReason = Schema.Schema.Type<typeof HandoffReason>
+
+// A customer wrote to a chat that is not answered by the bot
+export const MessageReceived = Schema.TaggedStruct("MessageReceived", { message: WhatsAppMessage })
+
+export const ModeChanged = Schema.TaggedStruct("ModeChanged", { handoff: ChatHandoff, reason: HandoffReason })
+
+export const Assigned = Schema.TaggedStruct("Assigned", { handoff: ChatHandoff })
+
+export const AgentReplied = Schema.TaggedStruct("AgentReplied", { message: OutboxMessage, agentId: Schema.NullOr(Schema.String) })
+
+// What staff watching the inbox are told about, as server-sent events named after the tag
+export const InboxEvent = Schema.Union(MessageReceived, ModeChanged, Assigned, AgentReplied)
+
+export type InboxEvent = Schema.Schema.Type<typeof InboxEvent>
+
+export class AgentInbox extends Context.Tag("AgentInbox")<
+  AgentInbox,
+  {
+    readonly publish: (event: InboxEvent) => Effect.Effect<void>
+    readonly publishAll: (events: Iterable<InboxEvent>) => Effect.Effect<void>
+    // Events published from now on, every subscriber gets each of them
+    readonly events: Stream.Stream<InboxEvent>
+  }
+>() {}
+
+export const AgentInboxLive = Layer.effect(
+  AgentInbox,
+  Effect.gen(function* () {
+    // Nobody may be watching, a slow subscriber loses the oldest events instead of blocking the handlers
+    const pubsub = yield* PubSub.sliding<InboxEvent>(1024)
+
+    return {
+      publish: (event) => Effect.asVoid(PubSub.publish(pubsub, event)),
+      publishAll: (events) => Effect.asVoid(PubSub.publishAll(pubsub, events)),
+      events: Stream.fromPubSub(pubsub)
+    }
+  })
+)
@@ -0,0 +1,111 @@
+import { Config, Effect, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { ConversationRepository } from "../database/ConversationRepository.js"
+import { HandoffRepository } from "../database/HandoffRepository.js"
+import type { ChatHandoff, ChatMode } from "../database/Schema.js"
+import { initialState } from "../booking/BookingFlow.js"
+import { JobScheduler, type JobHandlers } from "../effects/JobScheduler.js"
+import { AgentInbox, ModeChanged, type HandoffReason, type InboxEvent } from "./AgentInbox.js"
+
+export const HANDOFF_RELEASE_JOB = "handoff.release"
+
+// A chat in human mode goes back to the bot after this long without a reply of a person
+const HandoffIdle = Config.integer("HANDOFF_IDLE_MINUTES").pipe(
+  Config.withDefault(30),
+  Config.map((minutes) => minutes * 60 * 1000)
+)
+
+const ReleasePayload = Schema.Struct({
+  sessionId: Schema.String,
+  chatId: Schema.String,
+  agentActiveAt: Schema.String
+})
+
+// The chat after a change and what the agents are told about it. The caller publishes
+// the events once the change is committed, a rolled back change tells nobody.
+export interface HandoffChange {
+  readonly handoff: ChatHandoff
+  readonly events: ReadonlyArray<InboxEvent>
+}
+
+const unchanged = (handoff: ChatHandoff): HandoffChange => ({ handoff, events: [] })
+
+const releaseKeyPrefix = (sessionId: string, chatId: string) => `handoff:${sessionId}:${chatId}:`
+
+// Replaces the pending release of the chat, only human mode is released on its own
+const scheduleRelease = (handoff: ChatHandoff) =>
+  Effect.gen(function* () {
+    const scheduler = yield* JobScheduler
+    const idle = yield* HandoffIdle
+
+    yield* scheduler.cancel(releaseKeyPrefix(handoff.sessionId, handoff.chat_id))
+
+    if (handoff.mode !== "human" || handoff.agentActiveAt === null) return
+
+    yield* scheduler.schedule({
+      jobType: HANDOFF_RELEASE_JOB,
+      dedupeKey: `${releaseKeyPrefix(handoff.sessionId, handoff.chat_id)}${handoff.agentActiveAt}`,
+      payload: { sessionId: handoff.sessionId, chatId: handoff.chat_id, agentActiveAt: handoff.agentActiveAt },
+      runAt: new Date(new Date(handoff.agentActiveAt).getTime() + idle).toISOString()
+    })
+  })
+
+export const setChatMode = (sessionId: string, chatId: string, mode: ChatMode, reason: HandoffReason) =>
+  Effect.gen(function* () {
+    const handoffs = yield* HandoffRepository
+    const conversations = yield* ConversationRepository
+
+    const previous = yield* handoffs.getHandoff(sessionId, chatId)
+    const handoff = yield* handoffs.setMode(sessionId, chatId, mode, new Date().toISOString())
+    yield* scheduleRelease(handoff)
+
+    if (previous.mode === mode) return unchanged(handoff)
+
+    // The person takes over mid-dialogue, the bot starts afresh when it gets the chat back
+    if (previous.mode === "bot") {
+      yield* conversations.saveState(sessionId, chatId, initialState)
+    }
+
+    yield* Effect.log(`🙋 [${sessionId}] Chat ${chatId} switched from ${previous.mode} to ${mode} (${reason})`)
+    return { handoff, events: [ModeChanged.make({ handoff, reason })] }
+  })
+
+// A person wrote to the chat, at is when. Takes the chat from the bot and keeps it away
+// from it for another idle period. Activity older than that, like history being synced,
+// changes nothing.
+export const noteAgentActivity = (sessionId: string, chatId: string, reason: HandoffReason, at: string) =>
+  Effect.gen(function* () {
+    const handoffs = yield* HandoffRepository
+    const idle = yield* HandoffIdle
+
+    const current = yield* handoffs.getHandoff(sessionId, chatId)
+    if (new Date(at).getTime() + idle <= Date.now()) {
+      return unchanged(current)
+    }
+
+    if (current.mode === "bot") {
+      return yield* setChatMode(sessionId, chatId, "human", reason)
+    }
+
+    const handoff = yield* handoffs.touchAgentActivity(sessionId, chatId, at)
+    yield* scheduleRelease(handoff)
+    return unchanged(handoff)
+  })
+
+export const handoffJobHandlers: JobHandlers<HandoffRepository | ConversationRepository | AgentInbox | JobScheduler | SqliteClient.SqliteClient> = {
+  [HANDOFF_RELEASE_JOB]: (payload) =>
+    Effect.gen(function* () {
+      const handoffs = yield* HandoffRepository
+      const release = yield* Schema.decodeUnknown(ReleasePayload)(payload)
+      const handoff = yield* handoffs.getHandoff(release.sessionId, release.chatId)
+
+      // Paused, released by hand or answered since the release was scheduled
+      if (handoff.mode !== "human" || handoff.agentActiveAt !== release.agentActiveAt) {
+        yield* Effect.log(`⏭️ Skipping stale handoff release for chat ${release.chatId}`)
+        return
+      }
+
+      const { events } = yield* setChatMode(release.sessionId, release.chatId, "bot", "idle")
+      return Effect.flatMap(AgentInbox, (inbox) => inbox.publishAll(events))
+    })
+}
@@ -1,66 +1,119 @@
-import { Effect, Layer, Logger, LogLevel } from "effect"
-import { SqliteClient } from "@effect/sql-sqlite-bun"
-import { WhatsAppConnection, WhatsAppConnectionLive } from "./whatsapp/Connection.js"
-import { MessageStreamLive, processMessageStream } from "./whatsapp/MessageStream.js"
+import { Config, Effect, Layer, Logger, LogLevel } from "effect"
+import { WhatsAppConnectionLive } from "./whatsapp/Connection.js"
+import { MessageStreamLive, processStoredMessage } from "./whatsapp/MessageStream.js"
+import { AuthStateLive } from "./whatsapp/AuthState.js"
+import { SessionManager, SessionManagerLive } from "./whatsapp/SessionManager.js"
+import { DatabaseLive } from "./database/Database.js"
 import { MessageRepositoryLive } from "./database/Repository.js"
-import { MessageLogger, MessageLoggerLive } from "./effects/Logger.js"
-import { createTables } from "./database/Schema.js"
+import { BookingRepositoryLive } from "./database/BookingRepository.js"
+import { ConversationRepositoryLive } from "./database/ConversationRepository.js"
+import { HandlerOutcomeRepositoryLive } from "./database/HandlerOutcomeRepository.js"
+import { OptOutRepositoryLive } from "./database/OptOutRepository.js"
+import { ContactRepositoryLive } from "./database/ContactRepository.js"
+import { TemplateRepositoryLive } from "./database/TemplateRepository.js"
+import { HandoffRepositoryLive } from "./database/HandoffRepository.js"
+import { WebhookRepositoryLive } from "./database/WebhookRepository.js"
+import { ConversationEngineLive } from "./booking/ConversationEngine.js"
+import { IntentClassifierLive } from "./booking/IntentClassifier.js"
+import { MessageWorkQueue, MessageWorkQueueLive } from "./effects/MessageWorkQueue.js"
+import { MessageSenderLive } from "./whatsapp/MessageSender.js"
+import { MediaStoreLive } from "./whatsapp/MediaStore.js"
+import { JobScheduler, JobSchedulerLive, type JobHandlerRequirements } from "./effects/JobScheduler.js"
+import { reminderJobHandlers } from "./booking/Reminders.js"
+import { AgentInboxLive } from "./inbox/AgentInbox.js"
+import { handoffJobHandlers } from "./inbox/Handoff.js"
+import { WebhookDispatcher, WebhookDispatcherLive } from "./webhooks/WebhookDispatcher.js"
+import { HttpServerLive } from "./http/HttpServer.js"
 
-// Database layer with table initialization
-const DatabaseLive = Layer.unwrapEffect(
-  Effect.gen(function* () {
-    const sql = yield* SqliteClient.make({ filename: "./messages.db" })
-    yield* createTables(sql)
-    yield* Effect.log("📦 Database initialized")
-    return Layer.succeed(SqliteClient.SqliteClient, sql)
-  })
-)
-
-// Main application layer composition
-const MainLive = Layer.merge(
-  Layer.merge(DatabaseLive, MessageRepositoryLive),
+// Application services
+const ServicesLive = Layer.merge(
+  Layer.merge(
+    Layer.merge(DatabaseLive, Layer.merge(MessageRepositoryLive, ContactRepositoryLive)),
+    Layer.merge(
+      Layer.merge(BookingRepositoryLive, ConversationRepositoryLive),
+      Layer.merge(
+        Layer.merge(HandlerOutcomeRepositoryLive, OptOutRepositoryLive),
+        Layer.merge(TemplateRepositoryLive, Layer.merge(HandoffRepositoryLive, WebhookRepositoryLive))
+      )
+    )
+  ),
   Layer.merge(
-    Layer.merge(WhatsAppConnectionLive, MessageStreamLive),
-    MessageLoggerLive
+    Layer.merge(
+      Layer.merge(WhatsAppConnectionLive, MessageStreamLive),
+      Layer.merge(
+        Layer.merge(MessageSenderLive, AuthStateLive),
+        Layer.merge(SessionManagerLive, MediaStoreLive)
+      )
+    ),
+    Layer.merge(
+      Layer.merge(MessageWorkQueueLive, ConversationEngineLive),
+      Layer.merge(
+        Layer.merge(JobSchedulerLive, IntentClassifierLive),
+        Layer.merge(AgentInboxLive, WebhookDispatcherLive)
+      )
+    )
   )
 )
 
+// Main application layer composition, the admin API is served on top of the services
+const MainLive = HttpServerLive.pipe(Layer.provideMerge(ServicesLive))
+
 // Main application program
 const program = Effect.gen(function* () {
   yield* Effect.log("🚀 Starting WhatsApp Effect-TS Bot...")
 
-  const connection = yield* WhatsAppConnection
-  const logger = yield* MessageLogger
+  const sessions = yield* SessionManager
+  const workQueue = yield* MessageWorkQueue
+  const scheduler = yield* JobScheduler
+  const webhooks = yield* WebhookDispatcher
+
+  // One WhatsApp session per number (clinic or branch), e.g. WHATSAPP_SESSIONS=centro,filial
+  const sessionIds = yield* Config.string("WHATSAPP_SESSIONS").pipe(
+    Config.withDefault("default"),
+    Config.map((value) => value.split(',').map((id) => id.trim()).filter((id) => id.length > 0))
+  )
+
+  // Start every session, each one keeps its own socket connected and runs its own message stream and outbox
+  for (const sessionId of sessionIds) {
+    yield* sessions.startSession(sessionId)
+  }
 
-  // Connect to WhatsApp and get socket
-  const socket = yield* connection.connect()
-  yield* Effect.log("✅ WhatsApp connection established")
+  // Start message work queue (logs every stored message and runs the handlers)
+  const workQueueFiber = yield* Effect.fork(
+    workQueue.start(processStoredMessage).pipe(
+      Effect.catchAll((error: unknown) =>
+        Effect.log(`❌ Message work queue error: ${error}`)
+      )
+    )
+  )
 
-  // Start message processing stream
-  const messageProcessingFiber = yield* Effect.fork(
-    processMessageStream(socket).pipe(
+  // Start job scheduler (appointment reminders, chats handed back to the bot)
+  const schedulerFiber = yield* Effect.fork(
+    scheduler.start<JobHandlerRequirements<typeof reminderJobHandlers | typeof handoffJobHandlers>>({
+      ...reminderJobHandlers,
+      ...handoffJobHandlers
+    }).pipe(
       Effect.catchAll((error: unknown) =>
-        Effect.log(`❌ Message processing error: ${error}`)
+        Effect.log(`❌ Job scheduler error: ${error}`)
       )
     )
   )
 
-  // Start 2-second logging routine
-  const loggingFiber = yield* Effect.fork(
-    logger.startLogging().pipe(
+  // Start webhook deliveries (signed POSTs to the configured endpoints)
+  const webhookFiber = yield* Effect.fork(
+    webhooks.start().pipe(
       Effect.catchAll((error: unknown) =>
-        Effect.log(`❌ Logging routine error: ${error}`)
+        Effect.log(`❌ Webhook dispatcher error: ${error}`)
       )
     )
   )
 
   yield* Effect.log("🎯 All services started successfully!")
   yield* Effect.log("📱 Waiting for WhatsApp messages...")
-  yield* Effect.log("🕒 Logging unprocessed messages every 2 seconds...")
   yield* Effect.log("💬 Bot is ready to receive and process messages!")
 
-  // Wait for both fibers to complete (they run forever)
-  yield* Effect.all([messageProcessingFiber, loggingFiber], { concurrency: "unbounded" })
+  // Wait for all fibers to complete (they run forever)
+  yield* Effect.all([workQueueFiber, schedulerFiber, webhookFiber], { concurrency: "unbounded" })
 })
 
 // Error handling and graceful shutdown
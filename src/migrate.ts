@@ -0,0 +1,41 @@
+import { Effect, Exit, Logger, LogLevel } from "effect"
+import { openDatabase } from "./database/Database.js"
+import { LATEST_SCHEMA_VERSION, checkSchemaVersion, formatMigration, migrationStatus, runMigrations } from "./database/Migrations.js"
+
+// Usage: bun run migrate [status|up]
+const command = process.argv[2] ?? "status"
+
+const program = Effect.gen(function* () {
+  const sql = yield* openDatabase
+
+  switch (command) {
+    case "status": {
+      const version = yield* checkSchemaVersion(sql)
+      yield* Effect.log(`🧱 Schema version ${version} of ${LATEST_SCHEMA_VERSION}`)
+
+      for (const migration of yield* migrationStatus(sql)) {
+        yield* Effect.log(formatMigration(migration))
+      }
+      return
+    }
+    case "up": {
+      const completed = yield* runMigrations(sql)
+      if (completed.length === 0) {
+        yield* Effect.log("✅ Schema is up to date")
+      }
+      return
+    }
+    default:
+      return yield* Effect.fail(`Unknown command "${command}", expected status or up`)
+  }
+})
+
+Effect.runPromiseExit(
+  program.pipe(
+    Effect.tapErrorCause(Effect.logError),
+    Logger.withMinimumLogLevel(LogLevel.Info),
+    Effect.scoped
+  )
+).then((exit) => {
+  process.exitCode = Exit.isSuccess(exit) ? 0 : 1
+})
@@ -0,0 +1,191 @@
+import { Effect, Context, Layer, Option, Schedule, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { createHmac } from "node:crypto"
+import { Appointment, WebhookDelivery, WhatsAppMessage } from "../database/Schema.js"
+import { DELIVERY_COLUMNS } from "../database/WebhookRepository.js"
+import { findAll, findOne } from "../database/Rows.js"
+import { ConnectionState } from "../whatsapp/Connection.js"
+
+// What endpoints receive, wrapped in { id, createdAt, type, sessionId, data }
+export const WebhookEvent = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal("message.received", "message.sent"),
+    sessionId: Schema.String,
+    data: WhatsAppMessage
+  }),
+  Schema.Struct({
+    type: Schema.Literal("appointment.created", "appointment.rescheduled", "appointment.cancelled"),
+    sessionId: Schema.String,
+    data: Appointment
+  }),
+  Schema.Struct({
+    type: Schema.Literal("connection.changed"),
+    sessionId: Schema.String,
+    data: ConnectionState
+  })
+)
+
+export type WebhookEvent = Schema.Schema.Type<typeof WebhookEvent>
+
+export class WebhookDispatcher extends Context.Tag("WebhookDispatcher")<
+  WebhookDispatcher,
+  {
+    // Queues a delivery to every active endpoint subscribed to the event. It commits with
+    // the caller's transaction, so nothing is reported that was rolled back.
+    readonly emit: (event: WebhookEvent) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly start: () => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+  }
+>() {}
+
+// For booking call sites, alongside the reminders: Effect.tap(emitAppointmentEvent("appointment.created"))
+export const emitAppointmentEvent = (type: Extract<WebhookEvent, { data: Appointment }>["type"]) => (appointment: Appointment) =>
+  Effect.flatMap(WebhookDispatcher, (webhooks) => webhooks.emit({ type, sessionId: appointment.sessionId, data: appointment }))
+
+const POLL_INTERVAL = "1 second"
+
+// Deliveries claimed per poll, sent side by side so one slow endpoint does not hold up the rest
+const BATCH_SIZE = 20
+const CONCURRENCY = 4
+
+const REQUEST_TIMEOUT = "10 seconds"
+
+// Attempts before a delivery is parked as failed, it can still be redelivered by hand
+const MAX_ATTEMPTS = 8
+
+// Delay before the next attempt: 30s, 1m, 2m, ... capped at 1h
+const nextAttemptDelay = (attempts: number): number =>
+  Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), 60 * 60 * 1000)
+
+const EndpointTarget = Schema.Struct({
+  url: Schema.String,
+  secret: Schema.String
+})
+
+// Receivers recompute the HMAC-SHA256 of "<timestamp>.<body>" with the endpoint's secret
+// and reject old timestamps, so a captured request cannot be replayed later
+export const signPayload = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+
+export const WebhookDispatcherLive = Layer.succeed(WebhookDispatcher, {
+  emit: (event) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+      const eventId = crypto.randomUUID()
+      const encoded = yield* Schema.encode(WebhookEvent)(event).pipe(Effect.orDie)
+      const payload = JSON.stringify({ id: eventId, createdAt: new Date().toISOString(), ...encoded })
+
+      yield* sql`
+        INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+        SELECT id, ${eventId}, ${event.type}, ${payload}
+        FROM webhook_endpoints
+        WHERE active = 1 AND EXISTS (SELECT 1 FROM json_each(event_types) WHERE value = ${event.type})
+      `
+    }),
+
+  start: () =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      // A crash mid-request leaves rows in 'delivering', they may have arrived or not.
+      // Receivers see the same event id again and can tell.
+      const recovered = yield* sql`
+        UPDATE webhook_deliveries SET status = 'pending'
+        WHERE status = 'delivering'
+        RETURNING id
+      `
+      if (recovered.length > 0) {
+        yield* Effect.log(`♻️ Recovered ${recovered.length} webhook deliveries interrupted mid-request`)
+      }
+
+      yield* Effect.log("🪝 Starting webhook delivery routine...")
+
+      const deliver = (delivery: WebhookDelivery) =>
+        Effect.gen(function* () {
+          const endpoint = yield* sql`
+            SELECT url, secret FROM webhook_endpoints WHERE id = ${delivery.endpointId}
+          `.pipe(findOne(EndpointTarget))
+
+          const timestamp = Math.floor(Date.now() / 1000).toString()
+
+          const outcome = Option.isNone(endpoint)
+            ? { status: null, error: "Endpoint was removed" }
+            : yield* Effect.tryPromise({
+              try: (signal) =>
+                fetch(endpoint.value.url, {
+                  method: "POST",
+                  signal,
+                  headers: {
+                    "content-type": "application/json",
+                    "x-webhook-id": delivery.eventId,
+                    "x-webhook-event": delivery.eventType,
+                    "x-webhook-timestamp": timestamp,
+                    "x-webhook-signature": signPayload(endpoint.value.secret, timestamp, delivery.payload)
+                  },
+                  body: delivery.payload
+                }),
+              catch: (error) => `Request failed: ${error}`
+            }).pipe(
+              Effect.timeoutFail({ duration: REQUEST_TIMEOUT, onTimeout: () => "Request timed out" }),
+              Effect.map((response) => ({
+                status: response.status as number | null,
+                error: response.ok ? null : `Endpoint answered ${response.status}`
+              })),
+              Effect.catchAll((error) => Effect.succeed({ status: null, error }))
+            )
+
+          if (outcome.error === null) {
+            yield* sql`
+              UPDATE webhook_deliveries
+              SET status = 'delivered', response_status = ${outcome.status}, last_error = NULL, delivered_at = datetime('now')
+              WHERE id = ${delivery.id}
+            `
+            yield* Effect.log(`🪝 Delivered ${delivery.eventType} ${delivery.eventId} to endpoint ${delivery.endpointId}`)
+            return
+          }
+
+          const failed = delivery.attempts >= MAX_ATTEMPTS || Option.isNone(endpoint)
+          const nextAttemptAt = new Date(Date.now() + nextAttemptDelay(delivery.attempts)).toISOString()
+
+          yield* sql`
+            UPDATE webhook_deliveries
+            SET status = ${failed ? 'failed' : 'pending'},
+                response_status = ${outcome.status},
+                last_error = ${outcome.error},
+                next_attempt_at = ${nextAttemptAt}
+            WHERE id = ${delivery.id}
+          `
+
+          yield* Effect.log(
+            failed
+              ? `❌ Giving up on webhook delivery #${delivery.id} after ${delivery.attempts} attempts: ${outcome.error}`
+              : `⏳ Webhook delivery #${delivery.id} failed (attempt ${delivery.attempts}): ${outcome.error}, retrying at ${nextAttemptAt}`
+          )
+        })
+
+      const deliverDue = Effect.gen(function* () {
+        const due = yield* sql`
+          UPDATE webhook_deliveries
+          SET status = 'delivering', attempts = attempts + 1
+          WHERE id IN (
+            SELECT id FROM webhook_deliveries
+            WHERE status = 'pending' AND next_attempt_at <= ${new Date().toISOString()}
+            ORDER BY id ASC
+            LIMIT ${BATCH_SIZE}
+          )
+          RETURNING ${sql.literal(DELIVERY_COLUMNS)}
+        `.pipe(findAll(WebhookDelivery))
+
+        yield* Effect.forEach(due, deliver, { concurrency: CONCURRENCY, discard: true })
+      })
+
+      yield* Effect.schedule(
+        deliverDue.pipe(
+          Effect.catchAll((error) =>
+            Effect.log(`❌ Webhook delivery error: ${error.message}`)
+          )
+        ),
+        Schedule.spaced(POLL_INTERVAL)
+      )
+    })
+})
@@ -1,6 +1,7 @@
-import { Effect, Context, Layer, Schema } from "effect"
+import { Effect, Context, Layer, Runtime, Schema } from "effect"
 import { SqliteClient } from "@effect/sql-sqlite-bun"
 import { SqlError } from "@effect/sql"
+import { initAuthCreds, proto } from "@whiskeysockets/baileys"
 import type { 
   AuthenticationState, 
   AuthenticationCreds, 
@@ -34,7 +35,6 @@ export class AuthStateRepository extends Context.Tag("AuthStateRepository")<
     readonly saveKeys: (sessionId: string, data: SignalDataSet) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
     readonly loadKeys: <T extends keyof SignalDataTypeMap>(sessionId: string, type: T, ids: string[]) => Effect.Effect<{ [id: string]: SignalDataTypeMap[T] }, SqlError.SqlError, SqliteClient.SqliteClient>
     readonly clearSession: (sessionId: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
-    readonly initializeTables: () => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
   }
 >() {}
 
@@ -42,9 +42,9 @@ export class AuthStateRepository extends Context.Tag("AuthStateRepository")<
 export class WhatsAppAuthState extends Context.Tag("WhatsAppAuthState")<
   WhatsAppAuthState,
   {
-    readonly createAuthState: (sessionId: string) => Effect.Effect<AuthenticationState, SqlError.SqlError, AuthStateRepository>
-    readonly saveAuthState: (sessionId: string, state: AuthenticationState) => Effect.Effect<void, SqlError.SqlError, AuthStateRepository>
-    readonly clearAuthState: (sessionId: string) => Effect.Effect<void, SqlError.SqlError, AuthStateRepository>
+    readonly createAuthState: (sessionId: string) => Effect.Effect<AuthenticationState, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly saveAuthState: (sessionId: string, state: AuthenticationState) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly clearAuthState: (sessionId: string) => Effect.Effect<void, SqlError.SqlError, SqliteClient.SqliteClient>
   }
 >() {}
 
@@ -91,45 +91,6 @@ export const AuthStateRepositoryLive = Layer.effect(
   AuthStateRepository,
   Effect.gen(function* () {
     return {
-      initializeTables: () =>
-        Effect.gen(function* () {
-          const sql = yield* SqliteClient.SqliteClient
-
-          // Table for authentication credentials
-          yield* sql`
-            CREATE TABLE IF NOT EXISTS auth_credentials (
-              session_id TEXT PRIMARY KEY,
-              credentials_data TEXT NOT NULL,
-              created_at TEXT NOT NULL DEFAULT (datetime('now')),
-              updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-            )
-          `
-
-          // Table for signal keys
-          yield* sql`
-            CREATE TABLE IF NOT EXISTS auth_keys (
-              session_id TEXT NOT NULL,
-              key_type TEXT NOT NULL,
-              key_id TEXT NOT NULL,
-              key_data TEXT NOT NULL,
-              created_at TEXT NOT NULL DEFAULT (datetime('now')),
-              updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-              PRIMARY KEY (session_id, key_type, key_id)
-            )
-          `
-
-          // Indexes for performance
-          yield* sql`
-            CREATE INDEX IF NOT EXISTS idx_auth_keys_session_type ON auth_keys(session_id, key_type)
-          `
-
-          yield* sql`
-            CREATE INDEX IF NOT EXISTS idx_auth_credentials_session ON auth_credentials(session_id)
-          `
-
-          yield* Effect.log("📦 Auth state tables initialized")
-        }),
-
       saveCredentials: (sessionId, creds) =>
         Effect.gen(function* () {
           const sql = yield* SqliteClient.SqliteClient
@@ -139,13 +100,10 @@ export const AuthStateRepositoryLive = Layer.effect(
           const result = yield* sql`
             INSERT OR REPLACE INTO auth_credentials (session_id, credentials_data, updated_at)
             VALUES (${sessionId}, ${serializedCreds}, datetime('now'))
-            RETURNING session_id, credentials_data as data
+            RETURNING session_id as "sessionId", credentials_data as data
           `
 
-          return {
-            sessionId: result[0].session_id,
-            data: result[0].data
-          } as AuthCreds
+          return result[0] as unknown as AuthCreds
         }),
 
       loadCredentials: (sessionId) =>
@@ -162,7 +120,7 @@ export const AuthStateRepositoryLive = Layer.effect(
             return null
           }
 
-          const credentialsData = JSON.parse(result[0].credentials_data)
+          const credentialsData = JSON.parse((result[0] as { credentials_data: string }).credentials_data)
           return deserializeBinaryData(credentialsData) as AuthenticationCreds
         }),
 
@@ -212,7 +170,7 @@ export const AuthStateRepositoryLive = Layer.effect(
             WHERE session_id = ? AND key_type = ? AND key_id IN (${placeholders})
           `
 
-          const result = yield* sql.unsafe(query, [sessionId, type, ...ids])
+          const result = yield* sql.unsafe<{ key_id: string, key_data: string }>(query, [sessionId, type, ...ids])
 
           const keyMap: { [id: string]: any } = {}
           for (const row of result) {
@@ -245,28 +203,36 @@ export const WhatsAppAuthStateLive = Layer.effect(
     return {
       createAuthState: (sessionId) =>
         Effect.gen(function* () {
-          // Load existing credentials or create new ones
-          const existingCreds = yield* repository.loadCredentials(sessionId)
+          // Baileys calls the key store with Promises, so run the repository
+          // effects on the runtime that holds the SQLite client
+          const runPromise = Runtime.runPromise(yield* Effect.runtime<SqliteClient.SqliteClient>())
 
-          let creds: AuthenticationCreds
-          if (existingCreds) {
-            creds = existingCreds
-          } else {
-            // If no existing creds, we'll need to create them during auth flow
-            // This will be handled by Baileys during the authentication process
-            creds = {} as AuthenticationCreds
-          }
+          // Load existing credentials or start a fresh registration
+          const existingCreds = yield* repository.loadCredentials(sessionId)
+          const creds: AuthenticationCreds = existingCreds ?? initAuthCreds()
 
           // Create the SignalKeyStore implementation
           const keys: SignalKeyStore = {
             get: <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => 
-              repository.loadKeys(sessionId, type, ids),
+              runPromise(
+                repository.loadKeys(sessionId, type, ids).pipe(
+                  // App state keys must be protobuf instances, like useMultiFileAuthState does
+                  Effect.map((data) => {
+                    if (type !== 'app-state-sync-key') return data
+                    const converted: { [id: string]: SignalDataTypeMap[T] } = {}
+                    for (const [id, value] of Object.entries(data)) {
+                      converted[id] = proto.Message.AppStateSyncKeyData.fromObject(value as object) as unknown as SignalDataTypeMap[T]
+                    }
+                    return converted
+                  })
+                )
+              ),
 
             set: (data: SignalDataSet) => 
-              repository.saveKeys(sessionId, data),
+              runPromise(repository.saveKeys(sessionId, data)),
 
             clear: () => 
-              repository.clearSession(sessionId)
+              runPromise(repository.clearSession(sessionId))
           }
 
           return {
@@ -288,18 +254,6 @@ export const WhatsAppAuthStateLive = Layer.effect(
 )
 
 // Combined layer for all auth state services
-export const AuthStateLive = Layer.merge(
-  AuthStateRepositoryLive,
-  WhatsAppAuthStateLive
+export const AuthStateLive = WhatsAppAuthStateLive.pipe(
+  Layer.provideMerge(AuthStateRepositoryLive)
 )
-
-// Helper to initialize auth state tables
-export const initializeAuthTables = (sql: SqliteClient.SqliteClient) =>
-  Effect.gen(function* () {
-    const repository = yield* AuthStateRepository
-    yield* repository.initializeTables()
-  }).pipe(
-    Effect.provide(AuthStateRepositoryLive.pipe(
-      Layer.provide(Layer.succeed(SqliteClient.SqliteClient, sql))
-    ))
-  )
\ No newline at end of file
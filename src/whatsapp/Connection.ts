@@ -1,103 +1,236 @@
-import { Effect, Context, Scope, Schedule, Layer } from "effect"
-import { makeWASocket, DisconnectReason, useMultiFileAuthState, type WASocket } from "@whiskeysockets/baileys"
+import { Effect, Context, Data, Deferred, Fiber, Option, Runtime, Scope, Schedule, Schema, Stream, SubscriptionRef, Layer } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { makeWASocket, DisconnectReason, type WASocket } from "@whiskeysockets/baileys"
 import qrcode from "qrcode-terminal"
+import { WhatsAppAuthState } from "./AuthState.js"
+
+export const ConnectionStatus = Schema.Literal("connecting", "open", "close", "reconnecting", "logged_out", "banned")
+
+export const ConnectionState = Schema.Struct({
+  status: ConnectionStatus,
+  qr: Schema.NullOr(Schema.String),
+  pairingCode: Schema.NullOr(Schema.String),
+  lastError: Schema.NullOr(Schema.String),
+  updatedAt: Schema.String
+})
+
+export type ConnectionState = Schema.Schema.Type<typeof ConnectionState>
+
+export const initialConnectionState = (): ConnectionState => ({
+  status: "connecting",
+  qr: null,
+  pairingCode: null,
+  lastError: null,
+  updatedAt: new Date().toISOString()
+})
+
+// The session was logged out from the phone, a new QR pairing is required
+export class LoggedOut extends Data.TaggedError("LoggedOut")<{
+  readonly sessionId: string
+}> {}
+
+// WhatsApp refused the number (403), reconnecting would not help
+export class Banned extends Data.TaggedError("Banned")<{
+  readonly sessionId: string
+}> {}
+
+export class ConnectionTimeout extends Data.TaggedError("ConnectionTimeout")<{
+  readonly sessionId: string
+}> {}
+
+// Any other close (network loss, restart required, replaced...), safe to reconnect
+export class ConnectionClosed extends Data.TaggedError("ConnectionClosed")<{
+  readonly sessionId: string
+  readonly statusCode: number | undefined
+  readonly message: string
+}> {}
+
+export class ConnectionFailed extends Data.TaggedError("ConnectionFailed")<{
+  readonly sessionId: string
+  readonly message: string
+}> {}
+
+export type DisconnectError = LoggedOut | Banned | ConnectionClosed
+
+export type ConnectError = DisconnectError | ConnectionTimeout | ConnectionFailed
+
+// What the owner of a session feeds into its connections
+export interface ConnectionControl {
+  readonly state: SubscriptionRef.SubscriptionRef<ConnectionState>
+  // Phone number (digits only) to log in with a pairing code instead of scanning the QR
+  readonly pairingPhone: SubscriptionRef.SubscriptionRef<Option.Option<string>>
+}
 
-export interface ConnectionState {
-  status: "connecting" | "open" | "close" | "reconnecting"
-  socket?: WASocket
+export interface Connection {
+  readonly socket: WASocket
+  // Completes with the reason once an open socket closes
+  readonly closed: Effect.Effect<DisconnectError>
 }
 
 export class WhatsAppConnection extends Context.Tag("WhatsAppConnection")<
   WhatsAppConnection,
   {
-    readonly connect: () => Effect.Effect<WASocket, Error, Scope.Scope>
-    readonly getConnectionState: () => Effect.Effect<ConnectionState>
+    readonly connect: (sessionId: string, control: ConnectionControl) => Effect.Effect<Connection, ConnectError, Scope.Scope | WhatsAppAuthState | SqliteClient.SqliteClient>
   }
 >() {}
 
+// Time allowed for a socket to reach 'open', covers a QR being scanned
+const OPEN_TIMEOUT = "2 minutes"
+
 const createReconnectionPolicy = Schedule.exponential("1 seconds").pipe(
   Schedule.intersect(Schedule.recurs(5)),
   Schedule.jittered
 )
 
-export const WhatsAppConnectionLive = Layer.succeed(
-  WhatsAppConnection,
-  {
-    connect: () => Effect.acquireRelease(
-      Effect.gen(function* () {
-        yield* Effect.log("🚀 Starting WhatsApp connection...")
-
-        const authResult = yield* Effect.tryPromise({
-          try: () => useMultiFileAuthState('./auth'),
-          catch: (error) => new Error(`Failed to load auth state: ${error}`)
-        })
+export const isRetryable = (error: ConnectError): boolean =>
+  error._tag !== "LoggedOut" && error._tag !== "Banned"
 
-        const { state, saveCreds } = authResult
+const toDisconnectError = (sessionId: string, error: Error | undefined): DisconnectError => {
+  const statusCode = (error as any)?.output?.statusCode as number | undefined
 
-        const socket = yield* Effect.try({
-          try: () => makeWASocket({
-            auth: state,
-            printQRInTerminal: false,
-            generateHighQualityLinkPreview: true,
-          }),
-          catch: (error) => new Error(`Failed to create socket: ${error}`)
-        })
-
-        // Setup connection event handler
-        socket.ev.on('connection.update', (update) => {
-          const { connection, lastDisconnect, qr } = update
-
-          if (qr) {
-            console.log('📱 Scan the QR Code below with your WhatsApp:')
-            console.log('')
-            qrcode.generate(qr, { small: true })
-            console.log('')
-          }
+  if (statusCode === DisconnectReason.loggedOut) {
+    return new LoggedOut({ sessionId })
+  }
+  if (statusCode === DisconnectReason.forbidden) {
+    return new Banned({ sessionId })
+  }
+  return new ConnectionClosed({ sessionId, statusCode, message: error?.message ?? "Connection closed" })
+}
 
-          if (connection === 'close') {
-            const shouldReconnect = (lastDisconnect?.error as any)?.output?.statusCode !== DisconnectReason.loggedOut
+const statusOf = (error: DisconnectError): ConnectionState["status"] => {
+  switch (error._tag) {
+    case "LoggedOut":
+      return "logged_out"
+    case "Banned":
+      return "banned"
+    case "ConnectionClosed":
+      return "close"
+  }
+}
 
-            console.log('🔌 Connection closed due to:', lastDisconnect?.error)
+export const WhatsAppConnectionLive = Layer.succeed(
+  WhatsAppConnection,
+  {
+    connect: (sessionId, { state, pairingPhone }) => Effect.gen(function* () {
+      const updateState = (update: Partial<ConnectionState>) =>
+        SubscriptionRef.update(state, (current) => ({
+          ...current,
+          ...update,
+          updatedAt: new Date().toISOString()
+        }))
+
+      const { socket, qrShown, opened, closed } = yield* Effect.acquireRelease(
+        Effect.gen(function* () {
+          yield* Effect.log(`🚀 [${sessionId}] Starting WhatsApp connection...`)
+
+          const authState = yield* WhatsAppAuthState
+          const authentication = yield* authState.createAuthState(sessionId).pipe(
+            Effect.mapError((error) => new ConnectionFailed({ sessionId, message: `Failed to load auth state: ${error.message}` }))
+          )
+          const runtime = yield* Effect.runtime<SqliteClient.SqliteClient>()
+
+          const qrShown = yield* Deferred.make<void>()
+          const opened = yield* Deferred.make<void, DisconnectError>()
+          const closed = yield* Deferred.make<DisconnectError>()
+
+          yield* updateState({ status: "connecting", qr: null, pairingCode: null })
+
+          const socket = yield* Effect.try({
+            try: () => makeWASocket({
+              auth: authentication,
+              printQRInTerminal: false,
+              generateHighQualityLinkPreview: true,
+            }),
+            catch: (error) => new ConnectionFailed({ sessionId, message: `Failed to create socket: ${error}` })
+          })
+
+          // Setup connection event handler, the state follows every Baileys update
+          socket.ev.on('connection.update', (update) => {
+            const { connection, lastDisconnect, qr } = update
+
+            if (qr) {
+              console.log(`📱 [${sessionId}] Scan the QR Code below with your WhatsApp, or fetch it from the admin API:`)
+              console.log('')
+              qrcode.generate(qr, { small: true })
+              console.log('')
+              Effect.runSync(updateState({ qr }))
+              Effect.runSync(Deferred.succeed(qrShown, undefined))
+            }
 
-            if (shouldReconnect) {
-              console.log('🔄 Attempting to reconnect...')
-            } else {
-              console.log('❌ Disconnected. Please login again.')
+            if (connection === 'connecting') {
+              Effect.runSync(updateState({ status: "connecting" }))
+            } else if (connection === 'close') {
+              const error = toDisconnectError(sessionId, lastDisconnect?.error)
+
+              console.log(`🔌 [${sessionId}] Connection closed due to:`, lastDisconnect?.error)
+
+              if (isRetryable(error)) {
+                console.log(`🔄 [${sessionId}] Connection will be re-established...`)
+              } else {
+                console.log(`❌ [${sessionId}] Disconnected (${error._tag}). Please login again.`)
+              }
+
+              Effect.runSync(updateState({ status: statusOf(error), qr: null, pairingCode: null, lastError: error._tag }))
+              Effect.runSync(Deferred.fail(opened, error))
+              Effect.runSync(Deferred.succeed(closed, error))
+            } else if (connection === 'open') {
+              console.log(`✅ [${sessionId}] Connected to WhatsApp successfully!`)
+              Effect.runSync(updateState({ status: "open", qr: null, pairingCode: null, lastError: null }))
+              Effect.runSync(Deferred.succeed(opened, undefined))
             }
-          } else if (connection === 'open') {
-            console.log('✅ Connected to WhatsApp successfully!')
-          }
+          })
+
+          // Setup credentials save handler, Baileys has already merged the update into state.creds
+          socket.ev.on('creds.update', () => {
+            Runtime.runFork(runtime)(
+              authState.saveAuthState(sessionId, authentication).pipe(
+                Effect.catchAll(error => Effect.log(`Credential save error: ${error.message}`))
+              )
+            )
+          })
+
+          return { socket, qrShown, opened, closed }
+        }),
+        ({ socket }) => Effect.sync(() => {
+          console.log(`🛑 [${sessionId}] Cleaning up WhatsApp connection...`)
+          socket.ev.removeAllListeners('connection.update')
+          socket.ev.removeAllListeners('creds.update')
+          socket.end(undefined)
         })
-
-        // Setup credentials save handler
-        socket.ev.on('creds.update', () => {
-          Effect.runFork(
-            Effect.tryPromise({
-              try: () => saveCreds(),
-              catch: (error) => new Error(`Failed to save credentials: ${error}`)
-            }).pipe(
-              Effect.catchAll(error => Effect.log(`Credential save error: ${error.message}`))
+      )
+
+      // Baileys only accepts a pairing code request once the socket is waiting for a login,
+      // which is signalled by the first QR. Every phone number set from then on gets a code.
+      const pairing = yield* Deferred.await(qrShown).pipe(
+        Effect.zipRight(
+          pairingPhone.changes.pipe(
+            Stream.filterMap((phoneNumber) => phoneNumber),
+            Stream.runForEach((phoneNumber) =>
+              Effect.tryPromise(() => socket.requestPairingCode(phoneNumber)).pipe(
+                Effect.flatMap((pairingCode) => updateState({ pairingCode })),
+                Effect.tap(() => Effect.log(`🔑 [${sessionId}] Pairing code issued for ${phoneNumber}`)),
+                Effect.catchAll((error) => Effect.log(`❌ [${sessionId}] Pairing code request failed: ${error.message}`))
+              )
             )
           )
-        })
-
-        // Wait for connection to be established
-        yield* Effect.sleep("3 seconds")
-
-        return socket
-      }),
-      (socket) => Effect.sync(() => {
-        console.log('🛑 Cleaning up WhatsApp connection...')
-        socket.ev.removeAllListeners('connection.update')
-        socket.ev.removeAllListeners('creds.update')
-        socket.ev.removeAllListeners('messages.upsert')
-        socket.end(undefined)
-      })
-    ).pipe(
-      Effect.retry(createReconnectionPolicy),
-      Effect.tapError((error) => Effect.log(`Connection failed: ${error.message}`))
-    ),
-
-    getConnectionState: () => Effect.succeed({ status: "open" as const })
+        ),
+        Effect.forkScoped
+      )
+
+      // Wait for the socket to actually open, or for the reason it did not
+      yield* Deferred.await(opened).pipe(
+        Effect.timeoutFail({
+          duration: OPEN_TIMEOUT,
+          onTimeout: () => new ConnectionTimeout({ sessionId })
+        }),
+        Effect.onError(() => Effect.sync(() => socket.end(undefined))),
+        Effect.ensuring(Fiber.interrupt(pairing))
+      )
+
+      return { socket, closed: Deferred.await(closed) }
+    }).pipe(
+      Effect.retry({ schedule: createReconnectionPolicy, while: isRetryable }),
+      Effect.tapError((error) => Effect.log(`[${sessionId}] Connection failed: ${error._tag}`))
+    )
   }
-)
\ No newline at end of file
+)
@@ -0,0 +1,19 @@
+import { isJidUser, isLidUser, jidDecode, jidNormalizedUser } from "@whiskeysockets/baileys"
+import type { ContactUpdate } from "../database/ContactRepository.js"
+
+// Digits of a phone number JID. A LID hides the number, so it has none.
+export const phoneOf = (jid: string | null | undefined): string | null =>
+  jid && isJidUser(jid) ? jidDecode(jid)?.user ?? null : null
+
+// The user a JID addresses, without the device suffix ("5511...:12@s.whatsapp.net")
+export const userJid = (jid: string): string => jidNormalizedUser(jid) || jid
+
+// Contact key of a JID, with the LID of a phone number JID when Baileys reports it
+export const contactKey = (jid: string, lid?: string | null): ContactUpdate => {
+  const user = userJid(jid)
+  const knownLid = lid ? userJid(lid) : null
+
+  return isLidUser(user)
+    ? { phoneJid: null, lid: user }
+    : { phoneJid: user, lid: knownLid && isLidUser(knownLid) ? knownLid : null }
+}
@@ -0,0 +1,49 @@
+import { Effect, Context, Config, Data, Layer } from "effect"
+import { createHash } from "node:crypto"
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+export class MediaStoreError extends Data.TaggedError("MediaStoreError")<{
+  readonly message: string
+}> {}
+
+export interface StoredMedia {
+  readonly path: string
+  readonly sha256: string
+  readonly size: number
+}
+
+export class MediaStore extends Context.Tag("MediaStore")<
+  MediaStore,
+  {
+    readonly store: (data: Uint8Array) => Effect.Effect<StoredMedia, MediaStoreError>
+  }
+>() {}
+
+// Files are named after the SHA-256 of their bytes, so the same sticker or
+// forwarded document sent a hundred times is stored once
+export const MediaStoreLive = Layer.effect(
+  MediaStore,
+  Effect.gen(function* () {
+    const directory = yield* Config.string("MEDIA_DIR").pipe(Config.withDefault("./media"))
+
+    return {
+      store: (data) =>
+        Effect.tryPromise({
+          try: async () => {
+            const sha256 = createHash('sha256').update(data).digest('hex')
+            const folder = join(directory, sha256.slice(0, 2))
+            const path = join(folder, sha256)
+
+            await mkdir(folder, { recursive: true })
+            await writeFile(path, data, { flag: 'wx' }).catch((error: NodeJS.ErrnoException) => {
+              if (error.code !== 'EEXIST') throw error
+            })
+
+            return { path, sha256, size: data.byteLength }
+          },
+          catch: (error) => new MediaStoreError({ message: `Failed to store media: ${error}` })
+        })
+    }
+  })
+)
@@ -0,0 +1,209 @@
+import { getContentType, normalizeMessageContent, proto } from "@whiskeysockets/baileys"
+import type { MessageContact, MessageDetails } from "../database/Schema.js"
+import type { Schema } from "effect"
+
+// Payloads we keep a local copy of, the rest stays on WhatsApp's servers
+export interface MediaPayload {
+  readonly kind: "image" | "audio" | "document"
+  readonly mimetype: string
+}
+
+export interface ExtractedContent {
+  // Human readable summary, what the admin API and logs show
+  readonly content: string
+  readonly messageType: string
+  readonly quotedMessageId: string | null
+  readonly targetMessageId: string | null
+  readonly selectedOptionId: string | null
+  readonly details: MessageDetails
+  readonly media: MediaPayload | null
+}
+
+const contextInfoOf = (content: proto.IMessage): proto.IContextInfo | null => {
+  const type = getContentType(content)
+  const inner = type ? content[type] : undefined
+
+  if (inner && typeof inner === 'object' && 'contextInfo' in inner) {
+    return inner.contextInfo ?? null
+  }
+  return null
+}
+
+export const textOf = (content: proto.IMessage | null | undefined): string | null => {
+  const normalized = normalizeMessageContent(content)
+
+  return normalized?.conversation
+    ?? normalized?.extendedTextMessage?.text
+    ?? normalized?.imageMessage?.caption
+    ?? normalized?.videoMessage?.caption
+    ?? normalized?.documentMessage?.caption
+    ?? null
+}
+
+const toContact = (contact: proto.Message.IContactMessage): Schema.Schema.Type<typeof MessageContact> => ({
+  displayName: contact.displayName ?? null,
+  vcard: contact.vcard ?? ''
+})
+
+// Reduces a Baileys message to its summary plus the structured parts worth storing
+export const extractContent = (message: proto.IMessage | null | undefined): ExtractedContent => {
+  // Unwraps ephemeral, view once and document-with-caption envelopes
+  const content = normalizeMessageContent(message)
+
+  const base = {
+    quotedMessageId: content ? contextInfoOf(content)?.stanzaId ?? null : null,
+    targetMessageId: null,
+    selectedOptionId: null,
+    details: {},
+    media: null
+  }
+
+  if (!content) {
+    return { ...base, content: '[Special message]', messageType: 'other' }
+  }
+
+  if (content.conversation) {
+    return { ...base, content: content.conversation, messageType: 'text' }
+  }
+  if (content.extendedTextMessage?.text) {
+    return { ...base, content: content.extendedTextMessage.text, messageType: 'text' }
+  }
+  if (content.imageMessage) {
+    return {
+      ...base,
+      content: content.imageMessage.caption || '[Image]',
+      messageType: 'image',
+      media: { kind: 'image', mimetype: content.imageMessage.mimetype ?? 'image/jpeg' }
+    }
+  }
+  if (content.videoMessage) {
+    return { ...base, content: content.videoMessage.caption || '[Video]', messageType: 'video' }
+  }
+  if (content.audioMessage) {
+    return {
+      ...base,
+      content: '[Audio]',
+      messageType: 'audio',
+      media: { kind: 'audio', mimetype: content.audioMessage.mimetype ?? 'audio/ogg' }
+    }
+  }
+  if (content.stickerMessage) {
+    return { ...base, content: '[Sticker]', messageType: 'sticker' }
+  }
+  if (content.documentMessage) {
+    return {
+      ...base,
+      content: `[Document: ${content.documentMessage.fileName || 'No name'}]`,
+      messageType: 'document',
+      media: { kind: 'document', mimetype: content.documentMessage.mimetype ?? 'application/octet-stream' }
+    }
+  }
+
+  if (content.reactionMessage) {
+    return {
+      ...base,
+      content: content.reactionMessage.text ?? '',
+      messageType: 'reaction',
+      targetMessageId: content.reactionMessage.key?.id ?? null
+    }
+  }
+
+  if (content.protocolMessage) {
+    const { type, key, editedMessage } = content.protocolMessage
+
+    if (type === proto.Message.ProtocolMessage.Type.REVOKE) {
+      return { ...base, content: '[Deleted message]', messageType: 'revoke', targetMessageId: key?.id ?? null }
+    }
+    if (type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT) {
+      return { ...base, content: textOf(editedMessage) ?? '', messageType: 'edit', targetMessageId: key?.id ?? null }
+    }
+    // History sync notices, ephemeral settings, app state keys...
+    return { ...base, content: '[Protocol message]', messageType: 'protocol' }
+  }
+
+  const location = content.locationMessage ?? content.liveLocationMessage
+  if (location) {
+    const name = content.locationMessage?.name ?? null
+    const address = content.locationMessage?.address ?? null
+
+    return {
+      ...base,
+      content: `[Location${name ? `: ${name}` : ''}]`,
+      messageType: 'location',
+      details: {
+        location: {
+          latitude: location.degreesLatitude ?? 0,
+          longitude: location.degreesLongitude ?? 0,
+          name,
+          address,
+          isLive: content.liveLocationMessage !== undefined && content.liveLocationMessage !== null
+        }
+      }
+    }
+  }
+
+  if (content.contactMessage || content.contactsArrayMessage) {
+    const contacts = content.contactMessage
+      ? [toContact(content.contactMessage)]
+      : (content.contactsArrayMessage?.contacts ?? []).map(toContact)
+
+    return {
+      ...base,
+      content: `[Contacts: ${contacts.map((contact) => contact.displayName ?? 'No name').join(', ')}]`,
+      messageType: 'contacts',
+      details: { contacts }
+    }
+  }
+
+  if (content.buttonsResponseMessage) {
+    return {
+      ...base,
+      content: content.buttonsResponseMessage.selectedDisplayText ?? '',
+      messageType: 'button_reply',
+      selectedOptionId: content.buttonsResponseMessage.selectedButtonId ?? null
+    }
+  }
+  if (content.templateButtonReplyMessage) {
+    return {
+      ...base,
+      content: content.templateButtonReplyMessage.selectedDisplayText ?? '',
+      messageType: 'button_reply',
+      selectedOptionId: content.templateButtonReplyMessage.selectedId ?? null
+    }
+  }
+  if (content.listResponseMessage) {
+    return {
+      ...base,
+      content: content.listResponseMessage.title ?? '',
+      messageType: 'list_reply',
+      selectedOptionId: content.listResponseMessage.singleSelectReply?.selectedRowId ?? null
+    }
+  }
+
+  const poll = content.pollCreationMessage ?? content.pollCreationMessageV2 ?? content.pollCreationMessageV3
+  if (poll) {
+    return {
+      ...base,
+      content: `[Poll: ${poll.name ?? ''}]`,
+      messageType: 'poll',
+      details: {
+        poll: {
+          name: poll.name ?? '',
+          options: (poll.options ?? []).map((option) => option.optionName ?? ''),
+          selectableCount: poll.selectableOptionsCount ?? 1
+        }
+      }
+    }
+  }
+  if (content.pollUpdateMessage) {
+    // Votes are encrypted with the poll's secret, only the link to the poll is kept
+    return {
+      ...base,
+      content: '[Poll vote]',
+      messageType: 'poll_vote',
+      targetMessageId: content.pollUpdateMessage.pollCreationMessageKey?.id ?? null
+    }
+  }
+
+  return { ...base, content: '[Special message]', messageType: 'other' }
+}
@@ -0,0 +1,200 @@
+import { Effect, Context, Layer, Option, Schedule, Schema } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { generateMessageIDV2, type AnyMessageContent, type WASocket } from "@whiskeysockets/baileys"
+import { MessageRepository } from "../database/Repository.js"
+import { OutboxMessage, type MessageKey, type OutgoingContent } from "../database/Schema.js"
+import { DecodeError, findOne, single } from "../database/Rows.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { phoneOf } from "./Jid.js"
+
+export class MessageSender extends Context.Tag("MessageSender")<
+  MessageSender,
+  {
+    readonly enqueue: (sessionId: string, chatId: string, content: Schema.Schema.Type<typeof OutgoingContent>) => Effect.Effect<OutboxMessage, SqlError.SqlError | DecodeError, SqliteClient.SqliteClient>
+    // Whether a message was sent by the bot, as opposed to typed on the phone
+    readonly isOutboxMessage: (key: MessageKey) => Effect.Effect<boolean, SqlError.SqlError, SqliteClient.SqliteClient>
+    readonly start: (sessionId: string, socket: WASocket) => Effect.Effect<void, SqlError.SqlError, MessageRepository | WebhookDispatcher | SqliteClient.SqliteClient>
+  }
+>() {}
+
+// At most one message per interval, keeps us below WhatsApp's spam heuristics
+const SEND_INTERVAL = "1 second"
+
+// Durable attempts before a message is parked as failed
+const MAX_ATTEMPTS = 8
+
+// Quick in-process retries of a single attempt, mirrors createReconnectionPolicy
+const createSendRetryPolicy = Schedule.exponential("500 millis").pipe(
+  Schedule.intersect(Schedule.recurs(3)),
+  Schedule.jittered
+)
+
+// Baileys uploads documents from bytes
+const toMessageContent = (content: Schema.Schema.Type<typeof OutgoingContent>): AnyMessageContent =>
+  "document" in content
+    ? { ...content, document: Buffer.from(content.document) }
+    : content
+
+// Delay before the next durable attempt: 30s, 1m, 2m, ... capped at 1h
+const nextAttemptDelay = (attempts: number): number =>
+  Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), 60 * 60 * 1000)
+
+export const MessageSenderLive = Layer.succeed(MessageSender, {
+  enqueue: (sessionId, chatId, content) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+
+      return yield* sql`
+        INSERT INTO outbox (message_id, session_id, chat_id, content)
+        VALUES (${generateMessageIDV2()}, ${sessionId}, ${chatId}, ${JSON.stringify(content)})
+        RETURNING
+          id,
+          message_id as "messageId",
+          session_id as "sessionId",
+          chat_id,
+          content,
+          status,
+          attempts,
+          last_error as "lastError",
+          next_attempt_at as "nextAttemptAt",
+          created_at as "createdAt",
+          sent_at as "sentAt"
+      `.pipe(single(OutboxMessage, () => new DecodeError({ message: "Outbox insert returned no row" })))
+    }),
+
+  isOutboxMessage: ({ chatId, messageId, fromMe }) =>
+    Effect.gen(function* () {
+      if (!fromMe) return false
+
+      const sql = yield* SqliteClient.SqliteClient
+      const rows = yield* sql`SELECT 1 FROM outbox WHERE chat_id = ${chatId} AND message_id = ${messageId}`
+      return rows.length > 0
+    }),
+
+  start: (sessionId, socket) =>
+    Effect.gen(function* () {
+      const sql = yield* SqliteClient.SqliteClient
+      const repository = yield* MessageRepository
+      const webhooks = yield* WebhookDispatcher
+
+      // A crash between sendMessage and the status update leaves rows in 'sending'.
+      // If WhatsApp echoed the message back it was delivered, otherwise send it again
+      // with the same message id.
+      const recovered = yield* sql`
+        UPDATE outbox
+        SET status = CASE
+            WHEN EXISTS (
+              SELECT 1 FROM messages m
+              WHERE m.chat_id = outbox.chat_id AND m.id = outbox.message_id AND m.is_from_me = true
+            ) THEN 'sent'
+            ELSE 'pending'
+          END
+        WHERE session_id = ${sessionId} AND status = 'sending'
+        RETURNING id
+      `
+      if (recovered.length > 0) {
+        yield* Effect.log(`♻️ [${sessionId}] Recovered ${recovered.length} outbox messages interrupted mid-send`)
+      }
+
+      yield* Effect.log(`📤 [${sessionId}] Starting outbox delivery routine...`)
+
+      const deliverNext = Effect.gen(function* () {
+        const claimed = yield* sql`
+          UPDATE outbox
+          SET status = 'sending', attempts = attempts + 1
+          WHERE id = (
+            SELECT id FROM outbox
+            WHERE session_id = ${sessionId}
+              AND status = 'pending'
+              AND next_attempt_at <= ${new Date().toISOString()}
+            ORDER BY id ASC
+            LIMIT 1
+          )
+          RETURNING
+            id,
+            message_id as "messageId",
+            session_id as "sessionId",
+            chat_id,
+            content,
+            status,
+            attempts,
+            last_error as "lastError",
+            next_attempt_at as "nextAttemptAt",
+            created_at as "createdAt",
+            sent_at as "sentAt"
+        `.pipe(findOne(OutboxMessage))
+
+        if (Option.isNone(claimed)) return
+        const entry = claimed.value
+
+        const content = JSON.parse(entry.content) as Schema.Schema.Type<typeof OutgoingContent>
+
+        const sent = yield* Effect.tryPromise({
+          try: () => socket.sendMessage(entry.chat_id, toMessageContent(content), { messageId: entry.messageId }),
+          catch: (error) => new Error(`${error}`)
+        }).pipe(
+          Effect.retry(createSendRetryPolicy),
+          Effect.either
+        )
+
+        if (sent._tag === "Left") {
+          const failed = entry.attempts >= MAX_ATTEMPTS
+          const nextAttemptAt = new Date(Date.now() + nextAttemptDelay(entry.attempts)).toISOString()
+
+          yield* sql`
+            UPDATE outbox
+            SET status = ${failed ? 'failed' : 'pending'},
+                last_error = ${sent.left.message},
+                next_attempt_at = ${nextAttemptAt}
+            WHERE id = ${entry.id}
+          `
+
+          yield* Effect.log(
+            failed
+              ? `❌ Giving up on outbox message ${entry.messageId} after ${entry.attempts} attempts: ${sent.left.message}`
+              : `⏳ Send of ${entry.messageId} failed (attempt ${entry.attempts}), retrying at ${nextAttemptAt}`
+          )
+          return
+        }
+
+        yield* sql`
+          UPDATE outbox
+          SET status = 'sent', sent_at = datetime('now'), last_error = NULL
+          WHERE id = ${entry.id}
+        `
+
+        // The echo from messages.upsert may already have stored it, and reported it
+        yield* sql.withTransaction(repository.upsertMessage({
+          id: entry.messageId,
+          sessionId,
+          from: phoneOf(socket.user?.id),
+          to: phoneOf(entry.chat_id),
+          chat_id: entry.chat_id,
+          timestamp: new Date().toISOString(),
+          content: "document" in content ? `[Document: ${content.fileName}]` : content.text,
+          messageType: "document" in content ? 'document' : 'text',
+          isFromMe: true,
+          isGroup: entry.chat_id.includes('@g.us'),
+          processed: false,
+          // sendMessage resolved, so WhatsApp's server has it; receipts take it from here
+          deliveryStatus: 'server_ack'
+        }).pipe(
+          Effect.tap((stored) =>
+            stored.inserted ? webhooks.emit({ type: "message.sent", sessionId, data: stored.message }) : Effect.void
+          )
+        ))
+
+        yield* Effect.log(`📤 Sent ${entry.messageId} to ${entry.chat_id}`)
+      })
+
+      yield* Effect.schedule(
+        deliverNext.pipe(
+          Effect.catchAll((error) =>
+            Effect.log(`❌ Outbox delivery error: ${error.message}`)
+          )
+        ),
+        Schedule.spaced(SEND_INTERVAL)
+      )
+    })
+})
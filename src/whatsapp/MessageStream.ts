@@ -1,14 +1,151 @@
-import { Effect, Stream, Queue, Chunk, Context, Layer, Schema } from "effect"
-import type { WASocket, proto } from "@whiskeysockets/baileys"
+import { Effect, Stream, Queue, Chunk, Context, Data, Layer, Ref, Schema, Scope } from "effect"
+import {
+  WAMessageStubType,
+  downloadMediaMessage,
+  proto,
+  isJidGroup,
+  type BaileysEventMap,
+  type Chat,
+  type Contact,
+  type GroupMetadata,
+  type MessageUserReceiptUpdate,
+  type WAMessageUpdate,
+  type WASocket
+} from "@whiskeysockets/baileys"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
 import { MessageRepository } from "../database/Repository.js"
-import { WhatsAppMessage, InsertMessageSchema } from "../database/Schema.js"
+import {
+  ContactRepository,
+  type ChatUpdate,
+  type ContactUpdate,
+  type ParticipantAction,
+  type ParticipantUpdate
+} from "../database/ContactRepository.js"
+import { WhatsAppMessage, InsertMessageSchema, MessageReaction, keyOf, type DeliveryStatus, type MessageDetails, type MessageKey } from "../database/Schema.js"
+import { runMessageHandlers } from "../handlers/MessageHandler.js"
+import { messageHandlers } from "../handlers/Registry.js"
+import { MessageWorkQueue } from "../effects/MessageWorkQueue.js"
+import { noteAgentActivity } from "../inbox/Handoff.js"
+import { AgentInbox } from "../inbox/AgentInbox.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { MessageSender } from "./MessageSender.js"
+import { extractContent, textOf, type MediaPayload } from "./MessageContent.js"
+import { MediaStore, MediaStoreError } from "./MediaStore.js"
+import { contactKey, phoneOf } from "./Jid.js"
 
 export interface BaileysMessage {
   type: "notify" | "append"
   messages: proto.IWebMessageInfo[]
+  // Own JID of the socket that received the batch
+  myJid?: string
 }
 
-const extractMessageDataEffect = (message: proto.IWebMessageInfo, myNumber?: string): Effect.Effect<Schema.Schema.Type<typeof InsertMessageSchema> | null> =>
+// Contacts, chats and groups as reported by contacts.*, chats.* and groups.* events
+export type DirectoryUpdate = Data.TaggedEnum<{
+  Contacts: { readonly contacts: ReadonlyArray<ContactUpdate> }
+  Chats: { readonly chats: ReadonlyArray<ChatUpdate> }
+  // Participants are null when only the subject changed
+  Group: { readonly chatId: string; readonly subject: string | null; readonly participants: ReadonlyArray<ParticipantUpdate> | null }
+  Participants: { readonly chatId: string; readonly contacts: ReadonlyArray<ContactUpdate>; readonly action: ParticipantAction }
+}>
+
+export const DirectoryUpdate = Data.taggedEnum<DirectoryUpdate>()
+
+// A batch of messaging-history.set, past messages WhatsApp sends after linking
+// and in answer to fetchMessageHistory
+export interface HistoryBatch {
+  readonly messages: ReadonlyArray<proto.IWebMessageInfo>
+  readonly contacts: ReadonlyArray<ContactUpdate>
+  readonly chats: ReadonlyArray<ChatUpdate>
+  readonly syncType: string
+  // Percentage of the initial sync, null for on-demand batches
+  readonly progress: number | null
+  readonly myJid?: string
+}
+
+// Everything a socket reports about messages, queued in arrival order so an
+// update is never applied before the message it refers to is stored
+export type SocketEvent = Data.TaggedEnum<{
+  Upsert: BaileysMessage
+  History: HistoryBatch
+  Directory: { readonly update: DirectoryUpdate }
+  Update: { readonly updates: ReadonlyArray<WAMessageUpdate> }
+  Receipt: { readonly receipts: ReadonlyArray<MessageUserReceiptUpdate> }
+  Delete: { readonly keys: ReadonlyArray<proto.IMessageKey>; readonly clearedChatId: string | null }
+}>
+
+export const SocketEvent = Data.taggedEnum<SocketEvent>()
+
+export interface ExtractedMessage {
+  readonly message: Schema.Schema.Type<typeof InsertMessageSchema>
+  readonly details: MessageDetails
+  readonly media: MediaPayload | null
+  // Null for our own messages
+  readonly sender: ContactUpdate | null
+}
+
+// notify is a message arriving now, append one sent from another device or
+// restored by WhatsApp, history one of a history sync batch
+export type MessageOrigin = "notify" | "append" | "history"
+
+export type MessageEvent = Data.TaggedEnum<{
+  // A message together with the structured parts kept in child tables
+  Received: {
+    readonly message: WhatsAppMessage
+    readonly details: MessageDetails
+    readonly sender: ContactUpdate | null
+    readonly origin: MessageOrigin
+  }
+  DirectoryChanged: { readonly update: DirectoryUpdate }
+  // Follows the Received events of the batch it describes
+  HistorySynced: { readonly syncType: string; readonly count: number; readonly progress: number | null }
+  Edited: { readonly key: MessageKey; readonly content: string; readonly editedAt: string }
+  Revoked: { readonly key: MessageKey; readonly deletedAt: string }
+  ChatCleared: { readonly chatId: string; readonly deletedAt: string }
+  StatusChanged: {
+    readonly key: MessageKey
+    readonly status: Schema.Schema.Type<typeof DeliveryStatus>
+    readonly at: string
+  }
+}>
+
+export const MessageEvent = Data.taggedEnum<MessageEvent>()
+
+export const HistorySyncProgress = Schema.Struct({
+  batches: Schema.Int,
+  received: Schema.Int,
+  // Messages that were not stored yet
+  stored: Schema.Int,
+  progress: Schema.NullOr(Schema.Number),
+  // The initial sync reached 100%
+  complete: Schema.Boolean,
+  updatedAt: Schema.NullOr(Schema.String)
+})
+
+export type HistorySyncProgress = Schema.Schema.Type<typeof HistorySyncProgress>
+
+export const initialHistorySyncProgress = (): HistorySyncProgress => ({
+  batches: 0,
+  received: 0,
+  stored: 0,
+  progress: null,
+  complete: false,
+  updatedAt: null
+})
+
+// Indexed by Baileys' WAMessageStatus (ERROR = 0 ... PLAYED = 5)
+const DELIVERY_STATUSES = ["error", "pending", "server_ack", "delivered", "read", "played"] as const
+
+const deliveryStatusOf = (status: number | null | undefined) =>
+  status !== null && status !== undefined ? DELIVERY_STATUSES[status] : undefined
+
+const toIsoTimestamp = (seconds: proto.IWebMessageInfo["messageTimestamp"]): string =>
+  seconds ? new Date(Number(seconds) * 1000).toISOString() : new Date().toISOString()
+
+// Time allowed to fetch one media payload from WhatsApp's CDN
+const MEDIA_DOWNLOAD_TIMEOUT = "1 minute"
+
+const extractMessageDataEffect = (message: proto.IWebMessageInfo, sessionId: string, myNumber?: string): Effect.Effect<ExtractedMessage | null> =>
   Effect.gen(function* () {
     try {
       const key = message.key
@@ -25,59 +162,21 @@ const extractMessageDataEffect = (message: proto.IWebMessageInfo, myNumber?: str
       const isFromMe = key.fromMe || false
       const isGroup = chatId.includes('@g.us')
 
-      // Extract phone numbers
-      const extractNumber = (fullId: string | null): string | null => {
-        if (!fullId) return null
-        return fullId.split('@')[0]?.split(':')[0] || null
-      }
-
-      let from: string | null, to: string | null
-
-      if (isFromMe) {
-        from = myNumber ? extractNumber(myNumber) : null
-        to = extractNumber(chatId)
-      } else {
-        if (isGroup) {
-          from = extractNumber(key.participant || chatId)
-          to = myNumber ? extractNumber(myNumber) : null
-        } else {
-          from = extractNumber(chatId)
-          to = myNumber ? extractNumber(myNumber) : null
-        }
+      // Phone numbers are only known for phone number JIDs, a LID sender gets
+      // the number of its contact once WhatsApp maps the two
+      const sender = isFromMe ? null : {
+        ...contactKey(isGroup ? key.participant || chatId : chatId),
+        pushName: message.pushName ?? null
       }
+      const from = isFromMe ? phoneOf(myNumber) : phoneOf(sender?.phoneJid)
+      const to = isFromMe ? phoneOf(chatId) : phoneOf(myNumber)
 
       // Extract message content
-      let content = ''
-      let messageType = 'unknown'
-
-      if (messageInfo?.conversation) {
-        content = messageInfo.conversation
-        messageType = 'text'
-      } else if (messageInfo?.extendedTextMessage?.text) {
-        content = messageInfo.extendedTextMessage.text
-        messageType = 'text'
-      } else if (messageInfo?.imageMessage) {
-        content = messageInfo.imageMessage.caption || '[Image]'
-        messageType = 'image'
-      } else if (messageInfo?.videoMessage) {
-        content = messageInfo.videoMessage.caption || '[Video]'
-        messageType = 'video'
-      } else if (messageInfo?.audioMessage) {
-        content = '[Audio]'
-        messageType = 'audio'
-      } else if (messageInfo?.stickerMessage) {
-        content = '[Sticker]'
-        messageType = 'sticker'
-      } else if (messageInfo?.documentMessage) {
-        content = `[Document: ${messageInfo.documentMessage.fileName || 'No name'}]`
-        messageType = 'document'
-      } else {
-        content = '[Special message]'
-        messageType = 'other'
-      }
+      const { content, messageType, quotedMessageId, targetMessageId, selectedOptionId, details, media } = extractContent(messageInfo)
 
       const messageData: Schema.Schema.Type<typeof InsertMessageSchema> = {
         id,
+        sessionId,
         from,
         to,
         chat_id: chatId,
@@ -86,89 +185,458 @@ const extractMessageDataEffect = (message: proto.IWebMessageInfo, myNumber?: str
         messageType,
         isFromMe,
         isGroup,
-        processed: false
+        processed: false,
+        quotedMessageId,
+        targetMessageId,
+        selectedOptionId,
+        mediaPath: null,
+        mediaMimetype: null,
+        deliveryStatus: isFromMe ? deliveryStatusOf(message.status) ?? 'pending' : null
       }
 
-      return messageData
+      return { message: messageData, details, media, sender }
     } catch (error) {
       yield* Effect.log(`Error extracting message data: ${error instanceof Error ? error.message : String(error)}`)
       return null
     }
   })
 
+// Downloads an image, audio or document into the media store. A failed download
+// is logged and the message is stored without its file rather than dropped.
+const storeMedia = (message: proto.IWebMessageInfo, media: MediaPayload) =>
+  Effect.gen(function* () {
+    const mediaStore = yield* MediaStore
+
+    const data = yield* Effect.tryPromise({
+      try: () => downloadMediaMessage(message, 'buffer', {}),
+      catch: (error) => new MediaStoreError({ message: `Failed to download ${media.kind}: ${error}` })
+    }).pipe(
+      Effect.timeoutFail({
+        duration: MEDIA_DOWNLOAD_TIMEOUT,
+        onTimeout: () => new MediaStoreError({ message: `Timed out downloading ${media.kind}` })
+      })
+    )
+
+    const stored = yield* mediaStore.store(data)
+    yield* Effect.log(`🗂️ Stored ${media.kind} of message ${message.key?.id} at ${stored.path}`)
+
+    return { mediaPath: stored.path, mediaMimetype: media.mimetype }
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.log(`❌ ${error.message}`).pipe(Effect.as(null))
+    )
+  )
+
+// The stored message a Baileys key points at. Keys of edits and revokes are those of
+// the protocol message with the id of the original, whose author is the same.
+const storedKeyOf = (key: proto.IMessageKey): MessageKey | null =>
+  key.remoteJid && key.id
+    ? { chatId: key.remoteJid, messageId: key.id, fromMe: key.fromMe ?? false }
+    : null
+
+// Edits and revokes reach us as updates: Baileys turns the protocol messages into
+// messages.update events keyed by the id of the message they change
+const eventsFromUpdate = ({ key, update }: WAMessageUpdate): MessageEvent[] => {
+  const target = storedKeyOf(key)
+  if (!target) return []
+
+  const events: MessageEvent[] = []
+
+  const edited = update.message?.editedMessage?.message
+  if (edited) {
+    events.push(MessageEvent.Edited({
+      key: target,
+      content: textOf(edited) ?? '',
+      editedAt: toIsoTimestamp(update.messageTimestamp)
+    }))
+  }
+
+  if (update.messageStubType === WAMessageStubType.REVOKE) {
+    events.push(MessageEvent.Revoked({ key: target, deletedAt: new Date().toISOString() }))
+  }
+
+  const status = deliveryStatusOf(update.status)
+  if (key.fromMe && status) {
+    events.push(MessageEvent.StatusChanged({ key: target, status, at: new Date().toISOString() }))
+  }
+
+  return events
+}
+
+// Group receipts come per participant, the message takes the furthest one
+const eventsFromReceipt = ({ key, receipt }: MessageUserReceiptUpdate): MessageEvent[] => {
+  const target = storedKeyOf(key)
+  if (!target) return []
+
+  const [status, seconds] = receipt.playedTimestamp
+    ? ["played" as const, receipt.playedTimestamp]
+    : receipt.readTimestamp
+      ? ["read" as const, receipt.readTimestamp]
+      : ["delivered" as const, receipt.receiptTimestamp]
+
+  return [MessageEvent.StatusChanged({ key: target, status, at: toIsoTimestamp(seconds) })]
+}
+
+const eventsFromDelete = (keys: ReadonlyArray<proto.IMessageKey>, clearedChatId: string | null): MessageEvent[] => {
+  const deletedAt = new Date().toISOString()
+
+  if (clearedChatId) {
+    return [MessageEvent.ChatCleared({ chatId: clearedChatId, deletedAt })]
+  }
+
+  return keys.flatMap((key) => {
+    const target = storedKeyOf(key)
+    return target ? [MessageEvent.Revoked({ key: target, deletedAt })] : []
+  })
+}
+
+const contactFrom = (contact: Partial<Contact>): ContactUpdate[] =>
+  contact.id
+    ? [{
+        ...contactKey(contact.id, contact.lid),
+        pushName: contact.notify ?? null,
+        savedName: contact.name ?? null,
+        verifiedName: contact.verifiedName ?? null
+      }]
+    : []
+
+const chatFrom = (chat: Partial<Chat>): ChatUpdate[] =>
+  chat.id
+    ? [{
+        chatId: chat.id,
+        isGroup: isJidGroup(chat.id) ?? false,
+        name: chat.name ?? null,
+        unreadCount: chat.unreadCount ?? null
+      }]
+    : []
+
+const groupFrom = (group: Partial<GroupMetadata>): DirectoryUpdate[] =>
+  group.id
+    ? [DirectoryUpdate.Group({
+        chatId: group.id,
+        subject: group.subject ?? null,
+        participants: group.participants?.map((participant) => ({
+          contact: contactKey(participant.id, participant.lid),
+          role: participant.admin ?? "member"
+        })) ?? null
+      })]
+    : []
+
+const receivedEvents = (
+  messages: ReadonlyArray<proto.IWebMessageInfo>,
+  sessionId: string,
+  origin: MessageOrigin,
+  myJid?: string
+) =>
+  Effect.gen(function* () {
+    const processedMessages: MessageEvent[] = []
+
+    for (const message of messages) {
+      if (message.key && message.key.remoteJid) {
+        const processed = yield* extractMessageDataEffect(message, sessionId, myJid)
+        if (processed) {
+          // Media of old messages is left on WhatsApp's CDN, a sync would download thousands of files
+          const stored = processed.media && origin !== "history" ? yield* storeMedia(message, processed.media) : null
+          const data = stored ? { ...processed.message, ...stored } : processed.message
+
+          // Convert to WhatsAppMessage after processing for the stream
+          processedMessages.push(MessageEvent.Received({
+            message: WhatsAppMessage.make({
+              ...data,
+              quotedMessageId: data.quotedMessageId ?? null,
+              targetMessageId: data.targetMessageId ?? null,
+              selectedOptionId: data.selectedOptionId ?? null,
+              contactId: null,
+              mediaPath: data.mediaPath ?? null,
+              mediaMimetype: data.mediaMimetype ?? null,
+              deliveryStatus: data.deliveryStatus ?? null,
+              deliveredAt: null,
+              readAt: null,
+              editedAt: null,
+              deletedAt: null,
+              createdAt: new Date().toISOString()
+            }),
+            details: processed.details,
+            sender: processed.sender,
+            origin
+          }))
+        }
+      }
+    }
+
+    return processedMessages
+  })
+
 export class MessageStream extends Context.Tag("MessageStream")<
   MessageStream,
   {
-    readonly createMessageStream: (socket: WASocket) => Effect.Effect<Stream.Stream<WhatsAppMessage, never, never>>
-    readonly extractMessageData: (message: proto.IWebMessageInfo, myNumber?: string) => Effect.Effect<Schema.Schema.Type<typeof InsertMessageSchema> | null>
+    readonly attachSocket: (socket: WASocket, queue: Queue.Enqueue<SocketEvent>) => Effect.Effect<void, never, Scope.Scope>
+    readonly createMessageStream: (queue: Queue.Dequeue<SocketEvent>, sessionId: string) => Effect.Effect<Stream.Stream<MessageEvent, never, MediaStore>>
+    readonly extractMessageData: (message: proto.IWebMessageInfo, sessionId: string, myNumber?: string) => Effect.Effect<ExtractedMessage | null>
   }
 >() {}
 
 export const MessageStreamLive = Layer.succeed(MessageStream, {
-  createMessageStream: (socket) =>
-    Effect.gen(function* () {
-      const messageQueue = yield* Queue.bounded<BaileysMessage>(1000)
-
-      // Setup Baileys event listener
-      socket.ev.on('messages.upsert', ({ type, messages }) => {
-        Effect.runFork(
-          Queue.offer(messageQueue, { type, messages }).pipe(
-            Effect.catchAll(() =>
-              Effect.log(`Failed to queue message`)
+  // The queue belongs to the session, so a reconnect only swaps the socket feeding it
+  attachSocket: (socket, queue) =>
+    Effect.acquireRelease(
+      Effect.sync(() => {
+        const offer = (event: SocketEvent) => {
+          Effect.runFork(
+            Queue.offer(queue, event).pipe(
+              Effect.catchAllCause((cause) =>
+                Effect.logError(`❌ Failed to queue ${event._tag} event`, cause)
+              )
             )
           )
-        )
-      })
+        }
 
-      // Convert queue to stream and process messages
-      return Stream.fromQueue(messageQueue).pipe(
-        Stream.mapEffect(({ messages }) =>
-          Effect.gen(function* () {
-            const processedMessages: Schema.Schema.Type<typeof InsertMessageSchema>[] = []
+        const listeners = {
+          upsert: ({ type, messages }: BaileysEventMap['messages.upsert']) =>
+            offer(SocketEvent.Upsert({ type, messages, myJid: socket.user?.id })),
+          history: ({ messages, contacts, chats, syncType, progress }: BaileysEventMap['messaging-history.set']) =>
+            offer(SocketEvent.History({
+              messages,
+              contacts: contacts.flatMap(contactFrom),
+              chats: chats.flatMap(chatFrom),
+              syncType: syncType !== null && syncType !== undefined ? proto.HistorySync.HistorySyncType[syncType] ?? String(syncType) : "UNKNOWN",
+              progress: progress ?? null,
+              myJid: socket.user?.id
+            })),
+          update: (updates: BaileysEventMap['messages.update']) =>
+            offer(SocketEvent.Update({ updates })),
+          receipt: (receipts: BaileysEventMap['message-receipt.update']) =>
+            offer(SocketEvent.Receipt({ receipts })),
+          contacts: (contacts: BaileysEventMap['contacts.upsert'] | BaileysEventMap['contacts.update']) =>
+            offer(SocketEvent.Directory({ update: DirectoryUpdate.Contacts({ contacts: contacts.flatMap(contactFrom) }) })),
+          chats: (chats: BaileysEventMap['chats.upsert'] | BaileysEventMap['chats.update']) =>
+            offer(SocketEvent.Directory({ update: DirectoryUpdate.Chats({ chats: chats.flatMap(chatFrom) }) })),
+          // WhatsApp revealing the number behind a LID
+          phoneNumberShare: ({ lid, jid }: BaileysEventMap['chats.phoneNumberShare']) =>
+            offer(SocketEvent.Directory({ update: DirectoryUpdate.Contacts({ contacts: [contactKey(jid, lid)] }) })),
+          groups: (groups: BaileysEventMap['groups.upsert'] | BaileysEventMap['groups.update']) => {
+            for (const update of groups.flatMap(groupFrom)) offer(SocketEvent.Directory({ update }))
+          },
+          participants: ({ id, participants, action }: BaileysEventMap['group-participants.update']) => {
+            // modify is a participant changing number, the new one arrives as a contact update
+            if (action === 'modify') return
+            offer(SocketEvent.Directory({
+              update: DirectoryUpdate.Participants({ chatId: id, contacts: participants.map((jid) => contactKey(jid)), action })
+            }))
+          },
+          delete: (deletion: BaileysEventMap['messages.delete']) =>
+            offer('all' in deletion
+              ? SocketEvent.Delete({ keys: [], clearedChatId: deletion.jid })
+              : SocketEvent.Delete({ keys: deletion.keys, clearedChatId: null }))
+        }
 
-            for (const message of messages) {
-              if (message.key && message.key.remoteJid) {
-                const processed = yield* extractMessageDataEffect(message)
-                if (processed) {
-                  processedMessages.push(processed)
-                }
-              }
-            }
+        // Setup Baileys event listeners
+        socket.ev.on('messages.upsert', listeners.upsert)
+        socket.ev.on('messaging-history.set', listeners.history)
+        socket.ev.on('messages.update', listeners.update)
+        socket.ev.on('message-receipt.update', listeners.receipt)
+        socket.ev.on('messages.delete', listeners.delete)
+        socket.ev.on('contacts.upsert', listeners.contacts)
+        socket.ev.on('contacts.update', listeners.contacts)
+        socket.ev.on('chats.upsert', listeners.chats)
+        socket.ev.on('chats.update', listeners.chats)
+        socket.ev.on('chats.phoneNumberShare', listeners.phoneNumberShare)
+        socket.ev.on('groups.upsert', listeners.groups)
+        socket.ev.on('groups.update', listeners.groups)
+        socket.ev.on('group-participants.update', listeners.participants)
+        return listeners
+      }),
+      (listeners) => Effect.sync(() => {
+        socket.ev.off('messages.upsert', listeners.upsert)
+        socket.ev.off('messaging-history.set', listeners.history)
+        socket.ev.off('messages.update', listeners.update)
+        socket.ev.off('message-receipt.update', listeners.receipt)
+        socket.ev.off('messages.delete', listeners.delete)
+        socket.ev.off('contacts.upsert', listeners.contacts)
+        socket.ev.off('contacts.update', listeners.contacts)
+        socket.ev.off('chats.upsert', listeners.chats)
+        socket.ev.off('chats.update', listeners.chats)
+        socket.ev.off('chats.phoneNumberShare', listeners.phoneNumberShare)
+        socket.ev.off('groups.upsert', listeners.groups)
+        socket.ev.off('groups.update', listeners.groups)
+        socket.ev.off('group-participants.update', listeners.participants)
+      })
+    ),
 
-            return processedMessages
-          })
-        ),
-        Stream.mapEffect(messages => Effect.succeed(Chunk.fromIterable(messages))),
-        Stream.flattenChunks,
-        Stream.mapEffect(message => {
-          // Convert to WhatsAppMessage after processing for the stream
-          return Effect.succeed(WhatsAppMessage.make({
-            ...message,
-            createdAt: new Date().toISOString()
-          }))
-        })
+  createMessageStream: (queue, sessionId) =>
+    Effect.gen(function* () {
+      // Convert queue to stream and process messages
+      return Stream.fromQueue(queue).pipe(
+        Stream.mapEffect(SocketEvent.$match({
+          Upsert: ({ type, messages, myJid }) => receivedEvents(messages, sessionId, type, myJid),
+          History: ({ messages, contacts, chats, syncType, progress, myJid }) =>
+            receivedEvents(messages, sessionId, "history", myJid).pipe(
+              Effect.map((events) => [
+                MessageEvent.DirectoryChanged({ update: DirectoryUpdate.Contacts({ contacts }) }),
+                MessageEvent.DirectoryChanged({ update: DirectoryUpdate.Chats({ chats }) }),
+                ...events,
+                MessageEvent.HistorySynced({ syncType, count: messages.length, progress })
+              ])
+            ),
+          Directory: ({ update }) => Effect.succeed([MessageEvent.DirectoryChanged({ update })]),
+          Update: ({ updates }) => Effect.succeed(updates.flatMap(eventsFromUpdate)),
+          Receipt: ({ receipts }) => Effect.succeed(receipts.flatMap(eventsFromReceipt)),
+          Delete: ({ keys, clearedChatId }) => Effect.succeed(eventsFromDelete(keys, clearedChatId))
+        })),
+        Stream.mapEffect(events => Effect.succeed(Chunk.fromIterable(events))),
+        Stream.flattenChunks
       )
     }),
 
-  extractMessageData: (message, myNumber) => extractMessageDataEffect(message, myNumber)
+  extractMessageData: (message, sessionId, myNumber) => extractMessageDataEffect(message, sessionId, myNumber)
 })
 
-export const processMessageStream = (socket: WASocket) =>
+export const processMessageStream = (
+  queue: Queue.Dequeue<SocketEvent>,
+  sessionId: string,
+  historySync: Ref.Ref<HistorySyncProgress>
+) =>
   Effect.gen(function* () {
     const messageStream = yield* MessageStream
     const repository = yield* MessageRepository
+    const contacts = yield* ContactRepository
+    const workQueue = yield* MessageWorkQueue
+    const webhooks = yield* WebhookDispatcher
+    const sql = yield* SqliteClient.SqliteClient
+
+    const stream = yield* messageStream.createMessageStream(queue, sessionId)
+
+    yield* Stream.runForEach(stream, (event) =>
+      MessageEvent.$match(event, {
+        Received: ({ message, details, sender, origin }) =>
+          Effect.gen(function* () {
+            if (origin !== "history") {
+              yield* Effect.log(`📨 [${sessionId}] Processing message: ${message.id} from ${message.from}`)
+            }
+
+            // The work item commits with the message, so a crash right after storing
+            // it cannot leave a message that never reaches the handlers
+            const inserted = yield* sql.withTransaction(
+              Effect.gen(function* () {
+                const contact = sender ? yield* contacts.saveContact(sessionId, sender) : null
+                const stored = yield* repository.upsertMessage({
+                  ...message,
+                  contactId: contact?.id ?? null,
+                  from: message.from ?? contact?.phone ?? null
+                })
+                if (!stored.inserted) return false
+
+                yield* repository.saveDetails(keyOf(message), details)
 
-    const stream = yield* messageStream.createMessageStream(socket)
+                if (message.messageType === 'reaction' && message.targetMessageId) {
+                  yield* repository.saveReaction(MessageReaction.make({
+                    chat_id: message.chat_id,
+                    messageId: message.targetMessageId,
+                    sender: message.isFromMe ? 'me' : message.from ?? message.chat_id,
+                    emoji: message.content,
+                    reactedAt: message.timestamp
+                  }))
+                }
 
-    yield* Stream.runForEach(stream, (message) =>
-      Effect.gen(function* () {
-        yield* Effect.log(`📨 Processing message: ${message.id} from ${message.from}`)
-        yield* repository.insertMessage(message)
-        yield* Effect.log(`💾 Message stored: ${message.content.substring(0, 50)}...`)
+                // Only messages arriving now are answered, the rest is history
+                if (origin === "notify") {
+                  yield* workQueue.enqueue(keyOf(message))
+                }
+                if (origin !== "history") {
+                  yield* webhooks.emit({
+                    type: message.isFromMe ? "message.sent" : "message.received",
+                    sessionId,
+                    data: stored.message
+                  })
+                }
+                return true
+              })
+            )
+
+            if (origin === "history") {
+              if (inserted) {
+                yield* Ref.update(historySync, (current) => ({ ...current, stored: current.stored + 1 }))
+              }
+            } else if (inserted) {
+              yield* Effect.log(`💾 Message stored: ${message.content.substring(0, 50)}...`)
+            } else {
+              // Baileys repeats messages after a reconnect, the stored copy already went through the queue
+              yield* Effect.log(`♻️ [${sessionId}] Message ${message.id} already stored, skipped`)
+            }
+          }),
+        HistorySynced: ({ syncType, count, progress }) =>
+          Effect.gen(function* () {
+            const current = yield* Ref.updateAndGet(historySync, (current) => ({
+              ...current,
+              batches: current.batches + 1,
+              received: current.received + count,
+              progress: progress ?? current.progress,
+              complete: current.complete || progress === 100,
+              updatedAt: new Date().toISOString()
+            }))
+
+            yield* Effect.log(
+              `📚 [${sessionId}] History batch (${syncType}) of ${count} messages, ${current.stored} of ${current.received} stored so far` +
+                (progress !== null ? ` (${progress}%)` : "")
+            )
+          }),
+        DirectoryChanged: ({ update }) =>
+          DirectoryUpdate.$match(update, {
+            Contacts: ({ contacts: updates }) =>
+              Effect.forEach(updates, (contact) => contacts.saveContact(sessionId, contact), { discard: true }),
+            Chats: ({ chats }) =>
+              Effect.forEach(chats, (chat) => contacts.saveChat(sessionId, chat), { discard: true }),
+            Group: ({ chatId, subject, participants }) =>
+              contacts.saveGroup(sessionId, chatId, subject, participants),
+            Participants: ({ chatId, contacts: updates, action }) =>
+              contacts.updateParticipants(sessionId, chatId, updates, action)
+          }),
+        Edited: ({ key, content, editedAt }) =>
+          repository.applyEdit(key, content, editedAt).pipe(
+            Effect.tap((applied) => applied ? Effect.log(`✏️ [${sessionId}] Message ${key.messageId} edited`) : Effect.void)
+          ),
+        Revoked: ({ key, deletedAt }) =>
+          repository.markDeleted(key, deletedAt).pipe(
+            Effect.tap(() => Effect.log(`🗑️ [${sessionId}] Message ${key.messageId} deleted`))
+          ),
+        ChatCleared: ({ chatId, deletedAt }) =>
+          repository.markChatDeleted(chatId, deletedAt).pipe(
+            Effect.tap(() => Effect.log(`🗑️ [${sessionId}] Chat ${chatId} cleared`))
+          ),
+        StatusChanged: ({ key, status, at }) =>
+          repository.updateDeliveryStatus(key, status, at)
       }).pipe(
-        Effect.catchAll(() =>
-          Effect.log(`❌ Failed to process message ${message.id}`)
+        Effect.catchAllCause((cause) =>
+          Effect.logError(`❌ Failed to process ${event._tag} event`, cause)
         )
       )
     )
-  })
\ No newline at end of file
+  })
+
+// Work done for every stored message, called by the message work queue. A failure
+// leaves the message in the queue to be retried.
+export const processStoredMessage = (message: WhatsAppMessage) =>
+  Effect.gen(function* () {
+    const direction = message.isFromMe ? "→" : "←"
+    const truncatedContent = message.content.length > 50
+      ? message.content.substring(0, 50) + "..."
+      : message.content
+
+    yield* Effect.log(
+      `${direction} [${message.messageType}] ${message.from} ${direction} ${message.to}: ${truncatedContent}`
+    )
+
+    // Our own messages are history, only what customers send goes through the handlers
+    if (!message.isFromMe) {
+      yield* runMessageHandlers(messageHandlers, message)
+      return
+    }
+
+    // Typed on the phone rather than sent by the bot: someone is answering the chat
+    const sender = yield* MessageSender
+    if (!message.isGroup && !(yield* sender.isOutboxMessage(keyOf(message)))) {
+      const inbox = yield* AgentInbox
+      const { events } = yield* noteAgentActivity(message.sessionId, message.chat_id, "phone", message.timestamp)
+      yield* inbox.publishAll(events)
+    }
+  })
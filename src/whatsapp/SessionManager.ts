@@ -0,0 +1,357 @@
+import { Effect, Context, Data, Exit, HashMap, Layer, Option, Queue, Ref, Scope, Stream, SubscriptionRef } from "effect"
+import { SqliteClient } from "@effect/sql-sqlite-bun"
+import { SqlError } from "@effect/sql"
+import { DecodeError } from "../database/Rows.js"
+import type { WASocket } from "@whiskeysockets/baileys"
+import { MessageRepository } from "../database/Repository.js"
+import { ContactRepository } from "../database/ContactRepository.js"
+import { MessageWorkQueue } from "../effects/MessageWorkQueue.js"
+import { WebhookDispatcher } from "../webhooks/WebhookDispatcher.js"
+import { WhatsAppAuthState } from "./AuthState.js"
+import { WhatsAppConnection, initialConnectionState, isRetryable, type ConnectionState } from "./Connection.js"
+import { MessageSender } from "./MessageSender.js"
+import { MediaStore } from "./MediaStore.js"
+import {
+  MessageStream,
+  initialHistorySyncProgress,
+  processMessageStream,
+  type HistorySyncProgress,
+  type SocketEvent
+} from "./MessageStream.js"
+
+export interface SessionInfo {
+  readonly sessionId: string
+  readonly startedAt: string
+  readonly connection: ConnectionState
+}
+
+interface Session {
+  readonly sessionId: string
+  readonly startedAt: string
+  readonly scope: Scope.CloseableScope
+  readonly state: SubscriptionRef.SubscriptionRef<ConnectionState>
+  readonly pairingPhone: SubscriptionRef.SubscriptionRef<Option.Option<string>>
+  readonly socket: Ref.Ref<Option.Option<WASocket>>
+  readonly historySync: Ref.Ref<HistorySyncProgress>
+}
+
+export class SessionNotRunning extends Data.TaggedError("SessionNotRunning")<{
+  readonly sessionId: string
+}> {}
+
+// The session is already logged in, there is nothing to pair
+export class AlreadyConnected extends Data.TaggedError("AlreadyConnected")<{
+  readonly sessionId: string
+}> {}
+
+// Older messages are requested relative to the oldest one we have
+export class ChatHasNoMessages extends Data.TaggedError("ChatHasNoMessages")<{
+  readonly sessionId: string
+  readonly chatId: string
+}> {}
+
+export class HistoryRequestFailed extends Data.TaggedError("HistoryRequestFailed")<{
+  readonly sessionId: string
+  readonly message: string
+}> {}
+
+export class PairingCodeTimeout extends Data.TaggedError("PairingCodeTimeout")<{
+  readonly sessionId: string
+}> {}
+
+// Everything a session needs to connect, ingest and deliver messages
+export type SessionRequirements =
+  | WhatsAppConnection
+  | WhatsAppAuthState
+  | MessageStream
+  | MessageRepository
+  | ContactRepository
+  | MessageSender
+  | MediaStore
+  | MessageWorkQueue
+  | WebhookDispatcher
+  | SqliteClient.SqliteClient
+
+export class SessionManager extends Context.Tag("SessionManager")<
+  SessionManager,
+  {
+    readonly startSession: (sessionId: string) => Effect.Effect<void, never, SessionRequirements>
+    readonly stopSession: (sessionId: string) => Effect.Effect<boolean>
+    readonly listSessions: () => Effect.Effect<ReadonlyArray<SessionInfo>>
+    readonly getSocket: (sessionId: string) => Effect.Effect<Option.Option<WASocket>>
+    readonly getConnectionState: (sessionId: string) => Effect.Effect<Option.Option<ConnectionState>>
+    readonly connectionChanges: (sessionId: string) => Effect.Effect<Option.Option<Stream.Stream<ConnectionState>>>
+    readonly requestPairingCode: (sessionId: string, phoneNumber: string) => Effect.Effect<string, SessionNotRunning | AlreadyConnected | PairingCodeTimeout>
+    readonly getHistorySync: (sessionId: string) => Effect.Effect<Option.Option<HistorySyncProgress>>
+    // The messages arrive later as an on-demand history batch, returns the request id
+    readonly fetchOlderMessages: (sessionId: string, chatId: string, count: number) => Effect.Effect<string, SessionNotRunning | ChatHasNoMessages | HistoryRequestFailed | SqlError.SqlError | DecodeError, MessageRepository | SqliteClient.SqliteClient>
+    readonly logout: (sessionId: string) => Effect.Effect<void, SqlError.SqlError, WhatsAppAuthState | SqliteClient.SqliteClient>
+  }
+>() {}
+
+// Pause before a new round of connection attempts once the retry policy gave up
+const RECONNECT_COOLDOWN = "30 seconds"
+
+// Time allowed for WhatsApp to hand out a pairing code
+const PAIRING_CODE_TIMEOUT = "30 seconds"
+
+// Keeps a session connected: every time the socket closes for a retryable reason
+// a new one is opened and plugged into the same message queue
+const superviseConnection = (session: Session, queue: Queue.Enqueue<SocketEvent>) =>
+  Effect.gen(function* () {
+    const connection = yield* WhatsAppConnection
+    const messageStream = yield* MessageStream
+    const sender = yield* MessageSender
+    const { sessionId } = session
+
+    while (true) {
+      const outcome = yield* Effect.gen(function* () {
+        const { socket, closed } = yield* connection.connect(sessionId, session)
+
+        yield* messageStream.attachSocket(socket, queue)
+        yield* Ref.set(session.socket, Option.some(socket))
+
+        // The outbox is drained by whichever socket is currently open
+        yield* sender.start(sessionId, socket).pipe(
+          Effect.catchAll((error: unknown) =>
+            Effect.log(`❌ [${sessionId}] Outbox delivery routine error: ${error}`)
+          ),
+          Effect.forkScoped
+        )
+
+        return yield* closed
+      }).pipe(
+        Effect.ensuring(Ref.set(session.socket, Option.none())),
+        Effect.scoped,
+        Effect.either
+      )
+
+      const error = outcome._tag === "Left" ? outcome.left : outcome.right
+
+      if (!isRetryable(error)) {
+        yield* Effect.log(`❌ [${sessionId}] Supervision stopped: ${error._tag}`)
+        return
+      }
+
+      yield* SubscriptionRef.update(session.state, (current) => ({
+        ...current,
+        status: "reconnecting" as const,
+        lastError: error._tag,
+        updatedAt: new Date().toISOString()
+      }))
+
+      // Socket dropped after being open: reconnect right away, otherwise back off
+      if (outcome._tag === "Left") {
+        yield* Effect.log(`⏳ [${sessionId}] Could not connect (${error._tag}), retrying in ${RECONNECT_COOLDOWN}`)
+        yield* Effect.sleep(RECONNECT_COOLDOWN)
+      } else {
+        yield* Effect.log(`🔄 [${sessionId}] Reconnecting after ${error._tag}...`)
+      }
+    }
+  })
+
+// Webhook for every change of status, QR refreshes of the same status are left out
+const reportConnectionChanges = (session: Session) =>
+  Effect.gen(function* () {
+    const webhooks = yield* WebhookDispatcher
+
+    yield* session.state.changes.pipe(
+      Stream.changesWith((previous, current) => previous.status === current.status),
+      Stream.runForEach((state) =>
+        webhooks.emit({ type: "connection.changed", sessionId: session.sessionId, data: state })
+      )
+    )
+  })
+
+export const SessionManagerLive = Layer.effect(
+  SessionManager,
+  Effect.gen(function* () {
+    const sessions = yield* Ref.make(HashMap.empty<string, Session>())
+    // Starts and stops one at a time, two starts of a session would both find it
+    // missing and open two sockets
+    const lifecycle = yield* Effect.makeSemaphore(1)
+
+    const findSession = (sessionId: string) =>
+      Ref.get(sessions).pipe(Effect.map(HashMap.get(sessionId)))
+
+    const getSocket = (sessionId: string) =>
+      findSession(sessionId).pipe(
+        Effect.flatMap(Option.match({
+          onNone: () => Effect.succeed(Option.none<WASocket>()),
+          onSome: (session) => Ref.get(session.socket)
+        }))
+      )
+
+    const stopSession = (sessionId: string) =>
+      Effect.gen(function* () {
+        const session = yield* findSession(sessionId)
+        if (Option.isNone(session)) {
+          return false
+        }
+
+        yield* Ref.update(sessions, HashMap.remove(sessionId))
+        yield* Scope.close(session.value.scope, Exit.void)
+        yield* Effect.log(`🛑 [${sessionId}] Session stopped`)
+        return true
+      }).pipe(lifecycle.withPermits(1))
+
+    return {
+      startSession: (sessionId) =>
+        Effect.gen(function* () {
+          if (HashMap.has(yield* Ref.get(sessions), sessionId)) {
+            yield* Effect.log(`ℹ️ [${sessionId}] Session already running`)
+            return
+          }
+
+          // Each session owns a scope: closing it ends the socket and its fibers
+          const session: Session = {
+            sessionId,
+            startedAt: new Date().toISOString(),
+            scope: yield* Scope.make(),
+            state: yield* SubscriptionRef.make(initialConnectionState()),
+            pairingPhone: yield* SubscriptionRef.make(Option.none<string>()),
+            socket: yield* Ref.make(Option.none<WASocket>()),
+            historySync: yield* Ref.make(initialHistorySyncProgress())
+          }
+
+          // Outlives every socket of the session, so nothing queued is lost on reconnect
+          const queue = yield* Queue.bounded<SocketEvent>(1000)
+
+          yield* processMessageStream(queue, sessionId, session.historySync).pipe(
+            Effect.catchAll((error: unknown) =>
+              Effect.log(`❌ [${sessionId}] Message processing error: ${error}`)
+            ),
+            Effect.forkIn(session.scope)
+          )
+
+          yield* superviseConnection(session, queue).pipe(
+            Effect.forkIn(session.scope)
+          )
+
+          yield* reportConnectionChanges(session).pipe(
+            Effect.catchAll((error: unknown) =>
+              Effect.log(`❌ [${sessionId}] Connection webhook error: ${error}`)
+            ),
+            Effect.forkIn(session.scope)
+          )
+
+          yield* Ref.update(sessions, HashMap.set(sessionId, session))
+
+          yield* Effect.log(`✅ [${sessionId}] Session started`)
+        }).pipe(lifecycle.withPermits(1)),
+
+      stopSession,
+
+      listSessions: () =>
+        Effect.gen(function* () {
+          const current = yield* Ref.get(sessions)
+
+          return yield* Effect.forEach(HashMap.values(current), (session) =>
+            Effect.map(SubscriptionRef.get(session.state), (connection) => ({
+              sessionId: session.sessionId,
+              startedAt: session.startedAt,
+              connection
+            }))
+          )
+        }),
+
+      getSocket,
+
+      getConnectionState: (sessionId) =>
+        findSession(sessionId).pipe(
+          Effect.flatMap(Option.match({
+            onNone: () => Effect.succeed(Option.none<ConnectionState>()),
+            onSome: (session) => Effect.map(SubscriptionRef.get(session.state), Option.some)
+          }))
+        ),
+
+      connectionChanges: (sessionId) =>
+        findSession(sessionId).pipe(
+          Effect.map(Option.map((session) => session.state.changes))
+        ),
+
+      requestPairingCode: (sessionId, phoneNumber) =>
+        Effect.gen(function* () {
+          const session = yield* findSession(sessionId)
+          if (Option.isNone(session)) {
+            return yield* new SessionNotRunning({ sessionId })
+          }
+          const { state, pairingPhone } = session.value
+
+          if ((yield* SubscriptionRef.get(state)).status === "open") {
+            return yield* new AlreadyConnected({ sessionId })
+          }
+
+          // Forget the code of a previous request so we wait for the one of this number
+          yield* SubscriptionRef.update(state, (current) => ({ ...current, pairingCode: null }))
+          yield* SubscriptionRef.set(pairingPhone, Option.some(phoneNumber))
+
+          const pairingCode = yield* state.changes.pipe(
+            Stream.filterMap((current) => Option.fromNullable(current.pairingCode)),
+            Stream.runHead,
+            Effect.timeoutFail({
+              duration: PAIRING_CODE_TIMEOUT,
+              onTimeout: () => new PairingCodeTimeout({ sessionId })
+            })
+          )
+
+          if (Option.isNone(pairingCode)) {
+            return yield* new PairingCodeTimeout({ sessionId })
+          }
+          return pairingCode.value
+        }),
+
+      getHistorySync: (sessionId) =>
+        findSession(sessionId).pipe(
+          Effect.flatMap(Option.match({
+            onNone: () => Effect.succeed(Option.none<HistorySyncProgress>()),
+            onSome: (session) => Effect.map(Ref.get(session.historySync), Option.some)
+          }))
+        ),
+
+      fetchOlderMessages: (sessionId, chatId, count) =>
+        Effect.gen(function* () {
+          const repository = yield* MessageRepository
+          const socket = yield* getSocket(sessionId)
+          if (Option.isNone(socket)) {
+            return yield* new SessionNotRunning({ sessionId })
+          }
+
+          const oldest = yield* repository.getOldestMessage(sessionId, chatId)
+          if (Option.isNone(oldest)) {
+            return yield* new ChatHasNoMessages({ sessionId, chatId })
+          }
+          const { id, isFromMe, timestamp } = oldest.value
+
+          const requestId = yield* Effect.tryPromise({
+            try: () => socket.value.fetchMessageHistory(
+              count,
+              { remoteJid: chatId, id, fromMe: isFromMe },
+              Math.floor(new Date(timestamp).getTime() / 1000)
+            ),
+            catch: (error) => new HistoryRequestFailed({ sessionId, message: `${error}` })
+          })
+
+          yield* Effect.log(`📚 [${sessionId}] Requested ${count} messages of ${chatId} older than ${id}`)
+          return requestId
+        }),
+
+      logout: (sessionId) =>
+        Effect.gen(function* () {
+          const authState = yield* WhatsAppAuthState
+          const socket = yield* getSocket(sessionId)
+
+          // Unlink the device on WhatsApp's side while we still have an open socket
+          if (Option.isSome(socket)) {
+            yield* Effect.tryPromise(() => socket.value.logout()).pipe(
+              Effect.catchAll((error) => Effect.log(`⚠️ [${sessionId}] Logout request failed: ${error.message}`))
+            )
+          }
+
+          yield* stopSession(sessionId)
+          yield* authState.clearAuthState(sessionId)
+          yield* Effect.log(`👋 [${sessionId}] Logged out, credentials cleared`)
+        })
+    }
+  })
+)